@@ -4,10 +4,12 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
-import { GoogleGenAI, GenerateContentResponse, Content } from '@google/genai';
+import { GoogleGenAI, GenerateContentResponse, Schema, Type } from '@google/genai';
 import * as XLSX from 'xlsx';
+import { Marked } from 'marked';
+import JSZip from 'jszip';
 
 // Ensure API key is sourced from process.env
 const GEMINI_API_KEY = process.env.API_KEY;
@@ -20,55 +22,295 @@ const GENERIC_EMAIL_DOMAINS = [
   'att.net', 'sbcglobal.net', 'bellsouth.net', 'cox.net', 'charter.net',
 ].map(d => d.toLowerCase());
 
-// Pricing Constants for gemini-2.5-flash-preview-04-17 (Paid Tier) - "Flash Model"
-const FLASH_PRICE_INPUT_PER_MILLION_TOKENS = 0.15; // USD
-const FLASH_PRICE_OUTPUT_THINKING_PER_MILLION_TOKENS = 3.50; // USD
-const FLASH_PRICE_GROUNDING_PER_THOUSAND_REQUESTS_AFTER_FREE_TIER = 35; // USD
-const FLASH_FREE_GROUNDING_REQUESTS_PER_DAY = 1500;
 
-// Pricing Constants for gemini-2.5-pro-preview-04-17 (Paid Tier, <=200k tokens) - "Pro Model"
-const PRO_PRICE_INPUT_PER_MILLION_TOKENS = 1.25; // USD
-const PRO_PRICE_OUTPUT_PER_MILLION_TOKENS = 10.00; // USD (includes thinking)
+// --- CSV Helper Functions ---
+const CSV_DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const CSV_QUOTE_CANDIDATES = ['"', "'"];
+const CSV_ENCODING_OPTIONS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'];
+const CSV_READ_CHUNK_BYTES = 1024 * 1024; // 1MB per streamed slice
+const CSV_DETECTION_SAMPLE_LINES = 20;
+const CSV_PARSE_REPORT_DISPLAY_LIMIT = 200;
+
+interface CsvDialect {
+  delimiter: string;
+  quoteChar: string;
+  encoding: string;
+  lineEnding: '\n' | '\r\n';
+  hasBom: boolean;
+}
 
+// Any option left undefined is auto-detected from the first chunk of the file.
+interface CsvParseOptions {
+  delimiter?: string;
+  quoteChar?: string;
+  encoding?: string;
+}
 
-// --- CSV Helper Functions ---
-const parseCSV = (csvText: string): string[][] => {
-  const lines = csvText.split('\n').filter(line => String(line ?? '').trim() !== '');
-  return lines.map(line => {
-    const values: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        if (inQuotes && i + 1 < line.length && line[i+1] === '"') {
-          currentField += '"';
-          i++; 
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        values.push(String(currentField ?? '').trim());
-        currentField = '';
+interface CsvStringifyOptions {
+  delimiter?: string;
+  quoteChar?: string;
+  lineEnding?: '\n' | '\r\n';
+  bom?: boolean;
+}
+
+interface CsvParseIssue {
+  line: number; // 1-based physical line on which the record starts
+  record: number; // 1-based record number (header is record 1)
+  message: string;
+}
+
+interface CsvParseResult {
+  rows: string[][];
+  dialect: CsvDialect;
+  issues: CsvParseIssue[];
+}
+
+const describeCsvDelimiter = (delimiter: string): string => {
+  switch (delimiter) {
+    case ',': return 'Comma (,)';
+    case ';': return 'Semicolon (;)';
+    case '\t': return 'Tab';
+    case '|': return 'Pipe (|)';
+    default: return `"${delimiter}"`;
+  }
+};
+
+const detectCsvEncoding = (bytes: Uint8Array): { encoding: string, hasBom: boolean } => {
+  if (bytes.length >= 3 && bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'utf-8', hasBom: true };
+  if (bytes.length >= 2 && bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'utf-16le', hasBom: true };
+  if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'utf-16be', hasBom: true };
+
+  // BOM-less UTF-16 shows up as a zero byte in every other position for mostly-ASCII text.
+  const sampleLength = Math.min(bytes.length, 4096);
+  let zeroEven = 0; let zeroOdd = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] === 0) { if (i % 2 === 0) zeroEven++; else zeroOdd++; }
+  }
+  if (sampleLength > 0 && zeroOdd > sampleLength * 0.3) return { encoding: 'utf-16le', hasBom: false };
+  if (sampleLength > 0 && zeroEven > sampleLength * 0.3) return { encoding: 'utf-16be', hasBom: false };
+
+  try {
+    // stream: true so a multi-byte character cut off at the end of the sample is not treated as invalid.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+};
+
+const detectCsvQuoteChar = (sample: string): string => {
+  if (sample.includes('"')) return '"';
+  const singleQuotedField = /(^|[,;\t|])'[^']*'(?=[,;\t|]|\r?\n|$)/m;
+  return singleQuotedField.test(sample) ? "'" : '"';
+};
+
+const detectCsvDelimiter = (sample: string, quoteChar: string): string => {
+  const countsPerLine: Record<string, number>[] = [];
+  let counts: Record<string, number> = {};
+  let inQuotes = false;
+  for (let i = 0; i < sample.length && countsPerLine.length < CSV_DETECTION_SAMPLE_LINES; i++) {
+    const char = sample[i];
+    if (char === quoteChar) {
+      inQuotes = !inQuotes; // A doubled quote toggles twice, which is what we want here.
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (Object.keys(counts).length > 0) countsPerLine.push(counts);
+      counts = {};
+    } else if (!inQuotes && CSV_DELIMITER_CANDIDATES.includes(char)) {
+      counts[char] = (counts[char] ?? 0) + 1;
+    }
+  }
+  if (Object.keys(counts).length > 0 && countsPerLine.length < CSV_DETECTION_SAMPLE_LINES) countsPerLine.push(counts);
+  if (countsPerLine.length === 0) return ',';
+
+  let bestDelimiter = ',';
+  let bestScore = -1;
+  CSV_DELIMITER_CANDIDATES.forEach(candidate => {
+    const frequencies = new Map<number, number>();
+    countsPerLine.forEach(lineCounts => {
+      const count = lineCounts[candidate] ?? 0;
+      frequencies.set(count, (frequencies.get(count) ?? 0) + 1);
+    });
+    let modeCount = 0; let modeLines = 0;
+    frequencies.forEach((lines, count) => {
+      if (count > 0 && (lines > modeLines || (lines === modeLines && count > modeCount))) { modeCount = count; modeLines = lines; }
+    });
+    if (modeCount === 0) return;
+    // Prefer the delimiter that splits the most lines into the same number of fields, then the one producing more fields.
+    const score = modeLines * 1000 + modeCount;
+    if (score > bestScore) { bestScore = score; bestDelimiter = candidate; }
+  });
+  return bestDelimiter;
+};
+
+/**
+ * Incremental RFC 4180 parser. Text can be pushed in arbitrary chunks (a chunk may end
+ * inside a quoted field or between the two characters of an escaped quote); all state is
+ * carried across push() calls. Malformed input is recovered from and recorded in `issues`.
+ * Unquoted fields are trimmed; quoted fields keep their contents verbatim.
+ */
+class CsvStreamParser {
+  readonly rows: string[][] = [];
+  readonly issues: CsvParseIssue[] = [];
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private fieldWasQuoted = false;
+  private quotePending = false; // Saw a quote inside a quoted field; the next char decides if it was escaped.
+  private afterClosingQuote = false;
+  private skipNextLineFeed = false;
+  private line = 1;
+  private recordStartLine = 1;
+
+  constructor(private readonly delimiter: string, private readonly quoteChar: string) {}
+
+  private addIssue(message: string) {
+    this.issues.push({ line: this.recordStartLine, record: this.rows.length + 1, message });
+  }
+
+  private endField() {
+    this.row.push(this.fieldWasQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldWasQuoted = false;
+    this.afterClosingQuote = false;
+  }
+
+  private endRecord() {
+    const isBlankLine = this.row.length === 0 && this.field.trim() === '' && !this.fieldWasQuoted;
+    this.endField();
+    if (!isBlankLine) {
+      const expectedFields = this.rows.length > 0 ? this.rows[0].length : this.row.length;
+      if (this.row.length !== expectedFields) {
+        this.addIssue(`Expected ${expectedFields} fields but found ${this.row.length}.`);
+      }
+      this.rows.push(this.row);
+    }
+    this.row = [];
+  }
+
+  push(chunk: string) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.skipNextLineFeed) {
+        this.skipNextLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === this.quoteChar) { this.field += char; continue; }
+        this.inQuotes = false;
+        this.afterClosingQuote = true;
+        // Fall through and handle `char` as unquoted input.
+      }
+
+      if (this.inQuotes) {
+        if (char === this.quoteChar) { this.quotePending = true; continue; }
+        if (char === '\n') this.line++;
+        this.field += char;
+        continue;
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.endRecord();
+        this.line++;
+        this.recordStartLine = this.line;
+        this.skipNextLineFeed = char === '\r';
+      } else if (char === this.quoteChar && this.field.trim() === '' && !this.fieldWasQuoted) {
+        this.field = ''; // Drop padding before the opening quote.
+        this.inQuotes = true;
+        this.fieldWasQuoted = true;
+      } else if (this.afterClosingQuote && char.trim() === '') {
+        // Padding after the closing quote is ignored.
       } else {
-        currentField += char;
+        if (char === this.quoteChar) {
+          this.addIssue(`Unexpected quote character in unquoted field ${this.row.length + 1}.`);
+        } else if (this.afterClosingQuote) {
+          this.addIssue(`Unexpected text after closing quote in field ${this.row.length + 1}.`);
+          this.afterClosingQuote = false; // Report once per field.
+        }
+        this.field += char;
       }
     }
-    values.push(String(currentField ?? '').trim());
-    return values;
-  });
+  }
+
+  finish(): { rows: string[][], issues: CsvParseIssue[] } {
+    if (this.quotePending) { this.quotePending = false; this.inQuotes = false; }
+    if (this.inQuotes) {
+      this.addIssue('Unterminated quoted field at end of file; the rest of the file was read into it.');
+      this.inQuotes = false;
+    }
+    if (this.field !== '' || this.fieldWasQuoted || this.row.length > 0) this.endRecord();
+    return { rows: this.rows, issues: this.issues };
+  }
+}
+
+const resolveCsvDialect = (sampleText: string, encodingInfo: { encoding: string, hasBom: boolean }, options: CsvParseOptions): CsvDialect => {
+  const quoteChar = options.quoteChar || detectCsvQuoteChar(sampleText);
+  return {
+    delimiter: options.delimiter || detectCsvDelimiter(sampleText, quoteChar),
+    quoteChar,
+    encoding: encodingInfo.encoding,
+    lineEnding: sampleText.includes('\r\n') ? '\r\n' : '\n',
+    hasBom: encodingInfo.hasBom,
+  };
+};
+
+const parseCSV = (csvText: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const text = csvText.charCodeAt(0) === 0xFEFF ? csvText.substring(1) : csvText;
+  const dialect = resolveCsvDialect(text.substring(0, 64 * 1024), { encoding: options.encoding || 'utf-8', hasBom: text !== csvText }, options);
+  const parser = new CsvStreamParser(dialect.delimiter, dialect.quoteChar);
+  parser.push(text);
+  const { rows, issues } = parser.finish();
+  return { rows, dialect, issues };
 };
 
-const stringifyCSV = (data: string[][]): string => {
-  return data.map(row =>
+/**
+ * Streams a CSV file through CsvStreamParser in CSV_READ_CHUNK_BYTES slices, yielding to the
+ * event loop between slices so the UI stays responsive and progress (0-1) can be reported.
+ */
+const parseCSVFile = async (file: Blob, options: CsvParseOptions = {}, onProgress?: (fraction: number) => void): Promise<CsvParseResult> => {
+  const firstSlice = new Uint8Array(await file.slice(0, CSV_READ_CHUNK_BYTES).arrayBuffer());
+  const detectedEncoding = detectCsvEncoding(firstSlice);
+  const encodingInfo = options.encoding ? { encoding: options.encoding, hasBom: detectedEncoding.hasBom && detectedEncoding.encoding === options.encoding } : detectedEncoding;
+
+  // The decoder strips a BOM matching its own encoding, so it never reaches the parser.
+  const decoder = new TextDecoder(encodingInfo.encoding);
+  const firstText = decoder.decode(firstSlice, { stream: true });
+  const dialect = resolveCsvDialect(firstText, encodingInfo, options);
+  const parser = new CsvStreamParser(dialect.delimiter, dialect.quoteChar);
+  parser.push(firstText);
+
+  for (let offset = CSV_READ_CHUNK_BYTES; offset < file.size; offset += CSV_READ_CHUNK_BYTES) {
+    onProgress?.(offset / file.size);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const bytes = await file.slice(offset, offset + CSV_READ_CHUNK_BYTES).arrayBuffer();
+    parser.push(decoder.decode(bytes, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  onProgress?.(1);
+
+  const { rows, issues } = parser.finish();
+  return { rows, dialect, issues };
+};
+
+const stringifyCSV = (data: string[][], options: CsvStringifyOptions = {}): string => {
+  const delimiter = options.delimiter ?? ',';
+  const quoteChar = options.quoteChar ?? '"';
+  const lineEnding = options.lineEnding ?? '\n';
+  const body = data.map(row =>
     row.map(field => {
       const strField = String(field === null || typeof field === 'undefined' ? '' : field);
-      if (strField.includes(',') || strField.includes('\n') || strField.includes('"')) {
-        return `"${strField.replace(/"/g, '""')}"`;
+      // Unquoted fields are trimmed when parsed, so padded fields are quoted to keep their spaces and tabs.
+      if (strField.includes(delimiter) || strField.includes('\n') || strField.includes('\r') || strField.includes(quoteChar) || strField !== strField.trim()) {
+        return `${quoteChar}${strField.split(quoteChar).join(quoteChar + quoteChar)}${quoteChar}`;
       }
       return strField;
-    }).join(',')
-  ).join('\n');
+    }).join(delimiter)
+  ).join(lineEnding);
+  return options.bom ? `\uFEFF${body}` : body;
 };
 // --- End CSV Helper Functions ---
 
@@ -81,121 +323,3492 @@ const extractDomainFromEmail = (email: string): string | null => {
 };
 
 // --- AI Response Cleanup Helper ---
-const cleanAiNotFoundResponses = (data: string[][]): string[][] => {
-  if (!data || data.length === 0) return data;
-
-  const notFoundPlaceholders = [
-    "url_not_found",
-    "no official website found",
-    "not found",
-    "n/a",
-    "null", 
-    "undefined",
-    "insufficient specific information available on the website to generate a detailed analytical profile for referral matchmaking."
-  ].map(p => p.toLowerCase());
-
-  const cleanedData = data.map(row => [...row.map(cell => String(cell ?? ''))]); 
-
-  for (let i = 1; i < cleanedData.length; i++) { 
-    const row = cleanedData[i];
-    if (row.length > 2) { 
-      const cellValue = String(row[2] ?? ''); 
-      if (cellValue.trim() !== '') {
-        if (notFoundPlaceholders.includes(cellValue.trim().toLowerCase())) {
-          row[2] = ""; 
-        }
+const AI_NOT_FOUND_PLACEHOLDERS = [
+  "url_not_found",
+  "no official website found",
+  "not found",
+  "n/a",
+  "null", 
+  "undefined",
+  "insufficient specific information available on the website to generate a detailed analytical profile for referral matchmaking."
+];
+
+// Models sometimes write a "not found" phrase where they were asked for an empty string.
+const isAiNotFoundValue = (value: string): boolean => AI_NOT_FOUND_PLACEHOLDERS.includes(value.trim().toLowerCase());
+
+// Web sources the model used through Google Search grounding, if any.
+const extractGroundingUris = (response: GenerateContentResponse | undefined): string[] =>
+  (response?.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []).map(chunk => String(chunk.web?.uri ?? '')).filter(uri => uri !== '');
+
+// --- URL Normalization for Comparison ---
+const normalizeUrlForComparison = (url: string): string => {
+  let normalized = String(url ?? '').trim().toLowerCase();
+  if (normalized.startsWith('http://')) {
+    normalized = normalized.substring(7);
+  } else if (normalized.startsWith('https://')) {
+    normalized = normalized.substring(8);
+  }
+  if (normalized.startsWith('www.')) {
+    normalized = normalized.substring(4);
+  }
+  if (normalized.endsWith('/')) {
+    normalized = normalized.slice(0, -1);
+  }
+  return normalized;
+};
+
+// --- Plausible URL Check Helper ---
+const isPlausibleUrl = (url: string): boolean => {
+  const trimmedUrl = String(url ?? '').trim();
+  if (trimmedUrl === '') return false;
+  if (!trimmedUrl.includes('.')) return false;
+  // Avoid treating email addresses as plausible website URLs
+  if (trimmedUrl.includes('@') && GENERIC_EMAIL_DOMAINS.some(domain => trimmedUrl.endsWith(domain))) return false;
+  if (GENERIC_EMAIL_DOMAINS.some(domain => normalizeUrlForComparison(trimmedUrl) === domain)) return false;
+  return true;
+};
+
+// --- JSON Import Helpers ---
+// Imported and saved files are parsed into unknown and checked field by field before they are trusted.
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parses a versioned file such as a recipe; `description` starts the error messages, e.g. "Recipe".
+const parseVersionedJson = (json: string, description: string, version: number): JsonObject => {
+  let raw: unknown;
+  try { raw = JSON.parse(json); } catch (e) { throw new Error(`${description} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`); }
+  if (!isJsonObject(raw)) throw new Error(`${description} must be a JSON object.`);
+  if (raw.version !== version) throw new Error(`Unsupported ${description.toLowerCase()} version ${JSON.stringify(raw.version)}; expected ${version}.`);
+  return raw;
+};
+
+
+// --- Column Role Mapping ---
+interface ColumnMapping {
+  orgName: number;
+  websiteUrl: number;
+  description: number;
+  contactFirstName: number;
+  contactLastName: number;
+  contactEmail: number;
+  contactAccount: number;
+}
+
+type ColumnRole = keyof ColumnMapping;
+
+interface ColumnRoleDefinition {
+  role: ColumnRole;
+  label: string;
+  sheet: 'organizations' | 'contacts';
+  writable: boolean; // Output roles may point at a new column appended after the last header.
+  patterns: RegExp[]; // In priority order; the first header matching the earliest pattern wins.
+}
+
+// The layout of the CRM export this tool was originally written for (Col A, C, BL; contacts Col B, C, D, J).
+const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  orgName: 0,
+  websiteUrl: 2,
+  description: 63,
+  contactFirstName: 1,
+  contactLastName: 2,
+  contactEmail: 3,
+  contactAccount: 9,
+};
+
+const COLUMN_ROLE_DEFINITIONS: ColumnRoleDefinition[] = [
+  { role: 'orgName', label: 'Organization Name', sheet: 'organizations', writable: false, patterns: [/^(account|organi[sz]ation|company|business|org)[\s_-]*name$/i, /^(account|organi[sz]ation|company|org|name)$/i, /name/i] },
+  { role: 'websiteUrl', label: 'Website URL', sheet: 'organizations', writable: true, patterns: [/^(website|web[\s_-]*site|url|homepage|domain)$/i, /website|web site|url|homepage|domain/i] },
+  { role: 'description', label: 'Description / Dossier', sheet: 'organizations', writable: true, patterns: [/^description$/i, /description|dossier|profile|about/i] },
+  { role: 'contactFirstName', label: 'Contact First Name', sheet: 'contacts', writable: false, patterns: [/first[\s_-]*name|given[\s_-]*name/i] },
+  { role: 'contactLastName', label: 'Contact Last Name', sheet: 'contacts', writable: false, patterns: [/last[\s_-]*name|surname|family[\s_-]*name/i] },
+  { role: 'contactEmail', label: 'Contact Email', sheet: 'contacts', writable: false, patterns: [/^e-?mail([\s_-]*address)?$/i, /e-?mail/i] },
+  { role: 'contactAccount', label: 'Contact Account ("Accounts::::Org")', sheet: 'contacts', writable: false, patterns: [/^accounts?$/i, /account|organi[sz]ation|company/i] },
+];
+
+const COLUMN_MAPPING_STORAGE_KEY = 'aiCsvUrlFinder.columnMappings';
+
+const columnIndexToLetter = (index: number): string => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+const describeColumn = (header: string[], index: number): string => {
+  const name = String(header[index] ?? '').trim();
+  return `${columnIndexToLetter(index)}${name ? ` "${name}"` : ''}`;
+};
+
+const getHeaderSignature = (orgHeader: string[], contactsHeader: string[] | null): string => {
+  const normalize = (header: string[]) => header.map(cell => String(cell ?? '').trim().toLowerCase()).join('␟');
+  return `${normalize(orgHeader)}␞${contactsHeader ? normalize(contactsHeader) : ''}`;
+};
+
+const guessColumnMapping = (orgHeader: string[], contactsHeader: string[] | null): ColumnMapping => {
+  const mapping: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING };
+  const claimed: Record<'organizations' | 'contacts', Set<number>> = { organizations: new Set(), contacts: new Set() };
+
+  COLUMN_ROLE_DEFINITIONS.forEach(definition => {
+    const header = definition.sheet === 'organizations' ? orgHeader : (contactsHeader ?? []);
+    let matchIndex = -1;
+    for (const pattern of definition.patterns) {
+      matchIndex = header.findIndex((cell, index) => !claimed[definition.sheet].has(index) && pattern.test(String(cell ?? '').trim()));
+      if (matchIndex !== -1) break;
+    }
+    if (matchIndex === -1) {
+      const defaultIndex = DEFAULT_COLUMN_MAPPING[definition.role];
+      // Fall back to the legacy position; output roles beyond the header become a new column.
+      if (defaultIndex < header.length || !definition.writable) {
+        matchIndex = defaultIndex;
+      } else {
+        matchIndex = header.length;
+        while (claimed[definition.sheet].has(matchIndex)) matchIndex++;
       }
     }
+    mapping[definition.role] = matchIndex;
+    claimed[definition.sheet].add(matchIndex);
+  });
+  return mapping;
+};
+
+const loadSavedColumnMapping = (signature: string): ColumnMapping | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMN_MAPPING_STORAGE_KEY) || '{}');
+    return saved[signature] ? { ...DEFAULT_COLUMN_MAPPING, ...saved[signature] } : null;
+  } catch (e) {
+    console.error('Error reading saved column mappings:', e);
+    return null;
+  }
+};
+
+const saveColumnMapping = (signature: string, mapping: ColumnMapping) => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMN_MAPPING_STORAGE_KEY) || '{}');
+    saved[signature] = mapping;
+    localStorage.setItem(COLUMN_MAPPING_STORAGE_KEY, JSON.stringify(saved));
+  } catch (e) {
+    console.error('Error saving column mapping:', e);
+  }
+};
+
+// --- Dataset Store ---
+const MAX_DATASET_HISTORY_ENTRIES = 50;
+
+type CellProvenanceSource = 'contacts_prefill' | 'ai_url' | 'ai_dossier' | 'ai_enrichment' | 'manual';
+
+// Where an enriched cell value came from. Cells without provenance hold the value read from the original file.
+interface CellProvenance {
+  source: CellProvenanceSource;
+  timestamp: number;
+  method: string;
+  groundingUris?: string[];
+  promptVersion?: string; // Prompt template version that produced an AI value, e.g. "dossier v2".
+}
+
+interface DatasetRow {
+  id: string;
+  cells: string[];
+  provenance?: Record<number, CellProvenance>;
+}
+
+interface Dataset {
+  header: string[];
+  rows: DatasetRow[];
+}
+
+type DatasetChangeType = 'cell' | 'deleted' | 'merged';
+
+// One entry of a step's change set. Header cells use rowId 'header' and rowNumber 0.
+interface DatasetChange {
+  type: DatasetChangeType;
+  rowId: string;
+  rowNumber: number;
+  orgName: string;
+  column?: number;
+  oldValue?: string;
+  newValue?: string;
+  detail?: string;
+}
+
+// Why a step removed a row. A survivorRowId marks the row as merged into that row rather than deleted.
+interface DatasetRemoval {
+  reason: string;
+  survivorRowId?: string;
+}
+
+interface DatasetHistoryEntry {
+  label: string;
+  timestamp: number;
+  dataset: Dataset;
+  changes: DatasetChange[];
+}
+
+interface DatasetHistory {
+  past: DatasetHistoryEntry[];
+  present: DatasetHistoryEntry | null;
+  future: DatasetHistoryEntry[];
+}
+
+let nextDatasetRowId = 1;
+const createRowId = (): string => `row-${nextDatasetRowId++}`;
+
+// Row IDs are assigned once and survive edits, deletions and merges.
+const datasetFromTable = (table: string[][]): Dataset => ({
+  header: (table[0] ?? []).map(cell => String(cell ?? '')),
+  rows: table.slice(1).map(row => ({ id: createRowId(), cells: row.map(cell => String(cell ?? '')) })),
+});
+
+// For read-only previews of plain tables (e.g. contacts samples); IDs are positional and not unique across datasets.
+const previewDatasetFromTable = (table: string[][]): Dataset => ({
+  header: (table[0] ?? []).map(cell => String(cell ?? '')),
+  rows: table.slice(1).map((row, index) => ({ id: `preview-${index}`, cells: row.map(cell => String(cell ?? '')) })),
+});
+
+const datasetToTable = (dataset: Dataset): string[][] => [dataset.header, ...dataset.rows.map(row => row.cells)];
+
+const sliceDataset = (dataset: Dataset, rowCount: number): Dataset => ({ header: dataset.header, rows: dataset.rows.slice(0, rowCount) });
+
+// Rows are shared between history entries, so cell updates always copy the row instead of mutating it.
+const withCellValue = (row: DatasetRow, colIndex: number, value: string, provenance: CellProvenance | null): DatasetRow => {
+  const cells = [...row.cells];
+  while (cells.length <= colIndex) cells.push('');
+  cells[colIndex] = value;
+  const nextProvenance = { ...row.provenance };
+  if (provenance) nextProvenance[colIndex] = provenance; else delete nextProvenance[colIndex];
+  return { id: row.id, cells, ...(Object.keys(nextProvenance).length > 0 ? { provenance: nextProvenance } : {}) };
+};
+
+const CELL_PROVENANCE_SOURCE_LABELS: Record<CellProvenanceSource, string> = {
+  contacts_prefill: 'Contacts pre-fill',
+  ai_url: 'AI URL search',
+  ai_dossier: 'AI dossier',
+  ai_enrichment: 'AI enrichment column',
+  manual: 'Manual edit',
+};
+
+const MAX_PROVENANCE_GROUNDING_URIS = 10;
+
+const describeCellProvenance = (provenance: CellProvenance | undefined): string => {
+  if (!provenance) return 'Original file';
+  const parts = [CELL_PROVENANCE_SOURCE_LABELS[provenance.source], provenance.method, ...(provenance.promptVersion ? [`prompt ${provenance.promptVersion}`] : []), new Date(provenance.timestamp).toISOString()];
+  if (provenance.groundingUris && provenance.groundingUris.length > 0) parts.push(provenance.groundingUris.join(' '));
+  return parts.join('; ');
+};
+
+// Appends a "<column>_source" column for every column that holds at least one enriched cell. Appending keeps the mapped column indices valid.
+const datasetToTableWithProvenanceColumns = (dataset: Dataset): string[][] => {
+  const trackedColumns = Array.from(new Set(dataset.rows.flatMap(row => Object.keys(row.provenance ?? {}).map(Number)))).sort((a, b) => a - b);
+  const width = dataset.rows.reduce((max, row) => Math.max(max, row.cells.length), dataset.header.length);
+  const pad = (cells: string[]) => cells.length >= width ? cells : [...cells, ...Array<string>(width - cells.length).fill('')];
+  return [
+    [...pad(dataset.header), ...trackedColumns.map(column => `${dataset.header[column] || columnIndexToLetter(column)}_source`)],
+    ...dataset.rows.map(row => [...pad(row.cells), ...trackedColumns.map(column => describeCellProvenance(row.provenance?.[column]))]),
+  ];
+};
+
+const buildProvenanceSidecar = (dataset: Dataset, orgNameColumn: number, sourceFile: string) => ({
+  generatedAt: new Date().toISOString(),
+  sourceFile,
+  columns: dataset.header,
+  cells: dataset.rows.flatMap((row, index) => Object.entries(row.provenance ?? {}).map(([column, provenance]) => ({
+    row: index + 1,
+    rowId: row.id,
+    organization: String(row.cells[orgNameColumn] ?? '').trim(),
+    column: Number(column),
+    columnName: describeColumn(dataset.header, Number(column)),
+    value: String(row.cells[Number(column)] ?? ''),
+    source: provenance.source,
+    method: provenance.method,
+    promptVersion: provenance.promptVersion ?? null,
+    timestamp: new Date(provenance.timestamp).toISOString(),
+    groundingUris: provenance.groundingUris ?? [],
+  }))),
+});
+
+const DATASET_CHANGE_TYPE_LABELS: Record<DatasetChangeType, string> = {
+  cell: 'Cell changed',
+  deleted: 'Row deleted',
+  merged: 'Row merged',
+};
+
+// Compares two versions of a dataset by row ID. Unchanged rows are shared between versions, so they are skipped by identity.
+const diffDatasets = (before: Dataset, after: Dataset, orgNameColumn: number, removals?: Map<string, DatasetRemoval>): DatasetChange[] => {
+  const changes: DatasetChange[] = [];
+  const headerWidth = Math.max(before.header.length, after.header.length);
+  for (let column = 0; column < headerWidth; column++) {
+    const oldValue = String(before.header[column] ?? '');
+    const newValue = String(after.header[column] ?? '');
+    if (oldValue !== newValue) changes.push({ type: 'cell', rowId: 'header', rowNumber: 0, orgName: '(header)', column, oldValue, newValue });
   }
-  return cleanedData;
+
+  const afterRowsById = new Map(after.rows.map(row => [row.id, row]));
+  const beforeIndexById = new Map(before.rows.map((row, index) => [row.id, index]));
+  before.rows.forEach((row, index) => {
+    const orgName = String(row.cells[orgNameColumn] ?? '').trim();
+    const afterRow = afterRowsById.get(row.id);
+    if (!afterRow) {
+      const removal = removals?.get(row.id);
+      const survivorIndex = removal?.survivorRowId ? beforeIndexById.get(removal.survivorRowId) : undefined;
+      if (survivorIndex !== undefined) {
+        const survivorName = String(before.rows[survivorIndex].cells[orgNameColumn] ?? '').trim();
+        changes.push({ type: 'merged', rowId: row.id, rowNumber: index + 1, orgName, detail: `Merged into row ${survivorIndex + 1} ("${survivorName}"). ${removal!.reason}` });
+      } else {
+        changes.push({ type: 'deleted', rowId: row.id, rowNumber: index + 1, orgName, detail: removal?.reason ?? 'Removed' });
+      }
+      return;
+    }
+    if (afterRow === row) return;
+    const width = Math.max(row.cells.length, afterRow.cells.length);
+    for (let column = 0; column < width; column++) {
+      const oldValue = String(row.cells[column] ?? '');
+      const newValue = String(afterRow.cells[column] ?? '');
+      if (oldValue !== newValue) changes.push({ type: 'cell', rowId: row.id, rowNumber: index + 1, orgName, column, oldValue, newValue });
+    }
+  });
+  return changes;
+};
+
+const changeSetToTable = (changes: DatasetChange[], header: string[]): string[][] => [
+  ['Change', 'Row', 'Organization', 'Column', 'Old Value', 'New Value', 'Details'],
+  ...changes.map(change => [
+    DATASET_CHANGE_TYPE_LABELS[change.type],
+    change.rowNumber === 0 ? 'Header' : String(change.rowNumber),
+    change.orgName,
+    change.column !== undefined ? describeColumn(header, change.column) : '',
+    change.oldValue ?? '',
+    change.newValue ?? '',
+    change.detail ?? '',
+  ]),
+];
+
+const useDatasetStore = () => {
+  const [history, setHistory] = useState<DatasetHistory>({ past: [], present: null, future: [] });
+  // Long-running handlers read the latest dataset between awaits, so the history is mirrored in a ref.
+  const historyRef = useRef(history);
+
+  const setHistoryNow = useCallback((next: DatasetHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const getDataset = useCallback((): Dataset | null => historyRef.current.present?.dataset ?? null, []);
+
+  const reset = useCallback((dataset: Dataset | null, label: string) => {
+    setHistoryNow({ past: [], present: dataset ? { label, timestamp: Date.now(), dataset, changes: [] } : null, future: [] });
+  }, [setHistoryNow]);
+
+  const commit = useCallback((dataset: Dataset, label: string, changes: DatasetChange[] = []) => {
+    const { past, present } = historyRef.current;
+    const nextPast = present ? [...past, present].slice(-MAX_DATASET_HISTORY_ENTRIES) : past;
+    setHistoryNow({ past: nextPast, present: { label, timestamp: Date.now(), dataset, changes }, future: [] });
+  }, [setHistoryNow]);
+
+  // Replaces the current entry without adding a new one, for steps that publish partial results while they run.
+  const amend = useCallback((dataset: Dataset, label: string, changes: DatasetChange[] = []) => {
+    const current = historyRef.current;
+    if (!current.present) { commit(dataset, label, changes); return; }
+    setHistoryNow({ ...current, present: { label, timestamp: Date.now(), dataset, changes } });
+  }, [commit, setHistoryNow]);
+
+  const undo = useCallback((): DatasetHistoryEntry | null => {
+    const { past, present, future } = historyRef.current;
+    if (!present || past.length === 0) return null;
+    setHistoryNow({ past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+    return present;
+  }, [setHistoryNow]);
+
+  const redo = useCallback((): DatasetHistoryEntry | null => {
+    const { past, present, future } = historyRef.current;
+    if (!present || future.length === 0) return null;
+    setHistoryNow({ past: [...past, present], present: future[0], future: future.slice(1) });
+    return future[0];
+  }, [setHistoryNow]);
+
+  return { dataset: history.present?.dataset ?? null, history, getDataset, reset, commit, amend, undo, redo };
 };
 
-// --- URL Normalization for Comparison ---
-const normalizeUrlForComparison = (url: string): string => {
-  let normalized = String(url ?? '').trim().toLowerCase();
-  if (normalized.startsWith('http://')) {
-    normalized = normalized.substring(7);
-  } else if (normalized.startsWith('https://')) {
-    normalized = normalized.substring(8);
-  }
-  if (normalized.startsWith('www.')) {
-    normalized = normalized.substring(4);
-  }
-  if (normalized.endsWith('/')) {
-    normalized = normalized.slice(0, -1);
-  }
-  return normalized;
+// --- Prompt Templates ---
+// Prompts are editable templates. "{{name}}" inserts a variable, "{{name|fallback}}" uses the fallback text when the value is empty,
+// and "{{column:Header}}" inserts any column of the row by its header. Every saved edit becomes a new version; version 1 is the built-in default.
+type PromptTemplateId = 'urlLookup' | 'dossier' | 'enrichment';
+
+interface PromptTemplateVersion {
+  version: number;
+  text: string;
+  savedAt: number;
+  note: string;
+}
+
+interface PromptTemplateState {
+  versions: PromptTemplateVersion[]; // Ascending by version.
+  activeVersion: number;
+}
+
+type PromptTemplateLibrary = Record<PromptTemplateId, PromptTemplateState>;
+
+// The template text a run uses, kept with its version so results can be traced back to it.
+interface ActivePromptTemplate {
+  id: PromptTemplateId;
+  version: number;
+  text: string;
+}
+
+interface PromptRenderContext {
+  variables: Record<string, string>;
+  header?: string[]; // With cells, enables {{column:Header}}.
+  cells?: string[];
+}
+
+interface PromptTemplateDefinition {
+  label: string;
+  defaultText: string;
+  variables: { name: string, description: string }[];
+  requiredVariables: string[];
+  allowsColumnVariables: boolean; // False for prompts that cover a whole batch of rows.
+}
+
+const PROMPT_LIBRARY_VERSION = 1;
+const PROMPT_TEMPLATES_STORAGE_KEY = 'aiCsvUrlFinder.promptTemplates';
+const BUILT_IN_PROMPT_VERSION = 1;
+const PROMPT_VARIABLE_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g;
+const COLUMN_VARIABLE_PREFIX = 'column:';
+
+const DEFAULT_URL_LOOKUP_PROMPT_TEMPLATE = `Find the official website of each organization below. "currentValue" is whatever the website column holds now and may be wrong; "context" is the start of the organization's description. <organizations>{{organizations}}</organizations> Return exactly one entry in "results" per organization, with its "id" copied exactly. Prioritize known businesses. Put only the main domain (e.g., "company.com") in "url". If the organization is not a business or you cannot identify its official website, set "url" to an empty string.`;
+
+const DEFAULT_ENRICHMENT_PROMPT_TEMPLATE = `Research each organization below and fill in the field "{{columnName}}". What the field holds: {{instruction}} Expected value: {{valueFormat}} "website" is the organization's website, when known; "currentValue" is whatever the column holds now and may be wrong; "context" is the start of the organization's description. <organizations>{{organizations}}</organizations> Return exactly one entry in "results" per organization, with its "id" copied exactly. Base each value on verifiable public information about that exact organization. If you cannot determine the value with reasonable confidence, set "value" to an empty string.`;
+
+const DEFAULT_DOSSIER_PROMPT_TEMPLATE = `Master Prompt: AI Corporate Intelligence Dossier Generation
+This prompt is designed to be given to an advanced, tool-enabled AI model (like Gemini) to generate a comprehensive and structured description for each organization in your CRM, following an initial data preprocessing and enrichment stage.
+
+ROLE & GOAL
+You are a world-class strategic business and market research analyst. Your sole objective is to create a comprehensive "Corporate Intelligence Dossier" for a target company. This dossier must be meticulously researched, data-driven, and formatted precisely according to the structure provided below.
+
+This output is not for human consumption alone; it will be the primary input for a sophisticated downstream AI engine that finds non-obvious business opportunities. Therefore, the richness, detail, and structure of your output are critical for that AI's success. Your research must be exhaustive and your synthesis insightful.
+
+CONTEXT: The Analytical Models Your Output Will Power
+The downstream AI engine that will parse your dossier thinks in terms of specific analytical models. To be effective, your research must provide the necessary data to power these models:
+
+Latent Capability Matching: The AI looks for hidden or unstated capabilities. It connects a customer's need (e.g., "durable ground coverings") to a non-obvious supplier capability (e.g., a "metal foundry"). Your detailed analysis of a company's technology, materials, and processes is essential for this.
+
+Ecosystem Graph-Building: The AI maps an entire business ecosystem to find supply chain gaps and partnership opportunities. Your analysis of a company's Value Chain Role (e.g., Are they an OEM, a Distributor, or a Systems Integrator?), their partners, customers, and competitors is the raw material for this graph.
+
+Contextual Influence & Compatibility Modeling: The AI assesses who the right person is for an introduction based on their contextual influence, not just their job title. It also models the potential "vibe" or compatibility between companies based on their culture and mission. Your analysis of key personnel and corporate values directly feeds this model.
+
+Your research and output must directly and comprehensively serve these three analytical goals.
+
+INPUT DATA
+You will be provided with the following initial data for the target organization, which has already been cleaned and preprocessed:
+
+Organization Name: {{orgName}}
+Website URL: {{orgUrl|(No URL provided, please try to find if one exists. If a valid official website is found, use it for your research.)}}
+Existing Description (Optional): {{existingDesc|(No existing description provided.)}}
+
+REQUIRED DOSSIER STRUCTURE & CONTENT (2000-3000 words)
+You must use your advanced web search and browsing tools to find, analyze, and synthesize information to populate the following markdown structure. Adhere to this format precisely.
+
+Important: If an "Existing Description" is provided as input, use it as a starting point and source of information for your research, but do not be limited by it. Your final output must fully conform to the detailed structure below, replacing the original description with your new, more comprehensive, and deeply structured analysis.
+
+Corporate Intelligence Dossier: {{orgName}}
+Section A: Executive Overview & Strategic Posture
+High-Level Summary (c. 200 words): A dense, executive-level summary of the company. Who are they, what do they do, and what is their primary position in the market? What is their core value proposition?
+
+Mission, Vision, and Stated Values (c. 150 words): Quote the company's official mission, vision, or core values. Analyze what these statements imply about their corporate culture, strategic priorities, and decision-making framework.
+
+Key Financials & Corporate Structure (c. 150 words): Provide the most recent data on annual revenue, employee count, and any funding rounds/status (public, private, VC-backed). Note their headquarters location and any other major operational centers. Classify their size on a 1-5 tier (1=startup, 5=large enterprise).
+
+Section B: Deep Capability & Operational Analysis
+This section is the most critical for the downstream AI's analysis.
+
+Primary Business Model (c. 200 words): Detail exactly how the company makes money. Is it B2B hardware sales with service contracts, tiered SaaS subscriptions, project-based consulting fees, distribution margins, licensing fees, etc.? Describe the typical sales cycle or customer engagement model.
+
+Core Products (c. 400 words): List their main products. For each major product, provide a detailed description of its function, key features, and the problem it solves. Do not just list marketing points; explain what it does.
+
+Core Services (c. 400 words): List their main services. For each service, describe what the service entails, the process of delivery, and the value it provides to customers. This could include professional services, managed services, support, implementation, etc.
+
+Key Underlying Technologies & Processes (c. 300 words): This is a crucial section for uncovering latent opportunities. Go beyond the product names. What specific technologies, patents, proprietary processes, or material specializations power their offerings? (e.g., "utilizes a patented 900MHz mesh networking protocol for their IoT devices," "specializes in CNC machining of Inconel and other exotic alloys," "leverages a proprietary AI/ML algorithm for predictive maintenance," "holds patents for a specific chemical bonding process").
+
+Target Markets & Ideal Customer Profile (ICP) (c. 250 words): What specific industries and sub-verticals do they sell to? Describe their ideal customer in detail. What is the size, technical sophistication, and business need of a company that buys from them?
+
+Section C: Ecosystem, Value Chain, and Network Analysis
+Value Chain Roles (Narrative Analysis): Based on your complete analysis, describe the organization's primary roles within its key industry verticals in a clear, narrative paragraph. Explicitly use terms like "OEM," "Distributor," "Component Supplier," "End-User," "Service Provider," and "Systems Integrator."
+
+Example 1 (Traffic Hardware Co.): "Within the Traffic Safety vertical, the company functions primarily as an Original Equipment Manufacturer (OEM) and a Solution Provider, designing and building its own branded hardware. In the broader Smart Cities space, it acts as a Component Supplier to larger systems integrators and a strategic Partner to technology firms."
+
+Example 2 (Industrial Distributor): "The company's core role is as a Distributor in the Industrial Automation market. For its electronics offerings, it also functions as a Component Supplier. In providing logistics and inventory management for its clients, it can be classified as a Service Provider."
+
+Known Suppliers & Strategic Technology/Channel Partners (c. 200 words): List their key suppliers or publicly announced technology/channel partners. (e.g., "They are a certified partner of Microsoft Azure," "They use Salesforce as their core CRM," "They list a partnership with Oracle on their website."). This is vital for mapping the dependency graph.
+
+Known Customers & Case Studies (c. 250 words): List any publicly named customers or summarize key case studies. What were the customers' problems and what results did the organization deliver? This provides concrete evidence of their capabilities.
+
+Known Competitors (c. 200 words): List their main direct and indirect competitors. Briefly describe why each is a competitor.
+
+Section D: Strategic & Forward-Looking Analysis
+Strategic Direction & Recent News (c. 300 words): Summarize the company's recent strategic direction based on press releases, news articles, blog posts, and leadership statements from the last 12-18 months. Are they expanding into new markets, launching major products, acquiring companies, or investing heavily in specific R&D?
+
+Key Personnel & Inferred Influence (c. 250 words): Identify 3-5 key leaders (C-suite, VPs, Directors). For each, provide their title and infer their primary dimension of influence based on their role. You must use and justify one of the following five classifications for each person's primary influence:
+
+Spec-Driving Power: The ability to define or influence technical specifications. This is the power of the "trusted user" like an engineer or foreman who decides what features a product needs.
+
+Purchasing Power: The authority to execute a purchase or sign a contract. This is the power of a procurement officer or department head who controls the budget.
+
+Strategic Power: The authority to initiate new, large-scale projects or approve major strategic shifts. This is the power of a C-level executive or visionary who can greenlight a new direction.
+
+Networking Power: An individual known for their extensive connections and ability to facilitate introductions between other people or organizations.
+
+Champion Power: The ability to build internal support for an idea or project, even without formal authority. This is the power of a respected internal influencer who can get other people's attention.
+
+Example: "Jane Doe, Chief Technology Officer - Primary Influence: Strategic Power. As CTO, she is responsible for the company's long-term technology vision and makes decisions on large-scale platform investments, which directly aligns with initiating new, strategic projects."
+
+INSTRUCTIONS & CONSTRAINTS
+Be Exhaustive: Use your tools to go deep. Your research should include the company website, news articles, press releases, technical white papers, case studies, partner pages, and professional networking site data.
+
+Cite Sources: For specific, non-obvious data points (like financial numbers, partnerships, or technical specifications), use markdown footnotes [^1]. List the full URLs for the footnotes at the very end of the document.
+
+Word Count: The final dossier must be between 2000 and 3000 words.
+
+Tone: Maintain a professional, objective, data-driven, and analytical tone.
+
+Final Output: Your final response must be a single, clean markdown document. Do not include conversational filler. Begin the response immediately with the dossier's title.`;
+
+const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  urlLookup: {
+    label: 'URL finding (per batch)',
+    defaultText: DEFAULT_URL_LOOKUP_PROMPT_TEMPLATE,
+    variables: [{ name: 'organizations', description: 'JSON array of {id, name, currentValue, context} records for the batch' }],
+    requiredVariables: ['organizations'],
+    allowsColumnVariables: false,
+  },
+  dossier: {
+    label: 'Dossier generation (per row)',
+    defaultText: DEFAULT_DOSSIER_PROMPT_TEMPLATE,
+    variables: [
+      { name: 'orgName', description: 'Organization name' },
+      { name: 'orgUrl', description: 'Website URL cell' },
+      { name: 'existingDesc', description: 'Current description cell' },
+    ],
+    requiredVariables: ['orgName'],
+    allowsColumnVariables: true,
+  },
+  enrichment: {
+    label: 'Enrichment columns (per batch)',
+    defaultText: DEFAULT_ENRICHMENT_PROMPT_TEMPLATE,
+    variables: [
+      { name: 'columnName', description: 'Name of the enrichment column' },
+      { name: 'instruction', description: 'What the column should hold, as written in its definition' },
+      { name: 'valueFormat', description: 'The expected type or allowed values, described in words' },
+      { name: 'organizations', description: 'JSON array of {id, name, website, currentValue, context} records for the batch' },
+    ],
+    requiredVariables: ['organizations', 'instruction'],
+    allowsColumnVariables: false,
+  },
+};
+
+const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateId[];
+
+const formatPromptVersion = (id: PromptTemplateId, version: number): string => `${id} v${version}`;
+
+const getBuiltInPromptVersion = (id: PromptTemplateId): PromptTemplateVersion =>
+  ({ version: BUILT_IN_PROMPT_VERSION, text: PROMPT_TEMPLATE_DEFINITIONS[id].defaultText, savedAt: 0, note: 'Built-in default' });
+
+const createDefaultPromptLibrary = (): PromptTemplateLibrary => ({
+  urlLookup: { versions: [getBuiltInPromptVersion('urlLookup')], activeVersion: BUILT_IN_PROMPT_VERSION },
+  dossier: { versions: [getBuiltInPromptVersion('dossier')], activeVersion: BUILT_IN_PROMPT_VERSION },
+  enrichment: { versions: [getBuiltInPromptVersion('enrichment')], activeVersion: BUILT_IN_PROMPT_VERSION },
+});
+
+const getActivePromptTemplate = (library: PromptTemplateLibrary, id: PromptTemplateId): ActivePromptTemplate => {
+  const state = library[id];
+  const active = state.versions.find(version => version.version === state.activeVersion) ?? state.versions[0];
+  return { id, version: active.version, text: active.text };
+};
+
+// Saves the text as the next version and makes it the active one.
+const addPromptTemplateVersion = (library: PromptTemplateLibrary, id: PromptTemplateId, text: string, note: string): PromptTemplateLibrary => {
+  const version = Math.max(...library[id].versions.map(existing => existing.version)) + 1;
+  return { ...library, [id]: { versions: [...library[id].versions, { version, text, savedAt: Date.now(), note }], activeVersion: version } };
+};
+
+const findColumnByHeader = (header: string[], name: string): number =>
+  header.findIndex(cell => String(cell ?? '').trim().toLowerCase() === name.trim().toLowerCase());
+
+const renderPromptTemplate = (text: string, context: PromptRenderContext): string =>
+  text.replace(PROMPT_VARIABLE_PATTERN, (_match, name: string, fallback: string | undefined) => {
+    let value = '';
+    if (name.startsWith(COLUMN_VARIABLE_PREFIX)) {
+      const column = context.header ? findColumnByHeader(context.header, name.slice(COLUMN_VARIABLE_PREFIX.length)) : -1;
+      value = column >= 0 ? String(context.cells?.[column] ?? '').trim() : '';
+    } else {
+      value = context.variables[name] ?? '';
+    }
+    return value === '' && fallback !== undefined ? fallback : value;
+  });
+
+// Problems that would make the template render wrongly. Column variables are only checked when a header is given.
+const findPromptTemplateProblems = (id: PromptTemplateId, text: string, header?: string[]): string[] => {
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[id];
+  const known = new Set(definition.variables.map(variable => variable.name));
+  const used = Array.from(text.matchAll(PROMPT_VARIABLE_PATTERN), match => match[1]);
+  const problems: string[] = [];
+  if (text.trim() === '') problems.push('The template is empty.');
+  definition.requiredVariables.filter(name => !used.includes(name)).forEach(name => problems.push(`{{${name}}} is required.`));
+  Array.from(new Set(used)).forEach(name => {
+    if (name.startsWith(COLUMN_VARIABLE_PREFIX)) {
+      const columnName = name.slice(COLUMN_VARIABLE_PREFIX.length);
+      if (!definition.allowsColumnVariables) problems.push(`{{${name}}}: column variables cannot be used in a batch prompt.`);
+      else if (header && findColumnByHeader(header, columnName) < 0) problems.push(`{{${name}}}: no column is headed "${columnName}".`);
+    } else if (!known.has(name)) {
+      problems.push(`{{${name}}} is not a known variable.`);
+    }
+  });
+  return problems;
+};
+
+const parsePromptLibrary = (json: string): PromptTemplateLibrary => {
+  const raw = parseVersionedJson(json, 'Prompt templates file', PROMPT_LIBRARY_VERSION);
+  const templates = raw.templates;
+  if (!isJsonObject(templates)) throw new Error('Prompt templates file must have a "templates" object.');
+  const library = createDefaultPromptLibrary();
+  PROMPT_TEMPLATE_IDS.forEach(id => {
+    const rawState = templates[id];
+    if (rawState === undefined) return;
+    if (!isJsonObject(rawState) || !Array.isArray(rawState.versions)) throw new Error(`Template "${id}": "versions" must be an array.`);
+    const versions = rawState.versions.map((rawVersion: unknown, index: number): PromptTemplateVersion => {
+      if (!isJsonObject(rawVersion) || typeof rawVersion.version !== 'number' || !Number.isInteger(rawVersion.version) || rawVersion.version < BUILT_IN_PROMPT_VERSION) throw new Error(`Template "${id}", entry ${index + 1}: "version" must be a whole number of at least ${BUILT_IN_PROMPT_VERSION}.`);
+      if (typeof rawVersion.text !== 'string') throw new Error(`Template "${id}", version ${rawVersion.version}: "text" must be a string.`);
+      const problems = findPromptTemplateProblems(id, rawVersion.text);
+      if (problems.length > 0) throw new Error(`Template "${id}", version ${rawVersion.version}: ${problems.join(' ')}`);
+      return { version: rawVersion.version, text: rawVersion.text, savedAt: typeof rawVersion.savedAt === 'number' ? rawVersion.savedAt : 0, note: typeof rawVersion.note === 'string' ? rawVersion.note : '' };
+    });
+    // Version 1 always follows the built-in default of this release.
+    const savedVersions = versions.filter(version => version.version !== BUILT_IN_PROMPT_VERSION).sort((a, b) => a.version - b.version);
+    savedVersions.forEach((version, index) => {
+      if (index > 0 && savedVersions[index - 1].version === version.version) throw new Error(`Template "${id}": version ${version.version} appears more than once.`);
+    });
+    const allVersions = [getBuiltInPromptVersion(id), ...savedVersions];
+    const activeVersion = allVersions.find(version => version.version === rawState.activeVersion)?.version ?? BUILT_IN_PROMPT_VERSION;
+    library[id] = { versions: allVersions, activeVersion };
+  });
+  return library;
+};
+
+const serializePromptLibrary = (library: PromptTemplateLibrary): string =>
+  JSON.stringify({ version: PROMPT_LIBRARY_VERSION, templates: library }, null, 2);
+
+const loadPromptLibrary = (): PromptTemplateLibrary => {
+  try {
+    const saved = localStorage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+    return saved ? parsePromptLibrary(saved) : createDefaultPromptLibrary();
+  } catch (e) {
+    console.error('Error reading saved prompt templates:', e);
+    return createDefaultPromptLibrary();
+  }
+};
+
+const savePromptLibrary = (library: PromptTemplateLibrary) => {
+  try {
+    localStorage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, serializePromptLibrary(library));
+  } catch (e) {
+    console.error('Error saving prompt templates:', e);
+  }
+};
+
+const getDossierPromptContext = (header: string[], row: DatasetRow, mapping: ColumnMapping): PromptRenderContext => ({
+  variables: {
+    orgName: String(row.cells[mapping.orgName] ?? '').trim(),
+    orgUrl: String(row.cells[mapping.websiteUrl] ?? '').trim(),
+    existingDesc: String(row.cells[mapping.description] ?? '').trim(),
+  },
+  header,
+  cells: row.cells,
+});
+
+// --- Structured URL Lookup ---
+// The model sees only the fields that help identify an organization and answers with one record per row ID,
+// so results are merged by ID rather than by position and nothing else in the row can be rewritten.
+type UrlLookupConfidence = 'high' | 'medium' | 'low';
+
+interface UrlLookupResult {
+  id: string;
+  url: string; // Main domain, or '' when no official website was identified.
+  confidence: UrlLookupConfidence;
+  reason: string;
+}
+
+const URL_LOOKUP_CONFIDENCES: UrlLookupConfidence[] = ['high', 'medium', 'low'];
+const URL_LOOKUP_CONTEXT_MAX_LENGTH = 200; // Descriptions can be whole dossiers; the opening is enough to disambiguate.
+
+// The records are wrapped in an object because OpenAI's structured output requires an object at the root.
+const URL_LOOKUP_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'The "id" of the organization record, copied exactly.' },
+          url: { type: Type.STRING, description: 'Main domain of the official website, e.g. "company.com". Empty string if none was identified.' },
+          confidence: { type: Type.STRING, enum: URL_LOOKUP_CONFIDENCES },
+          reason: { type: Type.STRING, description: 'One short sentence on how the website was identified, or why none was.' },
+        },
+        required: ['id', 'url', 'confidence', 'reason'],
+        propertyOrdering: ['id', 'url', 'confidence', 'reason'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+const buildUrlLookupPrompt = (rows: DatasetRow[], mapping: ColumnMapping, templateText: string): string => {
+  const records = rows.map(row => {
+    const currentValue = String(row.cells[mapping.websiteUrl] ?? '').trim();
+    const context = String(row.cells[mapping.description] ?? '').trim().slice(0, URL_LOOKUP_CONTEXT_MAX_LENGTH);
+    return { id: row.id, name: String(row.cells[mapping.orgName] ?? '').trim(), ...(currentValue && { currentValue }), ...(context && { context }) };
+  });
+  return renderPromptTemplate(templateText, { variables: { organizations: JSON.stringify(records) } });
+};
+
+// Validates the records against the IDs that were sent. Rows the model left out are returned as missing rather than failing the batch.
+const parseUrlLookupResponse = (text: string, expectedIds: string[]): { results: UrlLookupResult[], missingIds: string[] } => {
+  let raw: unknown;
+  try { raw = (JSON.parse(text) as { results?: unknown } | null)?.results; } catch (e) { throw new Error(`URL lookup response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`); }
+  if (!Array.isArray(raw)) throw new Error('URL lookup response has no "results" array.');
+  const expected = new Set(expectedIds);
+  const seen = new Set<string>();
+  const results = raw.map((record: unknown, index: number): UrlLookupResult => {
+    const recordNumber = index + 1;
+    if (!record || typeof record !== 'object') throw new Error(`URL lookup record ${recordNumber} is not an object.`);
+    const { id, url, confidence, reason } = record as Record<string, unknown>;
+    if (typeof id !== 'string' || !expected.has(id)) throw new Error(`URL lookup record ${recordNumber} has an unknown row ID ${JSON.stringify(id)}.`);
+    if (seen.has(id)) throw new Error(`URL lookup record ${recordNumber}: row ID "${id}" appears more than once.`);
+    seen.add(id);
+    if (typeof url !== 'string') throw new Error(`URL lookup record ${recordNumber} ("${id}"): "url" must be a string.`);
+    if (!URL_LOOKUP_CONFIDENCES.includes(confidence as UrlLookupConfidence)) throw new Error(`URL lookup record ${recordNumber} ("${id}"): "confidence" must be one of ${URL_LOOKUP_CONFIDENCES.join(', ')}.`);
+    if (typeof reason !== 'string') throw new Error(`URL lookup record ${recordNumber} ("${id}"): "reason" must be a string.`);
+    return { id, url: isAiNotFoundValue(url) ? '' : url.trim(), confidence: confidence as UrlLookupConfidence, reason: reason.trim() };
+  });
+  return { results, missingIds: expectedIds.filter(id => !seen.has(id)) };
+};
+
+// --- Enrichment Columns ---
+// User-defined output columns filled by the same batched lookups as URL finding. Each column declares the value it expects;
+// a value that does not fit the declaration counts as no answer, so the row is retried instead of the value being written.
+type EnrichmentValueType = 'text' | 'number' | 'integer' | 'boolean' | 'url' | 'enum';
+
+interface EnrichmentColumn {
+  id: string;
+  name: string; // Header of the output column. A column already headed this way is filled in place; otherwise one is appended.
+  instruction: string;
+  valueType: EnrichmentValueType;
+  options: string[]; // Allowed values of an 'enum' column.
+  pattern: string; // Optional regular expression the whole normalized value must match.
+  enabled: boolean;
+  overwrite: boolean; // False sends only rows whose cell is empty.
+}
+
+interface EnrichmentResult {
+  id: string;
+  value: string; // Normalized to the column's type, or '' when the model could not determine one.
+  confidence: UrlLookupConfidence;
+  reason: string;
+}
+
+const ENRICHMENT_VALUE_TYPES: EnrichmentValueType[] = ['text', 'number', 'integer', 'boolean', 'url', 'enum'];
+const ENRICHMENT_VALUE_TYPE_LABELS: Record<EnrichmentValueType, string> = {
+  text: 'Text',
+  number: 'Number',
+  integer: 'Whole number',
+  boolean: 'Yes / No',
+  url: 'URL',
+  enum: 'One of a list',
+};
+const ENRICHMENT_COLUMNS_STORAGE_KEY = 'aiCsvUrlFinder.enrichmentColumns';
+const ENRICHMENT_TEXT_MAX_LENGTH = 200; // A cell value, not a paragraph.
+const ENRICHMENT_BOOLEAN_VALUES: Record<string, string> = { yes: 'Yes', true: 'Yes', y: 'Yes', no: 'No', false: 'No', n: 'No' };
+
+// The fields we are asked for most often, as starting points for the editor.
+const ENRICHMENT_COLUMN_PRESETS: Pick<EnrichmentColumn, 'name' | 'instruction' | 'valueType' | 'options' | 'pattern'>[] = [
+  { name: 'Industry', instruction: 'The primary industry the organization operates in, in two to four words (e.g. "Industrial Automation").', valueType: 'text', options: [], pattern: '' },
+  { name: 'HQ City', instruction: 'The city where the organization has its headquarters.', valueType: 'text', options: [], pattern: '' },
+  { name: 'HQ Country', instruction: 'The country where the organization has its headquarters, by its common English name.', valueType: 'text', options: [], pattern: '' },
+  { name: 'Employee Band', instruction: 'The number of people the organization employs worldwide.', valueType: 'enum', options: ['1-10', '11-50', '51-200', '201-500', '501-1000', '1001-5000', '5001+'], pattern: '' },
+  { name: 'LinkedIn Page', instruction: "The URL of the organization's LinkedIn company page.", valueType: 'url', options: [], pattern: 'https://([a-z]{2,3}\\.)?linkedin\\.com/company/[^/?#\\s]+/?' },
+  { name: 'Ownership', instruction: 'Whether the organization is publicly traded, privately held, a non-profit, or a government body.', valueType: 'enum', options: ['Public', 'Private', 'Non-profit', 'Government'], pattern: '' },
+];
+
+const createEnrichmentColumnId = (): string => `column-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createEnrichmentColumn = (fields: Partial<EnrichmentColumn> = {}): EnrichmentColumn =>
+  ({ name: '', instruction: '', valueType: 'text', options: [], pattern: '', enabled: true, overwrite: false, ...fields, id: createEnrichmentColumnId() });
+
+const describeEnrichmentValueFormat = (column: EnrichmentColumn): string => {
+  const formats: Record<EnrichmentValueType, string> = {
+    text: `Plain text of at most ${ENRICHMENT_TEXT_MAX_LENGTH} characters.`,
+    number: 'A number, digits only, without units or thousands separators.',
+    integer: 'A whole number, digits only, without units or thousands separators.',
+    boolean: 'Exactly "Yes" or "No".',
+    url: 'A full URL starting with https://.',
+    enum: `Exactly one of ${column.options.map(option => JSON.stringify(option)).join(', ')}.`,
+  };
+  return column.pattern ? `${formats[column.valueType]} The whole value must match the regular expression /${column.pattern}/.` : formats[column.valueType];
+};
+
+// Normalizes an answer to the column's declared type, or throws saying why it does not fit. '' (no answer) always fits.
+const normalizeEnrichmentValue = (column: EnrichmentColumn, raw: string): string => {
+  let value = raw.trim();
+  if (value === '' || isAiNotFoundValue(value)) return '';
+  switch (column.valueType) {
+    case 'text':
+      if (value.length > ENRICHMENT_TEXT_MAX_LENGTH) throw new Error(`is longer than ${ENRICHMENT_TEXT_MAX_LENGTH} characters`);
+      break;
+    case 'number':
+    case 'integer': {
+      const number = Number(value.replace(/[,\s]/g, ''));
+      if (!Number.isFinite(number)) throw new Error('is not a number');
+      if (column.valueType === 'integer' && !Number.isInteger(number)) throw new Error('is not a whole number');
+      value = String(number);
+      break;
+    }
+    case 'boolean':
+      if (!ENRICHMENT_BOOLEAN_VALUES[value.toLowerCase()]) throw new Error('is not "Yes" or "No"');
+      value = ENRICHMENT_BOOLEAN_VALUES[value.toLowerCase()];
+      break;
+    case 'url': {
+      const withScheme = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+      let hostname = '';
+      try { hostname = new URL(withScheme).hostname; } catch { /* Reported below. */ }
+      if (!hostname.includes('.') || /\s/.test(value)) throw new Error('is not a URL');
+      value = withScheme;
+      break;
+    }
+    case 'enum': {
+      const option = column.options.find(candidate => candidate.toLowerCase() === value.toLowerCase());
+      if (option === undefined) throw new Error(`is not one of ${column.options.map(candidate => JSON.stringify(candidate)).join(', ')}`);
+      value = option;
+      break;
+    }
+  }
+  if (column.pattern && !new RegExp(`^(?:${column.pattern})$`).test(value)) throw new Error(`does not match /${column.pattern}/`);
+  return value;
+};
+
+// Problems that would stop the column from running. The header and mapping, when given, keep it off the mapped input columns.
+const findEnrichmentColumnProblems = (column: EnrichmentColumn, columns: EnrichmentColumn[], header?: string[], mapping?: ColumnMapping): string[] => {
+  const problems: string[] = [];
+  const name = column.name.trim();
+  if (name === '') problems.push('The column needs a name.');
+  else if (columns.some(other => other.id !== column.id && other.name.trim().toLowerCase() === name.toLowerCase())) problems.push(`Another enrichment column is also named "${name}".`);
+  if (column.instruction.trim() === '') problems.push('The column needs an instruction.');
+  if (column.valueType === 'enum' && column.options.length === 0) problems.push('A list column needs at least one allowed value.');
+  if (column.pattern) {
+    try { new RegExp(column.pattern); } catch (e) { problems.push(`The validation rule is not a valid regular expression: ${e instanceof Error ? e.message : String(e)}`); }
+  }
+  if (header && mapping && name !== '') {
+    const existing = findColumnByHeader(header, name);
+    const protectedRoles = COLUMN_ROLE_DEFINITIONS.filter(definition => definition.sheet === 'organizations' && mapping[definition.role] === existing);
+    if (existing >= 0 && protectedRoles.length > 0) problems.push(`"${name}" is the mapped ${protectedRoles[0].label} column; choose another name.`);
+  }
+  return problems;
+};
+
+// Values are requested as strings whatever the declared type, so one schema serves every column; the type is checked on parsing.
+const ENRICHMENT_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'The "id" of the organization record, copied exactly.' },
+          value: { type: Type.STRING, description: 'The value in the expected format. Empty string if it could not be determined.' },
+          confidence: { type: Type.STRING, enum: URL_LOOKUP_CONFIDENCES },
+          reason: { type: Type.STRING, description: 'One short sentence on where the value came from, or why none was found.' },
+        },
+        required: ['id', 'value', 'confidence', 'reason'],
+        propertyOrdering: ['id', 'value', 'confidence', 'reason'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+// A column index of -1 (a column not created yet) sends no current values.
+const buildEnrichmentPrompt = (rows: DatasetRow[], mapping: ColumnMapping, column: EnrichmentColumn, columnIndex: number, templateText: string): string => {
+  const records = rows.map(row => {
+    const website = String(row.cells[mapping.websiteUrl] ?? '').trim();
+    const currentValue = columnIndex >= 0 ? String(row.cells[columnIndex] ?? '').trim() : '';
+    const context = String(row.cells[mapping.description] ?? '').trim().slice(0, URL_LOOKUP_CONTEXT_MAX_LENGTH);
+    return { id: row.id, name: String(row.cells[mapping.orgName] ?? '').trim(), ...(website && { website }), ...(currentValue && { currentValue }), ...(context && { context }) };
+  });
+  return renderPromptTemplate(templateText, {
+    variables: { columnName: column.name.trim(), instruction: column.instruction.trim(), valueFormat: describeEnrichmentValueFormat(column), organizations: JSON.stringify(records) },
+  });
+};
+
+// Like parseUrlLookupResponse, but a record whose value does not fit the column is returned as rejected and its row as missing, so it is asked again.
+const parseEnrichmentResponse = (text: string, expectedIds: string[], column: EnrichmentColumn): { results: EnrichmentResult[], missingIds: string[], rejected: { id: string, value: string, problem: string }[] } => {
+  let raw: unknown;
+  try { raw = (JSON.parse(text) as { results?: unknown } | null)?.results; } catch (e) { throw new Error(`Enrichment response is not valid JSON: ${e instanceof Error ? e.message : String(e)}`); }
+  if (!Array.isArray(raw)) throw new Error('Enrichment response has no "results" array.');
+  const expected = new Set(expectedIds);
+  const seen = new Set<string>();
+  const results: EnrichmentResult[] = [];
+  const rejected: { id: string, value: string, problem: string }[] = [];
+  raw.forEach((record: unknown, index: number) => {
+    const recordNumber = index + 1;
+    if (!record || typeof record !== 'object') throw new Error(`Enrichment record ${recordNumber} is not an object.`);
+    const { id, value, confidence, reason } = record as Record<string, unknown>;
+    if (typeof id !== 'string' || !expected.has(id)) throw new Error(`Enrichment record ${recordNumber} has an unknown row ID ${JSON.stringify(id)}.`);
+    if (seen.has(id)) throw new Error(`Enrichment record ${recordNumber}: row ID "${id}" appears more than once.`);
+    seen.add(id);
+    // Some models answer numbers and booleans unquoted despite the schema.
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') throw new Error(`Enrichment record ${recordNumber} ("${id}"): "value" must be a string.`);
+    if (!URL_LOOKUP_CONFIDENCES.includes(confidence as UrlLookupConfidence)) throw new Error(`Enrichment record ${recordNumber} ("${id}"): "confidence" must be one of ${URL_LOOKUP_CONFIDENCES.join(', ')}.`);
+    if (typeof reason !== 'string') throw new Error(`Enrichment record ${recordNumber} ("${id}"): "reason" must be a string.`);
+    try {
+      results.push({ id, value: normalizeEnrichmentValue(column, String(value)), confidence: confidence as UrlLookupConfidence, reason: reason.trim() });
+    } catch (e) {
+      seen.delete(id);
+      rejected.push({ id, value: String(value), problem: e instanceof Error ? e.message : String(e) });
+    }
+  });
+  return { results, missingIds: expectedIds.filter(id => !seen.has(id)), rejected };
+};
+
+const parseEnrichmentColumns = (json: string): EnrichmentColumn[] => {
+  const raw: unknown = JSON.parse(json);
+  if (!Array.isArray(raw)) throw new Error('Enrichment columns must be an array.');
+  return raw.map((rawColumn: unknown, index: number): EnrichmentColumn => {
+    if (!isJsonObject(rawColumn) || typeof rawColumn.name !== 'string' || typeof rawColumn.instruction !== 'string') throw new Error(`Enrichment column ${index + 1} needs a "name" and an "instruction".`);
+    const valueType = ENRICHMENT_VALUE_TYPES.find(type => type === rawColumn.valueType);
+    if (!valueType) throw new Error(`Enrichment column ${index + 1}: "valueType" must be one of ${ENRICHMENT_VALUE_TYPES.join(', ')}.`);
+    return {
+      id: typeof rawColumn.id === 'string' && rawColumn.id ? rawColumn.id : createEnrichmentColumnId(),
+      name: rawColumn.name,
+      instruction: rawColumn.instruction,
+      valueType,
+      options: Array.isArray(rawColumn.options) ? rawColumn.options.filter((option: unknown): option is string => typeof option === 'string') : [],
+      pattern: typeof rawColumn.pattern === 'string' ? rawColumn.pattern : '',
+      enabled: rawColumn.enabled !== false,
+      overwrite: rawColumn.overwrite === true,
+    };
+  });
+};
+
+const loadEnrichmentColumns = (): EnrichmentColumn[] => {
+  try {
+    const saved = localStorage.getItem(ENRICHMENT_COLUMNS_STORAGE_KEY);
+    return saved ? parseEnrichmentColumns(saved) : [];
+  } catch (e) {
+    console.error('Error reading saved enrichment columns:', e);
+    return [];
+  }
+};
+
+const saveEnrichmentColumns = (columns: EnrichmentColumn[]) => {
+  try {
+    localStorage.setItem(ENRICHMENT_COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+  } catch (e) {
+    console.error('Error saving enrichment columns:', e);
+  }
+};
+
+// --- Dossier Parsing ---
+// Reads the generated markdown back into the structure the dossier prompt asks for. Models vary the markdown (headings, bold labels,
+// "Label (c. 200 words):" lines), so headings are matched loosely and anything not found is left empty rather than failing.
+type DossierSectionKey = 'executiveOverview' | 'deepCapability' | 'ecosystem' | 'strategic';
+
+type DossierFieldKey =
+  | 'highLevelSummary' | 'missionVisionValues' | 'keyFinancials'
+  | 'businessModel' | 'coreProducts' | 'coreServices' | 'keyTechnologies' | 'targetMarkets'
+  | 'valueChainRoles' | 'partners' | 'customers' | 'competitors'
+  | 'strategicDirection' | 'keyPersonnel';
+
+type DossierInfluenceClass = 'Spec-Driving Power' | 'Purchasing Power' | 'Strategic Power' | 'Networking Power' | 'Champion Power';
+
+interface DossierPerson {
+  name: string;
+  title: string;
+  influence: DossierInfluenceClass;
+  rationale: string;
+}
+
+interface ParsedDossier {
+  title: string;
+  sections: Record<DossierSectionKey, string>;
+  fields: Partial<Record<DossierFieldKey, string>>;
+  sizeTier: number | null; // 1 = startup, 5 = large enterprise.
+  valueChainRoles: string[];
+  partners: string[];
+  customers: string[];
+  competitors: string[];
+  keyPersonnel: DossierPerson[];
+  missingSections: DossierSectionKey[];
+}
+
+const DOSSIER_SECTIONS: { key: DossierSectionKey, letter: string, label: string, exportName: string }[] = [
+  { key: 'executiveOverview', letter: 'A', label: 'Executive Overview & Strategic Posture', exportName: 'executive_overview' },
+  { key: 'deepCapability', letter: 'B', label: 'Deep Capability & Operational Analysis', exportName: 'deep_capability' },
+  { key: 'ecosystem', letter: 'C', label: 'Ecosystem, Value Chain, and Network Analysis', exportName: 'ecosystem' },
+  { key: 'strategic', letter: 'D', label: 'Strategic & Forward-Looking Analysis', exportName: 'strategic_outlook' },
+];
+
+// Label patterns accept the short and the full heading, with "&" or "and".
+const DOSSIER_FIELDS: { key: DossierFieldKey, section: DossierSectionKey, label: string }[] = [
+  { key: 'highLevelSummary', section: 'executiveOverview', label: 'high[- ]level summary' },
+  { key: 'missionVisionValues', section: 'executiveOverview', label: 'mission,? vision,?(?: (?:&|and))? (?:stated )?values' },
+  { key: 'keyFinancials', section: 'executiveOverview', label: 'key financials(?: (?:&|and) corporate structure)?' },
+  { key: 'businessModel', section: 'deepCapability', label: 'primary business model' },
+  { key: 'coreProducts', section: 'deepCapability', label: 'core products' },
+  { key: 'coreServices', section: 'deepCapability', label: 'core services' },
+  { key: 'keyTechnologies', section: 'deepCapability', label: 'key underlying technologies(?: (?:&|and) processes)?' },
+  { key: 'targetMarkets', section: 'deepCapability', label: 'target markets(?: (?:&|and) ideal customer profile)?(?: \\(icp\\))?' },
+  { key: 'valueChainRoles', section: 'ecosystem', label: 'value chain roles?' },
+  { key: 'partners', section: 'ecosystem', label: 'known suppliers(?: (?:&|and) strategic technology\\s*/\\s*channel partners)?' },
+  { key: 'customers', section: 'ecosystem', label: 'known customers(?: (?:&|and) case studies)?' },
+  { key: 'competitors', section: 'ecosystem', label: 'known competitors' },
+  { key: 'strategicDirection', section: 'strategic', label: 'strategic direction(?: (?:&|and) recent news)?' },
+  { key: 'keyPersonnel', section: 'strategic', label: 'key personnel(?: (?:&|and) inferred influence)?' },
+];
+
+// "**Label (c. 200 words):** text", "### Label" and "Label: text" all match; the groups capture the qualifier and the colon.
+const DOSSIER_FIELD_PATTERNS = DOSSIER_FIELDS.map(field => ({
+  ...field,
+  pattern: new RegExp(`^(?:\\*\\*|__)?\\s*(?:${field.label})\\s*(\\([^)]*\\))?\\s*(:)?\\s*(?:\\*\\*|__)?\\s*(:)?\\s*`, 'i'),
+}));
+
+const DOSSIER_SECTION_HEADING_PATTERN = /^(?:#{1,6}\s*)?(?:\*\*|__)?\s*Section\s+([A-D])\b/i;
+const DOSSIER_TITLE_PATTERN = /^(?:#{1,6}\s*)?(?:\*\*|__)?\s*Corporate Intelligence Dossier\s*:?\s*(.*)$/i;
+const MARKDOWN_LIST_ITEM_PATTERN = /^(\s*)(?:[-*+•]|\d+[.)])\s+/;
+
+const DOSSIER_INFLUENCE_CLASSES: DossierInfluenceClass[] = ['Spec-Driving Power', 'Purchasing Power', 'Strategic Power', 'Networking Power', 'Champion Power'];
+const DOSSIER_INFLUENCE_PATTERN = /\b(spec[- ]driving|purchasing|strategic|networking|champion)\s+power\b/i;
+
+const DOSSIER_VALUE_CHAIN_ROLES: { role: string, pattern: RegExp }[] = [
+  { role: 'OEM', pattern: /\bOEMs?\b|\boriginal equipment manufacturers?\b/i },
+  { role: 'Distributor', pattern: /\bdistributors?\b/i },
+  { role: 'Component Supplier', pattern: /\bcomponent suppliers?\b/i },
+  { role: 'End-User', pattern: /\bend[- ]users?\b/i },
+  { role: 'Service Provider', pattern: /\bservice providers?\b/i },
+  { role: 'Systems Integrator', pattern: /\bsystems? integrators?\b/i },
+  { role: 'Solution Provider', pattern: /\bsolutions? providers?\b/i },
+];
+
+const DOSSIER_NAME_MAX_LENGTH = 80;
+
+const stripInlineMarkdown = (text: string): string => text
+  .replace(/\[\^[^\]]*\]/g, '')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\*\*|__|`/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const matchDossierFieldHeading = (line: string): { key: DossierFieldKey, section: DossierSectionKey, rest: string } | null => {
+  const trimmed = line.trim();
+  // A heading or bold label is always a field heading; plain text needs a qualifier or colon so "Core products include..." stays body text.
+  const marked = /^(#{1,6}\s|\*\*|__|[-*+]\s+(\*\*|__))/.test(trimmed);
+  const text = trimmed.replace(/^#{1,6}\s*/, '').replace(/^[-*+]\s+(?=\*\*|__)/, '');
+  for (const field of DOSSIER_FIELD_PATTERNS) {
+    const match = text.match(field.pattern);
+    if (!match) continue;
+    const rest = text.slice(match[0].length).trim();
+    if (!marked && !match[1] && !match[2] && !match[3] && rest !== '') continue;
+    return { key: field.key, section: field.section, rest };
+  }
+  return null;
+};
+
+// Top-level list items, or bold phrases when the text is not a list.
+const extractDossierNames = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  const listItems = lines.map(line => line.match(MARKDOWN_LIST_ITEM_PATTERN) ? { indent: line.match(MARKDOWN_LIST_ITEM_PATTERN)![1].length, text: line.replace(MARKDOWN_LIST_ITEM_PATTERN, '').trim() } : null).filter((item): item is { indent: number, text: string } => item !== null);
+  const topIndent = Math.min(...listItems.map(item => item.indent));
+  const candidates = listItems.length > 0
+    ? listItems.filter(item => item.indent === topIndent).map(item => item.text.match(/^(?:\*\*|__)(.+?)(?:\*\*|__)/)?.[1] ?? stripInlineMarkdown(item.text).split(/:|\s[-–—]\s|\(/)[0])
+    : Array.from(text.matchAll(/\*\*(.+?)\*\*/g), match => match[1]);
+  const seen = new Set<string>();
+  return candidates
+    .map(candidate => stripInlineMarkdown(candidate).replace(/[\s:;,]+$/, ''))
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (name.length < 2 || name.length > DOSSIER_NAME_MAX_LENGTH || isAiNotFoundValue(name) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const toDossierInfluenceClass = (match: string): DossierInfluenceClass =>
+  DOSSIER_INFLUENCE_CLASSES.find(influence => influence.toLowerCase().replace('-', ' ').startsWith(match.toLowerCase().replace('-', ' ')))!;
+
+// Each person is a block that starts with a heading, bold text or a list item. Blocks without an influence class are not people.
+const extractDossierPeople = (text: string): DossierPerson[] => {
+  const blocks: string[][] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (trimmed === '') { if (blocks.length > 0 && blocks[blocks.length - 1].length > 0) blocks.push([]); return; }
+    const startsBlock = /^(#{1,6}\s|\*\*|__|[-*+•]\s|\d+[.)]\s)/.test(trimmed) && line.search(/\S/) === 0;
+    if (startsBlock || blocks.length === 0) blocks.push([]);
+    blocks[blocks.length - 1].push(trimmed);
+  });
+  return blocks.filter(block => block.length > 0).flatMap(block => {
+    const blockText = block.join(' ');
+    const influenceMatch = blockText.match(/primary (?:dimension of )?influence\W{0,6}(spec[- ]driving|purchasing|strategic|networking|champion)\s+power/i) ?? blockText.match(DOSSIER_INFLUENCE_PATTERN);
+    if (!influenceMatch) return [];
+    const firstLine = block[0].replace(/^#{1,6}\s*/, '').replace(MARKDOWN_LIST_ITEM_PATTERN, '');
+    const head = (firstLine.match(/^(?:\*\*|__)(.+?)(?:\*\*|__)/)?.[1] ?? firstLine)
+      .replace(/\s*[-–—:.]?\s*(?:\(?\s*)?primary (?:dimension of )?influence.*$/i, '')
+      .split(/:\s/)[0];
+    const [name, ...titleParts] = stripInlineMarkdown(head).split(/,\s*|\s+[-–—]\s+|\s*\(/);
+    const cleanName = (name ?? '').replace(/[\s:;,]+$/, '');
+    if (cleanName.length < 2 || cleanName.length > DOSSIER_NAME_MAX_LENGTH || DOSSIER_INFLUENCE_PATTERN.test(cleanName)) return [];
+    return [{
+      name: cleanName,
+      title: titleParts.join(', ').replace(/\)\s*$/, '').replace(/[\s:;,.]+$/, '').trim(),
+      influence: toDossierInfluenceClass(influenceMatch[1]),
+      rationale: stripInlineMarkdown(blockText.slice(blockText.indexOf(influenceMatch[0]) + influenceMatch[0].length)).replace(/^[\s.:;,-]+/, ''),
+    }];
+  });
+};
+
+const extractDossierSizeTier = (text: string): number | null => {
+  // The lookahead skips the prompt's own "1-5 tier (1=startup, 5=large enterprise)" if the model repeats it.
+  const match = text.match(/\b(?:size\s+)?tier\W{0,6}([1-5])(?!\s*[=\-–]\s*\d|\s*=)/i) ?? text.match(/\b([1-5])\s*(?:\/|out of)\s*5\b/i);
+  return match ? Number(match[1]) : null;
+};
+
+// Null when the text has none of the dossier's sections or fields, e.g. a short description from the original file.
+const parseDossier = (markdown: string): ParsedDossier | null => {
+  const sectionLines: Record<DossierSectionKey, string[]> = { executiveOverview: [], deepCapability: [], ecosystem: [], strategic: [] };
+  const fieldLines: Partial<Record<DossierFieldKey, string[]>> = {};
+  const foundSections = new Set<DossierSectionKey>();
+  let title = '';
+  let currentSection: DossierSectionKey | null = null;
+  let currentField: DossierFieldKey | null = null;
+
+  markdown.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    const titleMatch = !title && trimmed.match(DOSSIER_TITLE_PATTERN);
+    if (titleMatch) { title = stripInlineMarkdown(titleMatch[1]); return; }
+    const sectionMatch = trimmed.match(DOSSIER_SECTION_HEADING_PATTERN);
+    if (sectionMatch) {
+      currentSection = DOSSIER_SECTIONS.find(section => section.letter === sectionMatch[1].toUpperCase())!.key;
+      foundSections.add(currentSection);
+      currentField = null;
+      return;
+    }
+    // Footnote definitions follow the last section.
+    if (/^\[\^[^\]]+\]:/.test(trimmed)) { currentSection = null; currentField = null; return; }
+    const fieldHeading = matchDossierFieldHeading(line);
+    if (fieldHeading) {
+      if (!currentSection) { currentSection = fieldHeading.section; foundSections.add(currentSection); }
+      currentField = fieldHeading.key;
+      fieldLines[currentField] = fieldHeading.rest ? [fieldHeading.rest] : [];
+    } else if (currentField) {
+      fieldLines[currentField]!.push(line);
+    }
+    if (currentSection) sectionLines[currentSection].push(line);
+  });
+
+  if (foundSections.size === 0) return null;
+  const fields: Partial<Record<DossierFieldKey, string>> = {};
+  (Object.keys(fieldLines) as DossierFieldKey[]).forEach(key => { fields[key] = fieldLines[key]!.join('\n').trim(); });
+  const sections = Object.fromEntries(DOSSIER_SECTIONS.map(section => [section.key, sectionLines[section.key].join('\n').trim()])) as Record<DossierSectionKey, string>;
+  const roleText = fields.valueChainRoles ?? sections.ecosystem;
+  return {
+    title,
+    sections,
+    fields,
+    sizeTier: extractDossierSizeTier(fields.keyFinancials ?? sections.executiveOverview),
+    valueChainRoles: DOSSIER_VALUE_CHAIN_ROLES.filter(role => role.pattern.test(roleText)).map(role => role.role),
+    partners: extractDossierNames(fields.partners ?? ''),
+    customers: extractDossierNames(fields.customers ?? ''),
+    competitors: extractDossierNames(fields.competitors ?? ''),
+    keyPersonnel: extractDossierPeople(fields.keyPersonnel ?? ''),
+    missingSections: DOSSIER_SECTIONS.filter(section => !foundSections.has(section.key)).map(section => section.key),
+  };
+};
+
+const formatDossierPerson = (person: DossierPerson): string => `${person.name}${person.title ? ` (${person.title})` : ''}: ${person.influence}`;
+
+const DOSSIER_EXPORT_COLUMNS: { header: string, value: (dossier: ParsedDossier) => string }[] = [
+  { header: 'dossier_size_tier', value: dossier => dossier.sizeTier === null ? '' : String(dossier.sizeTier) },
+  { header: 'dossier_value_chain_roles', value: dossier => dossier.valueChainRoles.join('; ') },
+  { header: 'dossier_partners', value: dossier => dossier.partners.join('; ') },
+  { header: 'dossier_customers', value: dossier => dossier.customers.join('; ') },
+  { header: 'dossier_competitors', value: dossier => dossier.competitors.join('; ') },
+  { header: 'dossier_key_personnel', value: dossier => dossier.keyPersonnel.map(formatDossierPerson).join('; ') },
+  ...DOSSIER_SECTIONS.map(section => ({ header: `dossier_${section.exportName}`, value: (dossier: ParsedDossier) => dossier.sections[section.key] })),
+];
+
+// Appends the parsed fields after every existing column so mapped column indices stay valid. Rows without a dossier get empty cells.
+const appendDossierColumns = (table: string[][], dataset: Dataset, descriptionColumn: number): string[][] => {
+  const width = table.reduce((max, row) => Math.max(max, row.length), 0);
+  const pad = (cells: string[]) => cells.length >= width ? cells : [...cells, ...Array<string>(width - cells.length).fill('')];
+  return [
+    [...pad(table[0] ?? []), ...DOSSIER_EXPORT_COLUMNS.map(column => column.header)],
+    ...dataset.rows.map((row, index) => {
+      const dossier = parseDossier(String(row.cells[descriptionColumn] ?? ''));
+      return [...pad(table[index + 1] ?? []), ...DOSSIER_EXPORT_COLUMNS.map(column => dossier ? column.value(dossier) : '')];
+    }),
+  ];
+};
+
+// One JSON object per line, one line per organization with a dossier.
+const buildDossierJsonLines = (dataset: Dataset, mapping: ColumnMapping): { text: string, count: number } => {
+  const lines = dataset.rows.flatMap((row, index) => {
+    const dossier = parseDossier(String(row.cells[mapping.description] ?? ''));
+    return dossier ? [JSON.stringify({ row: index + 1, rowId: row.id, organization: String(row.cells[mapping.orgName] ?? '').trim(), website: String(row.cells[mapping.websiteUrl] ?? '').trim(), dossier })] : [];
+  });
+  return { text: lines.join('\n') + (lines.length > 0 ? '\n' : ''), count: lines.length };
+};
+
+// --- Dossier Validation ---
+// Checks a generated dossier against the requirements of the dossier prompt. Failures are explained in words the model can act on
+// when the dossier is regenerated, and in the quality column for rows that still fail.
+type DossierDefectKind = 'refusal' | 'placeholder' | 'missing_sections' | 'word_count' | 'footnotes';
+
+interface DossierDefect {
+  kind: DossierDefectKind;
+  message: string;
+}
+
+interface DossierValidation {
+  passed: boolean;
+  wordCount: number;
+  defects: DossierDefect[];
+}
+
+const DOSSIER_MIN_WORDS = 2000;
+const DOSSIER_MAX_WORDS = 3000;
+const DOSSIER_ESTIMATED_OUTPUT_TOKENS = 3500; // About 2,500 words, the middle of the target range.
+const DOSSIER_QUALITY_COLUMN_HEADER = 'Dossier Quality';
+const DOSSIER_REFUSAL_SCAN_LENGTH = 400; // Refusals come first; later "I cannot confirm..." phrases inside a dossier are not refusals.
+const DOSSIER_REFUSAL_PATTERN = /^(?:\W*)(?:i'?m sorry|i am sorry|sorry,|i apologi[sz]e|i (?:cannot|can't|can not|am unable to|'m unable to|was unable to|could not|couldn't)|unfortunately,? i|as an ai\b)/i;
+const FOOTNOTE_DEFINITION_PATTERN = /^\s*\[\^([^\]]+)\]:\s*(.*)$/;
+
+const validateDossier = (text: string, placeholderText: string): DossierValidation => {
+  const trimmed = text.trim();
+  const definitions = new Map<string, string>();
+  const bodyLines: string[] = [];
+  trimmed.split(/\r?\n/).forEach(line => {
+    const definition = line.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (definition) definitions.set(definition[1], definition[2]); else bodyLines.push(line);
+  });
+  const body = bodyLines.join('\n');
+  const wordCount = body.split(/\s+/).filter(word => /\w/.test(word)).length;
+
+  // A refusal or placeholder makes the structural checks meaningless, so it is reported alone.
+  if (trimmed === '' || isAiNotFoundValue(trimmed) || trimmed.toLowerCase() === placeholderText.trim().toLowerCase()) {
+    return { passed: false, wordCount, defects: [{ kind: 'placeholder', message: 'The response is empty or a placeholder instead of a dossier.' }] };
+  }
+  if (DOSSIER_REFUSAL_PATTERN.test(trimmed.slice(0, DOSSIER_REFUSAL_SCAN_LENGTH))) {
+    return { passed: false, wordCount, defects: [{ kind: 'refusal', message: 'The response declines the task instead of writing the dossier.' }] };
+  }
+
+  const defects: DossierDefect[] = [];
+  const missingSections = parseDossier(trimmed)?.missingSections ?? DOSSIER_SECTIONS.map(section => section.key);
+  if (missingSections.length > 0) {
+    const labels = DOSSIER_SECTIONS.filter(section => missingSections.includes(section.key)).map(section => `"Section ${section.letter}: ${section.label}"`);
+    defects.push({ kind: 'missing_sections', message: `Missing section heading(s): ${labels.join(', ')}.` });
+  }
+  if (wordCount < DOSSIER_MIN_WORDS || wordCount > DOSSIER_MAX_WORDS) {
+    defects.push({ kind: 'word_count', message: `${wordCount.toLocaleString()} words; the dossier must be between ${DOSSIER_MIN_WORDS.toLocaleString()} and ${DOSSIER_MAX_WORDS.toLocaleString()} words.` });
+  }
+  const references = Array.from(new Set(Array.from(body.matchAll(/\[\^([^\]]+)\](?!:)/g), match => match[1])));
+  const unmatched = references.filter(reference => !/https?:\/\/\S+/.test(definitions.get(reference) ?? ''));
+  if (unmatched.length > 0) {
+    defects.push({ kind: 'footnotes', message: `Footnote(s) ${unmatched.map(reference => `[^${reference}]`).join(', ')} have no matching URL in the footnote list at the end.` });
+  }
+  return { passed: defects.length === 0, wordCount, defects };
+};
+
+// Appended to the prompt when a dossier is regenerated.
+const buildDossierFeedback = (validation: DossierValidation): string =>
+  `REVISION REQUIRED\nYour previous response for this organization was rejected by an automated quality check:\n${validation.defects.map(defect => `- ${defect.message}`).join('\n')}\nWrite the complete dossier again, following the required structure and fixing every problem listed above.`;
+
+const describeDossierQuality = (validation: DossierValidation, regenerations: number): string =>
+  validation.passed
+    ? `Passed${regenerations > 0 ? ` after ${regenerations} regeneration(s)` : ''}`
+    : `Needs review: ${validation.defects.map(defect => defect.message).join(' ')}`;
+
+// --- Dossier Rendering ---
+// Dossiers are model output, so raw HTML in them is shown as text and only web, mail and in-page links are kept.
+// Markdown footnotes ("[^1]" references with "[^1]: URL" definitions at the end) become numbered links to a source list.
+const DOSSIER_SAFE_HREF_PATTERN = /^(?:https?:|mailto:|#)/i;
+const DOSSIER_FILE_SLUG_MAX_LENGTH = 60;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const renderSafeLink = (href: string, title: string | null | undefined, innerHtml: string): string => {
+  if (!DOSSIER_SAFE_HREF_PATTERN.test(href.trim())) return innerHtml;
+  const external = !href.trim().startsWith('#');
+  return `<a href="${escapeHtml(href.trim())}"${title ? ` title="${escapeHtml(title)}"` : ''}${external ? ' target="_blank" rel="noopener noreferrer"' : ''}>${innerHtml}</a>`;
+};
+
+// `idPrefix` keeps footnote anchors unique when several dossiers share a page.
+const renderDossierHtml = (markdown: string, idPrefix: string): string => {
+  const definitions = new Map<string, string>();
+  const bodyLines: string[] = [];
+  markdown.split(/\r?\n/).forEach(line => {
+    const definition = line.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (definition) definitions.set(definition[1], definition[2]); else bodyLines.push(line);
+  });
+  const footnoteNumbers = new Map(Array.from(definitions.keys(), (id, index) => [id, index + 1]));
+  const referencedFootnotes = new Set<string>();
+  const anchor = (kind: 'fn' | 'fnref', number: number) => `${idPrefix}-${kind}-${number}`;
+
+  const dossierMarked = new Marked({
+    gfm: true,
+    renderer: {
+      html: ({ text }) => escapeHtml(text),
+      link({ href, title, tokens }) { return renderSafeLink(href, title, this.parser.parseInline(tokens)); },
+      image: ({ href, title, text }) => renderSafeLink(href, title, escapeHtml(text || href)),
+    },
+    extensions: [{
+      name: 'footnoteReference',
+      level: 'inline',
+      start: (src: string) => { const index = src.indexOf('[^'); return index >= 0 ? index : undefined; },
+      tokenizer: (src: string) => {
+        const match = src.match(/^\[\^([^\]\s]+)\](?!:)/);
+        return match ? { type: 'footnoteReference', raw: match[0], id: match[1] } : undefined;
+      },
+      renderer: token => {
+        const number = footnoteNumbers.get(token.id);
+        if (number === undefined) return `<sup class="dossier-footnote-missing" title="No matching source in the footnote list">[${escapeHtml(token.id)}]</sup>`;
+        const firstReference = !referencedFootnotes.has(token.id);
+        referencedFootnotes.add(token.id);
+        return `<sup class="dossier-footnote-ref"><a href="#${anchor('fn', number)}"${firstReference ? ` id="${anchor('fnref', number)}"` : ''}>[${number}]</a></sup>`;
+      },
+    }],
+  });
+
+  const body = dossierMarked.parse(bodyLines.join('\n'), { async: false });
+  if (definitions.size === 0) return body;
+  const footnotes = Array.from(definitions, ([id, text]) => {
+    const number = footnoteNumbers.get(id)!;
+    const backLink = referencedFootnotes.has(id) ? ` <a href="#${anchor('fnref', number)}" class="dossier-footnote-back" aria-label="Back to reference ${number}">↩</a>` : '';
+    return `<li id="${anchor('fn', number)}">${dossierMarked.parseInline(text, { async: false })}${backLink}</li>`;
+  });
+  return `${body}\n<section class="dossier-footnotes"><h2>Sources</h2><ol>${footnotes.join('')}</ol></section>`;
+};
+
+const DOSSIER_DOCUMENT_STYLES = [
+  'body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,Helvetica,Arial,sans-serif;line-height:1.6;color:#212529;max-width:860px;margin:2rem auto;padding:0 1rem}',
+  'h1,h2,h3{line-height:1.25}a{color:#0056b3}table{border-collapse:collapse;width:100%}th,td{border:1px solid #dee2e6;padding:.4rem .6rem;text-align:left;vertical-align:top}',
+  '.dossier-footnotes{border-top:1px solid #dee2e6;margin-top:2rem;font-size:.9em;overflow-wrap:anywhere}.dossier-footnote-missing{color:#dc3545}.dossier-nav{font-size:.9em}',
+].join('\n');
+
+const buildDossierHtmlDocument = (title: string, bodyHtml: string): string =>
+  `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="UTF-8">\n<meta name="viewport" content="width=device-width, initial-scale=1.0">\n<title>${escapeHtml(title)}</title>\n<style>\n${DOSSIER_DOCUMENT_STYLES}\n</style>\n</head>\n<body>\n${bodyHtml}\n</body>\n</html>\n`;
+
+interface DossierEntry {
+  rowId: string;
+  rowNumber: number;
+  organization: string;
+  website: string;
+  quality: string;
+  markdown: string;
+}
+
+// Rows whose description holds a dossier, in data order. The quality status comes from the dossier run's quality column, when present.
+const collectDossierEntries = (dataset: Dataset, mapping: ColumnMapping): DossierEntry[] => {
+  const qualityColumn = findColumnByHeader(dataset.header, DOSSIER_QUALITY_COLUMN_HEADER);
+  return dataset.rows.flatMap((row, index) => {
+    const markdown = String(row.cells[mapping.description] ?? '').trim();
+    const dossier = parseDossier(markdown);
+    if (!dossier) return [];
+    return [{
+      rowId: row.id,
+      rowNumber: index + 1,
+      organization: String(row.cells[mapping.orgName] ?? '').trim() || dossier.title || `Row ${index + 1}`,
+      website: String(row.cells[mapping.websiteUrl] ?? '').trim(),
+      quality: qualityColumn >= 0 ? String(row.cells[qualityColumn] ?? '').trim() : '',
+      markdown,
+    }];
+  });
+};
+
+// One .md and one standalone .html file per organization, plus an index page linking them all.
+const buildDossierBundle = async (entries: DossierEntry[], title: string): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedSlugs = new Set<string>();
+  const indexRows = entries.map(entry => {
+    const baseSlug = entry.organization.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, DOSSIER_FILE_SLUG_MAX_LENGTH) || `row-${entry.rowNumber}`;
+    let slug = baseSlug;
+    for (let suffix = 2; usedSlugs.has(slug); suffix++) slug = `${baseSlug}-${suffix}`;
+    usedSlugs.add(slug);
+
+    const nav = `<p class="dossier-nav"><a href="../index.html">&larr; All dossiers</a> &middot; <a href="${slug}.md">Markdown</a>${entry.website ? ` &middot; ${renderSafeLink(toHyperlinkTarget(entry.website), null, escapeHtml(entry.website))}` : ''}</p>`;
+    zip.file(`dossiers/${slug}.md`, entry.markdown + '\n');
+    zip.file(`dossiers/${slug}.html`, buildDossierHtmlDocument(entry.organization, `${nav}\n${renderDossierHtml(entry.markdown, 'dossier')}`));
+    return `<tr><td>${entry.rowNumber}</td><td><a href="dossiers/${slug}.html">${escapeHtml(entry.organization)}</a></td><td>${entry.website ? renderSafeLink(toHyperlinkTarget(entry.website), null, escapeHtml(entry.website)) : ''}</td><td>${escapeHtml(entry.quality)}</td><td><a href="dossiers/${slug}.md">.md</a></td></tr>`;
+  });
+  const indexBody = `<h1>${escapeHtml(title)}</h1>\n<p>${entries.length} dossier(s), generated ${escapeHtml(new Date().toLocaleString())}.</p>\n<table><thead><tr><th>Row</th><th>Organization</th><th>Website</th><th>Quality</th><th>Source</th></tr></thead><tbody>${indexRows.join('')}</tbody></table>`;
+  zip.file('index.html', buildDossierHtmlDocument(title, indexBody));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- Dossier Refresh ---
+// Each dossier run records when, with which model and with which prompt version a row's dossier was written, in columns next to the
+// quality status. Plain columns survive a CSV round trip, so a re-imported file can be refreshed without regenerating current dossiers.
+type DossierRefreshMode = 'all' | 'missing' | 'stale' | 'failed' | 'selected';
+
+const DOSSIER_REFRESH_MODES: DossierRefreshMode[] = ['all', 'missing', 'stale', 'failed', 'selected'];
+
+const DOSSIER_REFRESH_MODE_LABELS: Record<DossierRefreshMode, string> = {
+  all: 'Every row',
+  missing: 'Only rows without a dossier',
+  stale: 'Only dossiers older than N days',
+  failed: 'Only dossiers that failed validation',
+  selected: 'Only selected rows',
+};
+
+const DEFAULT_DOSSIER_REFRESH_MODE: DossierRefreshMode = 'missing';
+const DEFAULT_DOSSIER_STALE_DAYS = 30;
+const DOSSIER_GENERATED_AT_COLUMN_HEADER = 'Dossier Generated At';
+const DOSSIER_MODEL_COLUMN_HEADER = 'Dossier Model';
+const DOSSIER_PROMPT_VERSION_COLUMN_HEADER = 'Dossier Prompt Version';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DossierStatusColumns {
+  quality: number;
+  generatedAt: number;
+  model: number;
+  promptVersion: number;
+}
+
+const DOSSIER_STATUS_COLUMN_HEADERS: Record<keyof DossierStatusColumns, string> = {
+  quality: DOSSIER_QUALITY_COLUMN_HEADER,
+  generatedAt: DOSSIER_GENERATED_AT_COLUMN_HEADER,
+  model: DOSSIER_MODEL_COLUMN_HEADER,
+  promptVersion: DOSSIER_PROMPT_VERSION_COLUMN_HEADER,
+};
+
+// Finds the status columns by header, appending any the data lacks after the last column so mapped column indices stay valid.
+const ensureDossierStatusColumns = (dataset: Dataset): { header: string[], columns: DossierStatusColumns } => {
+  const header = [...dataset.header];
+  let width = dataset.rows.reduce((max, row) => Math.max(max, row.cells.length), header.length);
+  const columns = {} as DossierStatusColumns;
+  (Object.keys(DOSSIER_STATUS_COLUMN_HEADERS) as (keyof DossierStatusColumns)[]).forEach(key => {
+    const existing = findColumnByHeader(header, DOSSIER_STATUS_COLUMN_HEADERS[key]);
+    if (existing >= 0) { columns[key] = existing; return; }
+    while (header.length < width) header.push('');
+    header.push(DOSSIER_STATUS_COLUMN_HEADERS[key]);
+    columns[key] = width++;
+  });
+  return { header, columns };
+};
+
+// When the row's dossier was generated: the recorded column value, else the description cell's provenance from this session.
+const getDossierGeneratedAt = (dataset: Dataset, row: DatasetRow, mapping: ColumnMapping): number | null => {
+  const column = findColumnByHeader(dataset.header, DOSSIER_GENERATED_AT_COLUMN_HEADER);
+  const recorded = column >= 0 ? Date.parse(String(row.cells[column] ?? '').trim()) : NaN;
+  if (!Number.isNaN(recorded)) return recorded;
+  const provenance = row.provenance?.[mapping.description];
+  return provenance?.source === 'ai_dossier' ? provenance.timestamp : null;
+};
+
+interface DossierRefreshCriteria {
+  staleAfterDays: number;
+  selectedRowIds: ReadonlySet<string>;
+  now: number;
+}
+
+// Whether a row belongs to a refresh mode. Rows without an organization name are never sent to the model.
+const matchesDossierRefreshMode = (dataset: Dataset, row: DatasetRow, mapping: ColumnMapping, mode: DossierRefreshMode, criteria: DossierRefreshCriteria): boolean => {
+  if (String(row.cells[mapping.orgName] ?? '').trim() === '') return false;
+  switch (mode) {
+    case 'all': return true;
+    case 'missing': return parseDossier(String(row.cells[mapping.description] ?? '')) === null;
+    case 'stale': {
+      if (parseDossier(String(row.cells[mapping.description] ?? '')) === null) return false;
+      const generatedAt = getDossierGeneratedAt(dataset, row, mapping);
+      // A dossier of unknown age is treated as stale.
+      return generatedAt === null || criteria.now - generatedAt > criteria.staleAfterDays * DAY_MS;
+    }
+    case 'failed': {
+      const qualityColumn = findColumnByHeader(dataset.header, DOSSIER_QUALITY_COLUMN_HEADER);
+      return qualityColumn >= 0 && String(row.cells[qualityColumn] ?? '').startsWith('Needs review');
+    }
+    case 'selected': return criteria.selectedRowIds.has(row.id);
+  }
+};
+
+const selectDossierRefreshRows = (dataset: Dataset, mapping: ColumnMapping, mode: DossierRefreshMode, criteria: DossierRefreshCriteria): string[] =>
+  dataset.rows.filter(row => matchesDossierRefreshMode(dataset, row, mapping, mode, criteria)).map(row => row.id);
+
+const countDossierRefreshRows = (dataset: Dataset, mapping: ColumnMapping, criteria: DossierRefreshCriteria): Record<DossierRefreshMode, number> =>
+  Object.fromEntries(DOSSIER_REFRESH_MODES.map(mode => [mode, selectDossierRefreshRows(dataset, mapping, mode, criteria).length])) as Record<DossierRefreshMode, number>;
+
+const describeDossierRefreshMode = (mode: DossierRefreshMode, staleAfterDays: number): string =>
+  mode === 'stale' ? `Only dossiers older than ${staleAfterDays} day(s)` : DOSSIER_REFRESH_MODE_LABELS[mode];
+
+// --- Key Personnel Contacts ---
+// Turns the key personnel listed in dossiers into rows of the contacts sheet, in the sheet's own layout. A person already in the sheet
+// under the same name and account gets the influence columns filled in; a near match is added anyway but flagged for review.
+const KEY_PERSONNEL_TITLE_HEADER = 'Job Title (Dossier)';
+const KEY_PERSONNEL_INFLUENCE_HEADER = 'Influence Class';
+const KEY_PERSONNEL_JUSTIFICATION_HEADER = 'Influence Justification';
+const KEY_PERSONNEL_REVIEW_HEADER = 'Duplicate Review';
+const CONTACT_ACCOUNT_PREFIX = 'Accounts::::';
+const MAX_LISTED_DUPLICATES = 3;
+const PERSON_NAME_NOISE_WORDS = new Set(['dr', 'mr', 'mrs', 'ms', 'miss', 'prof', 'sir', 'jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'mba', 'cpa', 'esq']);
+
+interface PersonNameKey {
+  first: string;
+  last: string;
+  full: string; // Without initials, so "Jane A. Doe" and "Jane Doe" compare equal.
+}
+
+const toPersonNameKey = (name: string): PersonNameKey => {
+  const tokens = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z'\s-]/g, ' ')
+    .split(/\s+/).filter(token => token !== '' && !PERSON_NAME_NOISE_WORDS.has(token));
+  return {
+    first: tokens[0] ?? '',
+    last: tokens.length > 1 ? tokens[tokens.length - 1] : '',
+    full: tokens.filter(token => token.length > 1).join(' '),
+  };
+};
+
+// First and last name for a new contact row: titles, suffixes and middle initials are dropped, particles like "van der" kept.
+const splitPersonName = (name: string): { first: string, last: string } => {
+  const tokens = name.trim().split(/\s+/).filter(token => !PERSON_NAME_NOISE_WORDS.has(token.toLowerCase().replace(/[.,]/g, '')));
+  const [first = '', ...rest] = tokens.map(token => token.replace(/,$/, ''));
+  return { first, last: rest.filter((token, index) => index === rest.length - 1 || !/^\p{L}\.?$/u.test(token)).join(' ') };
+};
+
+const normalizeContactAccount = (value: string): string =>
+  value.trim().replace(new RegExp(`^${CONTACT_ACCOUNT_PREFIX}`, 'i'), '').trim().toLowerCase();
+
+// A header with the mapped contact columns, for files that came without a contacts sheet.
+const createEmptyContactsTable = (mapping: ColumnMapping): string[][] => {
+  const header: string[] = [];
+  const labels: [number, string][] = [[mapping.contactFirstName, 'First Name'], [mapping.contactLastName, 'Last Name'], [mapping.contactEmail, 'Email'], [mapping.contactAccount, 'Account']];
+  labels.forEach(([column, label]) => {
+    while (header.length <= column) header.push('');
+    header[column] = label;
+  });
+  return [header];
+};
+
+interface KeyPersonnelMerge {
+  table: string[][];
+  organizations: number; // Dossiers that listed at least one person.
+  people: number;
+  added: number;
+  enriched: number;
+  flagged: string[]; // One note per added contact that may duplicate an existing one.
+}
+
+const mergeKeyPersonnelIntoContacts = (dataset: Dataset, contacts: string[][] | null, mapping: ColumnMapping): KeyPersonnelMerge => {
+  const source = contacts && contacts.length > 0 ? contacts : createEmptyContactsTable(mapping);
+  const header = source[0].map(cell => String(cell ?? ''));
+  const body = source.slice(1).map(row => row.map(cell => String(cell ?? '')));
+  let width = Math.max(header.length, ...body.map(row => row.length), mapping.contactFirstName + 1, mapping.contactLastName + 1, mapping.contactAccount + 1);
+  const columnFor = (name: string): number => {
+    const existing = findColumnByHeader(header, name);
+    if (existing >= 0) return existing;
+    while (header.length < width) header.push('');
+    header.push(name);
+    return width++;
+  };
+  const titleColumn = columnFor(KEY_PERSONNEL_TITLE_HEADER);
+  const influenceColumn = columnFor(KEY_PERSONNEL_INFLUENCE_HEADER);
+  const justificationColumn = columnFor(KEY_PERSONNEL_JUSTIFICATION_HEADER);
+  const reviewColumn = columnFor(KEY_PERSONNEL_REVIEW_HEADER);
+  const setCell = (row: string[], column: number, value: string) => {
+    while (row.length <= column) row.push('');
+    row[column] = value;
+  };
+  // Contacts added by this merge join the pool, so a person listed in two dossiers is flagged the second time.
+  const pool = body.map(row => ({
+    row,
+    name: toPersonNameKey(`${row[mapping.contactFirstName] ?? ''} ${row[mapping.contactLastName] ?? ''}`),
+    account: normalizeContactAccount(row[mapping.contactAccount] ?? ''),
+  }));
+  const describeContact = (entry: typeof pool[number]) =>
+    `row ${body.indexOf(entry.row) + 2} (${`${entry.row[mapping.contactFirstName] ?? ''} ${entry.row[mapping.contactLastName] ?? ''}`.trim()}, ${String(entry.row[mapping.contactAccount] ?? '').trim() || 'no account'})`;
+
+  let organizations = 0, people = 0, added = 0, enriched = 0;
+  const flagged: string[] = [];
+  dataset.rows.forEach(orgRow => {
+    const orgName = String(orgRow.cells[mapping.orgName] ?? '').trim();
+    const personnel = orgName ? parseDossier(String(orgRow.cells[mapping.description] ?? ''))?.keyPersonnel ?? [] : [];
+    if (personnel.length === 0) return;
+    organizations++;
+    const account = orgName.toLowerCase();
+    personnel.forEach(person => {
+      people++;
+      const name = toPersonNameKey(person.name);
+      if (!name.full) return;
+      const exact = pool.find(entry => entry.account === account && entry.name.full === name.full);
+      if (exact) {
+        if (person.title && !String(exact.row[titleColumn] ?? '').trim()) setCell(exact.row, titleColumn, person.title);
+        setCell(exact.row, influenceColumn, person.influence);
+        setCell(exact.row, justificationColumn, person.rationale);
+        enriched++;
+        return;
+      }
+      const reasons = pool.flatMap(entry => {
+        if (entry.name.full === name.full) return [`${describeContact(entry)}: same name at another account`];
+        if (entry.account === account && name.last && entry.name.last === name.last) return [`${describeContact(entry)}: same last name at this account`];
+        return [];
+      });
+
+      const { first, last } = splitPersonName(person.name);
+      const row = Array<string>(width).fill('');
+      setCell(row, mapping.contactFirstName, first);
+      setCell(row, mapping.contactLastName, last);
+      setCell(row, mapping.contactAccount, CONTACT_ACCOUNT_PREFIX + orgName);
+      setCell(row, titleColumn, person.title);
+      setCell(row, influenceColumn, person.influence);
+      setCell(row, justificationColumn, person.rationale);
+      if (reasons.length > 0) {
+        const review = `Likely duplicate of ${reasons.slice(0, MAX_LISTED_DUPLICATES).join('; ')}${reasons.length > MAX_LISTED_DUPLICATES ? `; and ${reasons.length - MAX_LISTED_DUPLICATES} more` : ''}`;
+        setCell(row, reviewColumn, review);
+        flagged.push(`${person.name} (${orgName}): ${review}`);
+      }
+      body.push(row);
+      pool.push({ row, name, account });
+      added++;
+    });
+  });
+  return { table: [header, ...body], organizations, people, added, enriched, flagged };
+};
+
+// --- Pipeline Recipes ---
+const PIPELINE_RECIPE_VERSION = 1;
+const DEFAULT_PLACEHOLDER_DESCRIPTION = "Insufficient specific information available on the website to generate a detailed analytical profile for referral matchmaking.";
+const DEFAULT_URL_BATCH_SIZE = 20;
+const DEFAULT_URL_MAX_RETRIES = 3;
+const DEFAULT_DOSSIER_MAX_RETRIES = 1; // Fewer retries for longer generation
+const DEFAULT_DOSSIER_CONCURRENCY = 3;
+const DEFAULT_DOSSIER_QUALITY_RETRIES = 2;
+const DEFAULT_ENRICHMENT_BATCH_SIZE = 10; // Grounded answers for several fields per row run longer than URL lookups.
+
+type PipelineStepType = 'prefillFromContacts' | 'deletePlaceholderRows' | 'deleteMostlyEmptyRows' | 'mergeDuplicates' | 'findUrls' | 'enrichColumns' | 'generateDossiers' | 'extractKeyPersonnel';
+
+// Every step reads only the parameters it needs; the rest are ignored.
+interface PipelineStepParams {
+  placeholderText?: string;
+  batchSize?: number;
+  maxRetries?: number;
+  concurrency?: number;
+  qualityRetries?: number;
+  refreshMode?: DossierRefreshMode;
+  staleAfterDays?: number;
+}
+
+interface PipelineStep {
+  type: PipelineStepType;
+  enabled: boolean;
+  params: PipelineStepParams;
+}
+
+interface PipelineRecipe {
+  version: number;
+  name: string;
+  steps: PipelineStep[]; // Run in array order.
+}
+
+type PipelineStepOutcome = 'completed' | 'skipped' | 'failed' | 'cancelled';
+type PipelineStepStatus = 'pending' | 'running' | PipelineStepOutcome;
+
+interface PipelineParamDefinition {
+  key: keyof PipelineStepParams;
+  label: string;
+  kind: 'text' | 'number' | 'choice';
+  min?: number;
+  max?: number;
+  options?: { value: string, label: string }[]; // For 'choice' parameters.
+}
+
+interface PipelineStepDefinition {
+  type: PipelineStepType;
+  label: string;
+  enabledByDefault: boolean;
+  defaultParams: PipelineStepParams;
+  params: PipelineParamDefinition[];
+}
+
+const PIPELINE_STEP_DEFINITIONS: PipelineStepDefinition[] = [
+  { type: 'prefillFromContacts', label: 'Pre-fill URLs from Contacts', enabledByDefault: true, defaultParams: {}, params: [] },
+  { type: 'deletePlaceholderRows', label: 'Delete Placeholder Description Rows', enabledByDefault: true, defaultParams: { placeholderText: DEFAULT_PLACEHOLDER_DESCRIPTION }, params: [{ key: 'placeholderText', label: 'Placeholder description', kind: 'text' }] },
+  { type: 'deleteMostlyEmptyRows', label: 'Delete Mostly Empty Rows', enabledByDefault: true, defaultParams: {}, params: [] },
+  { type: 'mergeDuplicates', label: 'Merge Duplicate Organizations', enabledByDefault: true, defaultParams: {}, params: [] },
+  { type: 'findUrls', label: 'AI Find Missing URLs', enabledByDefault: true, defaultParams: { batchSize: DEFAULT_URL_BATCH_SIZE, maxRetries: DEFAULT_URL_MAX_RETRIES }, params: [{ key: 'batchSize', label: 'Max rows per batch', kind: 'number', min: 1, max: 200 }, { key: 'maxRetries', label: 'Retries per batch', kind: 'number', min: 0, max: 10 }] },
+  // Off by default: it has nothing to do until enrichment columns are defined in Section 4.
+  { type: 'enrichColumns', label: 'AI Enrich Custom Columns', enabledByDefault: false, defaultParams: { batchSize: DEFAULT_ENRICHMENT_BATCH_SIZE, maxRetries: DEFAULT_URL_MAX_RETRIES }, params: [{ key: 'batchSize', label: 'Max rows per batch', kind: 'number', min: 1, max: 200 }, { key: 'maxRetries', label: 'Retries per batch', kind: 'number', min: 0, max: 10 }] },
+  // Off by default: dossiers use the Pro model and cost far more than the other steps.
+  { type: 'generateDossiers', label: 'Generate Detailed Dossiers', enabledByDefault: false, defaultParams: { maxRetries: DEFAULT_DOSSIER_MAX_RETRIES, concurrency: DEFAULT_DOSSIER_CONCURRENCY, qualityRetries: DEFAULT_DOSSIER_QUALITY_RETRIES, refreshMode: DEFAULT_DOSSIER_REFRESH_MODE, staleAfterDays: DEFAULT_DOSSIER_STALE_DAYS }, params: [{ key: 'refreshMode', label: 'Rows to generate', kind: 'choice', options: DOSSIER_REFRESH_MODES.map(mode => ({ value: mode, label: DOSSIER_REFRESH_MODE_LABELS[mode] })) }, { key: 'staleAfterDays', label: 'N days (for older dossiers)', kind: 'number', min: 1, max: 3650 }, { key: 'maxRetries', label: 'Retries per row', kind: 'number', min: 0, max: 10 }, { key: 'concurrency', label: 'Rows in parallel', kind: 'number', min: 1, max: 16 }, { key: 'qualityRetries', label: 'Regenerations for failed quality checks', kind: 'number', min: 0, max: 5 }] },
+  { type: 'extractKeyPersonnel', label: 'Extract Key Personnel to Contacts', enabledByDefault: false, defaultParams: {}, params: [] },
+];
+
+const DEFAULT_PIPELINE_RECIPE: PipelineRecipe = {
+  version: PIPELINE_RECIPE_VERSION,
+  name: 'Default pipeline',
+  steps: PIPELINE_STEP_DEFINITIONS.map(definition => ({ type: definition.type, enabled: definition.enabledByDefault, params: { ...definition.defaultParams } })),
+};
+
+const getPipelineStepDefinition = (type: PipelineStepType): PipelineStepDefinition =>
+  PIPELINE_STEP_DEFINITIONS.find(definition => definition.type === type)!;
+
+// Parameters for a step, falling back to the defaults when the recipe omits the step or a value.
+const getPipelineStepParams = (recipe: PipelineRecipe, type: PipelineStepType): PipelineStepParams => ({
+  ...getPipelineStepDefinition(type).defaultParams,
+  ...recipe.steps.find(step => step.type === type)?.params,
+});
+
+const parsePipelineRecipe = (json: string): PipelineRecipe => {
+  const raw = parseVersionedJson(json, 'Recipe', PIPELINE_RECIPE_VERSION);
+  if (!Array.isArray(raw.steps)) throw new Error('Recipe must have a "steps" array.');
+
+  const seen = new Set<PipelineStepType>();
+  const steps = raw.steps.map((rawStep: unknown, index: number): PipelineStep => {
+    const stepNumber = index + 1;
+    const step = isJsonObject(rawStep) ? rawStep : {};
+    const definition = PIPELINE_STEP_DEFINITIONS.find(candidate => candidate.type === step.type);
+    if (!definition) throw new Error(`Step ${stepNumber}: unknown step type ${JSON.stringify(step.type)}.`);
+    if (seen.has(definition.type)) throw new Error(`Step ${stepNumber}: "${definition.type}" appears more than once.`);
+    seen.add(definition.type);
+
+    const rawParams = step.params ?? {};
+    if (!isJsonObject(rawParams)) throw new Error(`Step ${stepNumber} (${definition.label}): "params" must be an object.`);
+    const params: PipelineStepParams = { ...definition.defaultParams };
+    definition.params.forEach(param => {
+      const value = rawParams[param.key];
+      if (value === undefined) return;
+      if (param.kind === 'text') {
+        if (typeof value !== 'string' || value.trim() === '') throw new Error(`Step ${stepNumber} (${definition.label}): "${param.key}" must be a non-empty string.`);
+        (params as Record<string, unknown>)[param.key] = value;
+      } else if (param.kind === 'choice') {
+        if (!param.options!.some(option => option.value === value)) throw new Error(`Step ${stepNumber} (${definition.label}): "${param.key}" must be one of ${param.options!.map(option => JSON.stringify(option.value)).join(', ')}.`);
+        (params as Record<string, unknown>)[param.key] = value;
+      } else {
+        if (typeof value !== 'number' || !Number.isInteger(value) || (param.min !== undefined && value < param.min) || (param.max !== undefined && value > param.max)) {
+          throw new Error(`Step ${stepNumber} (${definition.label}): "${param.key}" must be a whole number from ${param.min} to ${param.max}.`);
+        }
+        (params as Record<string, unknown>)[param.key] = value;
+      }
+    });
+    return { type: definition.type, enabled: step.enabled !== false, params };
+  });
+  // Steps the recipe omits are appended switched off so they can still be enabled in the editor.
+  PIPELINE_STEP_DEFINITIONS.filter(definition => !seen.has(definition.type)).forEach(definition => {
+    steps.push({ type: definition.type, enabled: false, params: { ...definition.defaultParams } });
+  });
+
+  return { version: PIPELINE_RECIPE_VERSION, name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Untitled pipeline', steps };
+};
+
+// --- Run Control ---
+type RunControlState = 'running' | 'paused' | 'cancelling';
+
+const createAbortError = (): DOMException => new DOMException('The run was cancelled.', 'AbortError');
+
+const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
+// Rejects as soon as the signal aborts. The SDK cannot cancel a request, so a response that arrives later is ignored.
+const abortable = <T,>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); },
+    );
+  });
+};
+
+const abortableDelay = (ms: number, signal: AbortSignal): Promise<void> => abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+// --- Request Scheduling ---
+type ModelTier = 'flash' | 'pro';
+
+// Gemini quotas are per model. Requests per minute and input tokens per minute are both enforced.
+interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+const RATE_LIMITS_STORAGE_KEY = 'aiCsvUrlFinder.rateLimits';
+const DEFAULT_RATE_LIMITS: Record<ModelTier, RateLimits> = { // Paid tier 1 quotas for the preview models.
+  flash: { requestsPerMinute: 1000, tokensPerMinute: 1000000 },
+  pro: { requestsPerMinute: 150, tokensPerMinute: 2000000 },
+};
+const MODEL_TIER_LABELS: Record<ModelTier, string> = { flash: 'Flash (URL finding)', pro: 'Pro (dossiers)' };
+const RATE_LIMIT_MAX_RETRIES = 5; // 429 responses are retried separately from a step's own retry budget.
+const RATE_LIMIT_BASE_BACKOFF_MS = 5000; // Used when the error carries no retry hint; doubled on each further 429.
+
+const loadRateLimits = (): Record<ModelTier, RateLimits> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RATE_LIMITS_STORAGE_KEY) || '{}');
+    return { flash: { ...DEFAULT_RATE_LIMITS.flash, ...saved.flash }, pro: { ...DEFAULT_RATE_LIMITS.pro, ...saved.pro } };
+  } catch (e) {
+    console.error('Error reading saved rate limits:', e);
+    return DEFAULT_RATE_LIMITS;
+  }
+};
+
+const saveRateLimits = (limits: Record<ModelTier, RateLimits>) => {
+  try {
+    localStorage.setItem(RATE_LIMITS_STORAGE_KEY, JSON.stringify(limits));
+  } catch (e) {
+    console.error('Error saving rate limits:', e);
+  }
+};
+
+interface RateLimiter {
+  acquire: (inputTokens: number, signal?: AbortSignal) => Promise<void>;
+  holdUntil: (timestamp: number) => void; // After a 429 every caller waits, not just the one that was rejected.
+  setLimits: (limits: RateLimits) => void;
+}
+
+// Two token buckets that refill continuously over a minute. Callers are served in arrival order.
+const createRateLimiter = (initialLimits: RateLimits): RateLimiter => {
+  let limits = initialLimits;
+  let requestBudget = limits.requestsPerMinute;
+  let tokenBudget = limits.tokensPerMinute;
+  let lastRefillAt = Date.now();
+  let heldUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    const elapsedMinutes = (now - lastRefillAt) / 60000;
+    lastRefillAt = now;
+    requestBudget = Math.min(limits.requestsPerMinute, requestBudget + elapsedMinutes * limits.requestsPerMinute);
+    tokenBudget = Math.min(limits.tokensPerMinute, tokenBudget + elapsedMinutes * limits.tokensPerMinute);
+  };
+
+  const take = async (inputTokens: number, signal?: AbortSignal) => {
+    for (;;) {
+      if (signal?.aborted) throw createAbortError();
+      refill();
+      // A prompt larger than the whole per-minute quota waits for a full bucket instead of forever.
+      const tokenCost = Math.min(inputTokens, limits.tokensPerMinute);
+      let waitMs = heldUntil - Date.now();
+      if (waitMs <= 0) {
+        if (requestBudget >= 1 && tokenBudget >= tokenCost) {
+          requestBudget -= 1;
+          tokenBudget -= tokenCost;
+          return;
+        }
+        const requestWaitMs = requestBudget >= 1 ? 0 : ((1 - requestBudget) / limits.requestsPerMinute) * 60000;
+        const tokenWaitMs = tokenBudget >= tokenCost ? 0 : ((tokenCost - tokenBudget) / limits.tokensPerMinute) * 60000;
+        waitMs = Math.max(requestWaitMs, tokenWaitMs);
+      }
+      const delay = Math.ceil(waitMs);
+      await (signal ? abortableDelay(delay, signal) : new Promise(resolve => setTimeout(resolve, delay)));
+    }
+  };
+
+  return {
+    acquire: (inputTokens, signal) => {
+      const turn = queue.then(() => take(inputTokens, signal));
+      queue = turn.catch(() => undefined); // A cancelled caller must not block the ones behind it.
+      return turn;
+    },
+    holdUntil: timestamp => { heldUntil = Math.max(heldUntil, timestamp); },
+    setLimits: next => {
+      refill();
+      limits = { requestsPerMinute: Math.max(1, next.requestsPerMinute), tokensPerMinute: Math.max(1, next.tokensPerMinute) };
+      requestBudget = Math.min(requestBudget, limits.requestsPerMinute);
+      tokenBudget = Math.min(tokenBudget, limits.tokensPerMinute);
+    },
+  };
+};
+
+const isRateLimitError = (e: unknown): boolean => {
+  if ((e as { status?: unknown } | null)?.status === 429) return true;
+  return /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(e instanceof Error ? e.message : String(e));
+};
+
+// Gemini puts its RetryInfo in the error body ("retryDelay": "37s"); a "Retry-After: 37" style hint is also accepted.
+const getRetryAfterMs = (e: unknown): number | null => {
+  const message = e instanceof Error ? e.message : String(e);
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/i) ?? message.match(/retry[- ]after\D{0,5}(\d+(?:\.\d+)?)/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+// Waits for quota before every attempt and retries 429s after the hinted (or backed-off) delay. Other errors are thrown to the caller.
+const runRateLimited = async <T,>(
+  limiter: RateLimiter, inputTokens: number, request: () => Promise<T>,
+  signal: AbortSignal | undefined, onRateLimited: (waitMs: number, attempt: number) => void,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire(inputTokens, signal);
+    try {
+      return await (signal ? abortable(request(), signal) : request());
+    } catch (e) {
+      if (!isRateLimitError(e) || attempt >= RATE_LIMIT_MAX_RETRIES) throw e;
+      const waitMs = getRetryAfterMs(e) ?? RATE_LIMIT_BASE_BACKOFF_MS * Math.pow(2, attempt);
+      limiter.holdUntil(Date.now() + waitMs);
+      onRateLimited(waitMs, attempt + 1);
+    }
+  }
+};
+
+// Runs the worker over the items with at most `concurrency` in flight. A worker returning false stops further items from starting.
+const runWorkerPool = async <T,>(items: T[], concurrency: number, worker: (item: T) => Promise<boolean>): Promise<void> => {
+  let nextIndex = 0;
+  let stopped = false;
+  const runLane = async () => {
+    while (!stopped && nextIndex < items.length) {
+      const item = items[nextIndex++];
+      if (!(await worker(item))) stopped = true;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runLane));
+};
+
+// --- AI Providers ---
+type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+interface AiGenerateRequest {
+  model: string;
+  prompt: string;
+  grounded?: boolean; // Let the model search the web. Backends without search answer from the model alone.
+  responseSchema?: Schema; // Ask for JSON matching this schema.
+  temperature?: number; // Unset leaves the model's default.
+  thinkingBudget?: number; // Thinking tokens allowed for the request. Only Gemini supports it; other backends ignore it.
+}
+
+interface AiGenerateResult {
+  text: string;
+  groundingUris: string[];
+  usage: { inputTokens: number, outputTokens: number } | null; // Token counts the backend reported for this call, if any.
+}
+
+// Everything the handlers need from an AI backend. Handlers pick a model by tier and never see the SDK or endpoint behind it.
+interface AiProvider {
+  kind: AiProviderKind;
+  label: string;
+  models: Record<ModelTier, string>;
+  generate: (request: AiGenerateRequest) => Promise<AiGenerateResult>;
+  countTokens: (model: string, text: string) => Promise<number>;
+}
+
+interface AiProviderSettings {
+  kind: AiProviderKind;
+  openAiBaseUrl: string;
+  openAiApiKey: string; // Kept in memory only; never written to localStorage.
+  openAiModels: Record<ModelTier, string>;
+}
+
+const GEMINI_MODELS: Record<ModelTier, string> = { flash: 'gemini-2.5-flash-preview-04-17', pro: 'gemini-2.5-pro-preview-04-17' };
+const MOCK_MODELS: Record<ModelTier, string> = { flash: 'mock-flash', pro: 'mock-pro' };
+const AI_PROVIDER_STORAGE_KEY = 'aiCsvUrlFinder.aiProvider';
+const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible endpoint (OpenAI, Ollama, llama.cpp, ...)',
+  mock: 'Mock (offline, deterministic)',
+};
+const DEFAULT_AI_PROVIDER_SETTINGS: AiProviderSettings = {
+  kind: 'gemini',
+  openAiBaseUrl: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible API.
+  openAiApiKey: '',
+  openAiModels: { flash: 'llama3.1', pro: 'llama3.1' },
+};
+const CHARS_PER_TOKEN_ESTIMATE = 4; // Rough English average, for backends that cannot count tokens.
+
+const estimateTokenCount = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+
+const loadAiProviderSettings = (): AiProviderSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_PROVIDER_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_AI_PROVIDER_SETTINGS, ...saved, openAiApiKey: '', openAiModels: { ...DEFAULT_AI_PROVIDER_SETTINGS.openAiModels, ...saved.openAiModels } };
+  } catch (e) {
+    console.error('Error reading saved AI provider settings:', e);
+    return DEFAULT_AI_PROVIDER_SETTINGS;
+  }
+};
+
+const saveAiProviderSettings = ({ openAiApiKey, ...settings }: AiProviderSettings) => {
+  try {
+    localStorage.setItem(AI_PROVIDER_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Error saving AI provider settings:', e);
+  }
+};
+
+const createGeminiProvider = (apiKey: string): AiProvider => {
+  const client = new GoogleGenAI({ apiKey });
+  return {
+    kind: 'gemini',
+    label: AI_PROVIDER_LABELS.gemini,
+    models: GEMINI_MODELS,
+    generate: async ({ model, prompt, grounded, responseSchema, temperature, thinkingBudget }) => {
+      // Gemini rejects a response schema together with search, so a grounded request asks for the JSON in the prompt instead.
+      const schemaInPrompt = grounded && responseSchema ? `\n\nRespond with only a JSON object, without code fences, that matches this JSON Schema: ${JSON.stringify(toJsonSchema(responseSchema))}` : '';
+      const response = await client.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt + schemaInPrompt }] }],
+        config: {
+          ...(grounded && { tools: [{ googleSearch: {} }] }),
+          ...(responseSchema && !grounded && { responseMimeType: 'application/json', responseSchema }),
+          ...(temperature !== undefined && { temperature }),
+          ...(thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget } }),
+        },
+      });
+      if (typeof response.text !== 'string') throw new Error('Invalid or empty response structure from Gemini API.');
+      const usage = response.usageMetadata;
+      return {
+        text: schemaInPrompt ? response.text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1') : response.text,
+        groundingUris: extractGroundingUris(response),
+        // Thinking tokens are billed as output.
+        usage: usage?.promptTokenCount !== undefined ? { inputTokens: usage.promptTokenCount, outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) } : null,
+      };
+    },
+    countTokens: async (model, text) => (await client.models.countTokens({ model, contents: [{ role: 'user', parts: [{ text }] }] })).totalTokens ?? 0,
+  };
+};
+
+// Gemini's schema dialect spells types in upper case and has no additionalProperties; JSON Schema is the reverse.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => ({
+  ...(schema.type && { type: schema.type.toLowerCase() }),
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.items && { items: toJsonSchema(schema.items) }),
+  ...(schema.properties && { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])), additionalProperties: false }),
+  ...(schema.required && { required: schema.required }),
+});
+
+const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string, models: Record<ModelTier, string>): AiProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    kind: 'openai',
+    label: `OpenAI-compatible endpoint (${baseUrl})`,
+    models,
+    generate: async ({ model, prompt, responseSchema, temperature }) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(temperature !== undefined && { temperature }),
+          ...(responseSchema && { response_format: { type: 'json_schema', json_schema: { name: 'response', strict: true, schema: toJsonSchema(responseSchema) } } }),
+        }),
+      });
+      if (!response.ok) {
+        const retryAfter = response.headers.get('retry-after');
+        const body = await response.text().catch(() => '');
+        // The status and a numeric Retry-After stay on the error so the request scheduler can recognise rate limiting.
+        const hint = retryAfter && /^\d+(\.\d+)?$/.test(retryAfter.trim()) ? ` (retry-after ${retryAfter.trim()})` : '';
+        throw Object.assign(new Error(`Endpoint returned HTTP ${response.status}${hint}: ${body.slice(0, 300)}`), { status: response.status });
+      }
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error('Invalid or empty response structure from the OpenAI-compatible endpoint.');
+      return {
+        text,
+        groundingUris: [],
+        usage: typeof data.usage?.prompt_tokens === 'number' ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens ?? 0 } : null,
+      };
+    },
+    // The chat completions API has no token counting endpoint.
+    countTokens: async (_model, text) => estimateTokenCount(text),
+  };
+};
+
+// Offline stand-in: every organization in a URL lookup gets a made-up ".example" domain, an enrichment lookup finds no values,
+// and any other prompt gets a fixed markdown document.
+const createMockProvider = (): AiProvider => ({
+  kind: 'mock',
+  label: AI_PROVIDER_LABELS.mock,
+  models: MOCK_MODELS,
+  generate: async ({ model, prompt, responseSchema }) => {
+    let text: string;
+    if (responseSchema === URL_LOOKUP_RESPONSE_SCHEMA) {
+      const records: { id: string, name: string }[] = JSON.parse(prompt.match(/<organizations>(.*)<\/organizations>/s)?.[1] ?? '[]');
+      text = JSON.stringify({ results: records.map(record => {
+        const slug = record.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+        return { id: record.id, url: slug ? `${slug}.example` : '', confidence: 'low', reason: 'Made up by the mock provider.' };
+      }) });
+    } else if (responseSchema === ENRICHMENT_RESPONSE_SCHEMA) {
+      const records: { id: string }[] = JSON.parse(prompt.match(/<organizations>(.*)<\/organizations>/s)?.[1] ?? '[]');
+      text = JSON.stringify({ results: records.map(record => ({ id: record.id, value: '', confidence: 'low', reason: 'The mock provider does not look anything up.' })) });
+    } else {
+      text = `# Mock Response\n\nWritten by the mock provider (${model}) for a ${prompt.length}-character prompt.`;
+    }
+    return { text, groundingUris: [], usage: { inputTokens: estimateTokenCount(prompt), outputTokens: estimateTokenCount(text) } };
+  },
+  countTokens: async (_model, text) => estimateTokenCount(text),
+});
+
+// Null when the selected backend is missing what it needs to make requests.
+const createAiProvider = (settings: AiProviderSettings, geminiApiKey: string | undefined): AiProvider | null => {
+  switch (settings.kind) {
+    case 'gemini': return geminiApiKey ? createGeminiProvider(geminiApiKey) : null;
+    case 'openai': return settings.openAiBaseUrl.trim() && settings.openAiModels.flash.trim() && settings.openAiModels.pro.trim() ? createOpenAiCompatibleProvider(settings.openAiBaseUrl.trim(), settings.openAiApiKey.trim(), settings.openAiModels) : null;
+    case 'mock': return createMockProvider();
+  }
+};
+
+// --- Model Settings ---
+// Which model each task runs on and how it generates, plus the price table that every cost figure is calculated from.
+type AiTask = 'urlLookup' | 'dossier' | 'enrichment';
+
+interface GenerationSettings {
+  model: string; // Empty uses the provider's model for the task's tier.
+  temperature: number | null; // Null leaves the model's default.
+  thinkingBudget: number | null;
+  grounded: boolean;
+}
+
+// What a task sends with every request, resolved against the provider in use.
+type TaskGenerationOptions = Omit<AiGenerateRequest, 'prompt' | 'responseSchema'>;
+
+interface ModelPricing {
+  inputPerMillionTokens: number; // USD
+  outputPerMillionTokens: number; // USD, thinking tokens included
+  groundingPerThousandRequests: number; // USD, once the free requests are used up
+  freeGroundingRequestsPerDay: number;
+}
+
+type ModelPricingTable = Record<string, ModelPricing>; // Keyed by model ID.
+
+interface ModelSettings {
+  tasks: Record<AiTask, GenerationSettings>;
+  pricing: ModelPricingTable;
+}
+
+const AI_TASKS: AiTask[] = ['urlLookup', 'dossier', 'enrichment'];
+const AI_TASK_LABELS: Record<AiTask, string> = { urlLookup: 'URL finding', dossier: 'Dossier generation', enrichment: 'Enrichment columns' };
+// Each task draws on the rate limits of its tier.
+const AI_TASK_TIERS: Record<AiTask, ModelTier> = { urlLookup: 'flash', dossier: 'pro', enrichment: 'flash' };
+const MODEL_SETTINGS_STORAGE_KEY = 'aiCsvUrlFinder.modelSettings';
+const MODEL_PRICING_FIELDS: { key: keyof ModelPricing, label: string }[] = [
+  { key: 'inputPerMillionTokens', label: 'Input $/1M tokens' },
+  { key: 'outputPerMillionTokens', label: 'Output $/1M tokens' },
+  { key: 'groundingPerThousandRequests', label: 'Grounding $/1K requests' },
+  { key: 'freeGroundingRequestsPerDay', label: 'Free grounded requests/day' },
+];
+const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  tasks: {
+    urlLookup: { model: '', temperature: null, thinkingBudget: null, grounded: true },
+    dossier: { model: '', temperature: null, thinkingBudget: null, grounded: true },
+    // Grounded by default: industry, headquarters and headcount change too often to answer from the model alone.
+    enrichment: { model: '', temperature: null, thinkingBudget: null, grounded: true },
+  },
+  // Paid tier. Pro prices are for prompts of up to 200k tokens.
+  pricing: {
+    [GEMINI_MODELS.flash]: { inputPerMillionTokens: 0.15, outputPerMillionTokens: 3.50, groundingPerThousandRequests: 35, freeGroundingRequestsPerDay: 1500 },
+    [GEMINI_MODELS.pro]: { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10.00, groundingPerThousandRequests: 35, freeGroundingRequestsPerDay: 1500 },
+  },
+};
+
+const loadModelSettings = (): ModelSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      tasks: Object.fromEntries(AI_TASKS.map(task => [task, { ...DEFAULT_MODEL_SETTINGS.tasks[task], ...saved.tasks?.[task] }])) as Record<AiTask, GenerationSettings>,
+      pricing: saved.pricing && typeof saved.pricing === 'object' ? saved.pricing : DEFAULT_MODEL_SETTINGS.pricing,
+    };
+  } catch (e) {
+    console.error('Error reading saved model settings:', e);
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+const saveModelSettings = (settings: ModelSettings) => {
+  try {
+    localStorage.setItem(MODEL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Error saving model settings:', e);
+  }
+};
+
+const resolveTaskGeneration = (settings: GenerationSettings, task: AiTask, provider: AiProvider): TaskGenerationOptions => ({
+  model: settings.model.trim() || provider.models[AI_TASK_TIERS[task]],
+  grounded: settings.grounded,
+  ...(settings.temperature !== null && { temperature: settings.temperature }),
+  ...(settings.thinkingBudget !== null && { thinkingBudget: settings.thinkingBudget }),
+});
+
+// Models missing from the table are not costed.
+const calculateTokenCost = (pricing: ModelPricing | undefined, inputTokens: number, outputTokens: number): number =>
+  pricing ? (inputTokens / 1000000) * pricing.inputPerMillionTokens + (outputTokens / 1000000) * pricing.outputPerMillionTokens : 0;
+
+const calculateGroundingCost = (pricing: ModelPricing | undefined, groundedRequests: number): number =>
+  pricing && groundedRequests > pricing.freeGroundingRequestsPerDay ? ((groundedRequests - pricing.freeGroundingRequestsPerDay) / 1000) * pricing.groundingPerThousandRequests : 0;
+
+// --- AI Call Cassettes ---
+// A cassette is a recording of every provider call in a session. Replaying it serves the same responses, errors included,
+// so the app and its retry paths can be exercised without a network connection or an API key.
+const CASSETTE_VERSION = 1;
+
+type CassetteMode = 'off' | 'record' | 'replay';
+
+interface CassetteEntry {
+  call: 'generate' | 'countTokens';
+  key: string; // Identifies the request; replay matches on it.
+  result?: AiGenerateResult | number;
+  error?: { message: string, status?: number };
+}
+
+interface Cassette {
+  version: number;
+  recordedAt: number;
+  providerKind: AiProviderKind;
+  providerLabel: string;
+  models: Record<ModelTier, string>;
+  entries: CassetteEntry[]; // In call order.
+}
+
+// Generation options are only part of the key when set, so cassettes recorded with model defaults keep matching.
+const getGenerateCassetteKey = ({ model, prompt, grounded, responseSchema, temperature, thinkingBudget }: AiGenerateRequest): string =>
+  JSON.stringify({ model, prompt, grounded: grounded ?? false, responseSchema: responseSchema ?? null, ...(temperature !== undefined && { temperature }), ...(thinkingBudget !== undefined && { thinkingBudget }) });
+
+const getCountTokensCassetteKey = (model: string, text: string): string => JSON.stringify({ model, text });
+
+const toCassetteError = (e: unknown): { message: string, status?: number } => {
+  const status = (e as { status?: unknown } | null)?.status;
+  return { message: e instanceof Error ? e.message : String(e), ...(typeof status === 'number' && { status }) };
+};
+
+// Passes every call through to the inner provider and reports each request with its outcome.
+const createRecordingProvider = (inner: AiProvider, onEntry: (entry: CassetteEntry) => void): AiProvider => ({
+  ...inner,
+  generate: async request => {
+    const key = getGenerateCassetteKey(request);
+    try {
+      const result = await inner.generate(request);
+      onEntry({ call: 'generate', key, result });
+      return result;
+    } catch (e) {
+      onEntry({ call: 'generate', key, error: toCassetteError(e) });
+      throw e;
+    }
+  },
+  countTokens: async (model, text) => {
+    const key = getCountTokensCassetteKey(model, text);
+    try {
+      const result = await inner.countTokens(model, text);
+      onEntry({ call: 'countTokens', key, result });
+      return result;
+    } catch (e) {
+      onEntry({ call: 'countTokens', key, error: toCassetteError(e) });
+      throw e;
+    }
+  },
+});
+
+// Repeated identical requests get their recorded outcomes in order (a failure, then the retry's success);
+// once those run out, the last one is served again.
+const createReplayProvider = (cassette: Cassette): AiProvider => {
+  const entriesByKey = new Map<string, CassetteEntry[]>();
+  cassette.entries.forEach(entry => {
+    const mapKey = `${entry.call}:${entry.key}`;
+    entriesByKey.set(mapKey, [...(entriesByKey.get(mapKey) ?? []), entry]);
+  });
+  const playCounts = new Map<string, number>();
+  const play = (call: CassetteEntry['call'], key: string, model: string, text: string): AiGenerateResult | number => {
+    const mapKey = `${call}:${key}`;
+    const entries = entriesByKey.get(mapKey);
+    if (!entries) throw new Error(`The cassette has no recorded ${call} call for model ${model} with this input ("${text.substring(0, 60)}...").`);
+    const played = playCounts.get(mapKey) ?? 0;
+    playCounts.set(mapKey, played + 1);
+    const entry = entries[Math.min(played, entries.length - 1)];
+    if (entry.error) throw Object.assign(new Error(entry.error.message), entry.error.status !== undefined ? { status: entry.error.status } : {});
+    return entry.result!;
+  };
+  return {
+    kind: cassette.providerKind,
+    label: `Cassette replay of ${cassette.providerLabel}`,
+    models: cassette.models,
+    generate: async request => play('generate', getGenerateCassetteKey(request), request.model, request.prompt) as AiGenerateResult,
+    countTokens: async (model, text) => play('countTokens', getCountTokensCassetteKey(model, text), model, text) as number,
+  };
+};
+
+const parseCassette = (json: string): Cassette => {
+  const raw = parseVersionedJson(json, 'Cassette', CASSETTE_VERSION);
+  const { entries, models } = raw;
+  if (!Array.isArray(entries)) throw new Error('Cassette must have an "entries" array.');
+  const providerKind = (Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).find(kind => kind === raw.providerKind);
+  if (!providerKind) throw new Error(`Cassette has an unknown provider kind ${JSON.stringify(raw.providerKind)}.`);
+  if (!isJsonObject(models) || typeof models.flash !== 'string' || typeof models.pro !== 'string') throw new Error('Cassette must name the flash and pro models it was recorded with.');
+  entries.forEach((entry: unknown, index: number) => {
+    const entryNumber = index + 1;
+    if (!isJsonObject(entry) || (entry.call !== 'generate' && entry.call !== 'countTokens')) throw new Error(`Entry ${entryNumber}: unknown call ${JSON.stringify(isJsonObject(entry) ? entry.call : entry)}.`);
+    if (typeof entry.key !== 'string') throw new Error(`Entry ${entryNumber}: "key" must be a string.`);
+    if (entry.error !== undefined) {
+      if (!isJsonObject(entry.error) || typeof entry.error.message !== 'string') throw new Error(`Entry ${entryNumber}: "error.message" must be a string.`);
+    } else if (entry.call === 'countTokens' ? typeof entry.result !== 'number' : !isJsonObject(entry.result) || typeof entry.result.text !== 'string' || !Array.isArray(entry.result.groundingUris)) {
+      throw new Error(`Entry ${entryNumber}: missing or malformed "result" for a ${entry.call} call.`);
+    }
+  });
+  return {
+    version: CASSETTE_VERSION,
+    recordedAt: typeof raw.recordedAt === 'number' ? raw.recordedAt : 0,
+    providerKind,
+    providerLabel: typeof raw.providerLabel === 'string' ? raw.providerLabel : AI_PROVIDER_LABELS[providerKind],
+    models: { flash: models.flash, pro: models.pro },
+    entries: entries as CassetteEntry[], // Checked entry by entry above.
+  };
+};
+
+// --- Adaptive URL Batching ---
+// Enrichment columns are batched the same way.
+const URL_BATCH_MIN_SIZE = 2;
+const URL_SUB_BATCH_MAX_RETRIES = 1; // Split batches are retried less: the usual failure is a row count mismatch that repeats.
+const URL_BATCH_FAILURE_RATE_WEIGHT = 0.3; // Weight of the latest batch in the moving failure rate.
+
+// A batch counts as failed when its first attempt did, even if a retry or split later resolved it.
+const updateUrlBatchFailureRate = (failureRate: number, batchFailed: boolean): number =>
+  failureRate + URL_BATCH_FAILURE_RATE_WEIGHT * ((batchFailed ? 1 : 0) - failureRate);
+
+// Shrinks batches in proportion to the recent failure rate and grows them back as batches succeed.
+const adaptUrlBatchSize = (maxBatchSize: number, failureRate: number): number =>
+  Math.max(Math.min(URL_BATCH_MIN_SIZE, maxBatchSize), Math.min(maxBatchSize, Math.round(maxBatchSize * (1 - failureRate))));
+
+// --- Run Checkpoints (IndexedDB) ---
+const APP_DB_NAME = 'aiCsvUrlFinder';
+const APP_DB_VERSION = 2; // 2 added the response cache store.
+const RUN_CHECKPOINT_STORE = 'runCheckpoints';
+const RESPONSE_CACHE_STORE = 'responseCache';
+const ACTIVE_RUN_CHECKPOINT_KEY = 'active'; // Only one AI run can be in progress at a time.
+
+type RunCheckpointOperation = 'full_url' | 'full_dossier' | 'full_enrichment';
+
+// Everything a long AI run needs to continue after a reload without repeating the calls it already paid for.
+interface RunCheckpoint {
+  operation: RunCheckpointOperation;
+  startedAt: number;
+  updatedAt: number;
+  fileName: string;
+  columnMapping: ColumnMapping;
+  params: PipelineStepParams;
+  initialDataset: Dataset; // The data before the run, so the resumed run is still undone in one step.
+  dataset: Dataset; // Snapshot including every result received so far.
+  completedRowIds: string[]; // Rows already sent to the AI, whether or not the call succeeded.
+  failedRowIds: string[]; // Rows whose AI call still failed after every retry (and, for URLs, every split).
+  skippedBatchNumbers: number[];
+  updatedCount: number;
+  tokens: { input: number, output: number, requests: number };
+  targetRowIds?: string[]; // Set when the run covers only some rows: retried URL rows, or the rows a dossier refresh mode picked.
+  urlBatchFailureRate?: number;
+  urlBatchCount?: number;
+  promptTemplate?: ActivePromptTemplate; // The prompt version the run started with, so a resumed run keeps using it.
+  generation?: TaskGenerationOptions; // Likewise the model and generation settings.
+  enrichmentColumn?: EnrichmentColumn; // The column definition an enrichment run started with.
+  contactsSheetData: string[][] | null; // The corrected contacts sheet and the workbook's sheet roles, so a resumed run exports as the original would have.
+  sheetRoles: SheetRoles | null;
+}
+
+// A checkpoint is stored in parts so that a save writes only what changed: the run's start with the data before it
+// (written once), its latest counters, and one record per save with the rows replaced and the rows completed since the
+// save before. Rows are replaced, never mutated, so a changed row is one that is no longer the same object.
+const RUN_CHECKPOINT_PROGRESS_KEY = 'progress';
+const RUN_CHECKPOINT_DELTA_KEY_PREFIX = 'delta:'; // Zero-padded, so the deltas come back in save order.
+
+type RunCheckpointProgressField = 'updatedAt' | 'failedRowIds' | 'skippedBatchNumbers' | 'updatedCount' | 'tokens' | 'urlBatchFailureRate' | 'urlBatchCount';
+type RunCheckpointStart = Omit<RunCheckpoint, RunCheckpointProgressField | 'dataset' | 'completedRowIds'>;
+type RunCheckpointProgress = Pick<RunCheckpoint, RunCheckpointProgressField> & { header: string[] };
+
+interface RunCheckpointDelta {
+  rows: DatasetRow[];
+  completedRowIds: string[];
+}
+
+// What is already stored for the run, so the next save can leave it out.
+interface RunCheckpointSaveState {
+  startedAt: number;
+  savedRows: Map<string, DatasetRow>;
+  completedRowIds: Set<string>;
+  deltaCount: number;
+}
+
+const RUN_CHECKPOINT_OPERATION_LABELS: Record<RunCheckpointOperation, string> = {
+  full_url: 'AI URL finding',
+  full_dossier: 'Dossier generation',
+  full_enrichment: 'AI column enrichment',
+};
+
+const openAppDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+  request.onupgradeneeded = () => {
+    [RUN_CHECKPOINT_STORE, RESPONSE_CACHE_STORE].forEach(storeName => {
+      if (!request.result.objectStoreNames.contains(storeName)) request.result.createObjectStore(storeName);
+    });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error ?? new Error('Could not open the browser database.'));
+});
+
+// Runs one transaction. The operation queues its requests and returns a function that reads the result once they have all completed.
+const runStoreTransaction = async <T,>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => () => T): Promise<T> => {
+  const db = await openAppDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const getResult = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(getResult());
+      transaction.onerror = () => reject(transaction.error ?? new Error('Browser database request failed.'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Browser database transaction was aborted.'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const runStoreRequest = <T,>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runStoreTransaction(storeName, mode, store => {
+    const request = operation(store);
+    return () => request.result;
+  });
+
+// Without a previous state, or for a different run, the stored checkpoint is replaced with this one in full.
+// Saves must not overlap: each one builds on the state the one before it returned.
+const saveRunCheckpoint = async (checkpoint: RunCheckpoint, previous: RunCheckpointSaveState | null): Promise<RunCheckpointSaveState> => {
+  const { dataset, completedRowIds, updatedAt, failedRowIds, skippedBatchNumbers, updatedCount, tokens, urlBatchFailureRate, urlBatchCount, ...start } = checkpoint;
+  const state: RunCheckpointSaveState = previous && previous.startedAt === checkpoint.startedAt
+    ? previous
+    : { startedAt: checkpoint.startedAt, savedRows: new Map(checkpoint.initialDataset.rows.map(row => [row.id, row])), completedRowIds: new Set(), deltaCount: 0 };
+  const delta: RunCheckpointDelta = {
+    rows: dataset.rows.filter(row => state.savedRows.get(row.id) !== row),
+    completedRowIds: completedRowIds.filter(id => !state.completedRowIds.has(id)),
+  };
+  const progress: RunCheckpointProgress = { updatedAt, failedRowIds, skippedBatchNumbers, updatedCount, tokens, urlBatchFailureRate, urlBatchCount, header: dataset.header };
+  const hasDelta = delta.rows.length > 0 || delta.completedRowIds.length > 0;
+  await runStoreTransaction(RUN_CHECKPOINT_STORE, 'readwrite', store => {
+    if (state !== previous) {
+      store.clear();
+      store.put(start, ACTIVE_RUN_CHECKPOINT_KEY);
+    }
+    store.put(progress, RUN_CHECKPOINT_PROGRESS_KEY);
+    if (hasDelta) store.put(delta, `${RUN_CHECKPOINT_DELTA_KEY_PREFIX}${String(state.deltaCount + 1).padStart(8, '0')}`);
+    return () => undefined;
+  });
+  delta.rows.forEach(row => state.savedRows.set(row.id, row));
+  delta.completedRowIds.forEach(id => state.completedRowIds.add(id));
+  if (hasDelta) state.deltaCount++;
+  return state;
+};
+
+const loadRunCheckpoint = (): Promise<RunCheckpoint | null> =>
+  runStoreTransaction(RUN_CHECKPOINT_STORE, 'readonly', store => {
+    let start: RunCheckpointStart | undefined;
+    let progress: RunCheckpointProgress | undefined;
+    const deltas: RunCheckpointDelta[] = [];
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (cursor.key === ACTIVE_RUN_CHECKPOINT_KEY) start = cursor.value;
+      else if (cursor.key === RUN_CHECKPOINT_PROGRESS_KEY) progress = cursor.value;
+      else deltas.push(cursor.value);
+      cursor.continue();
+    };
+    return (): RunCheckpoint | null => {
+      if (!start || !progress) return null;
+      const { header, ...counters } = progress;
+      const changedRows = new Map(deltas.flatMap(delta => delta.rows).map(row => [row.id, row]));
+      return {
+        ...start, ...counters,
+        dataset: { header, rows: start.initialDataset.rows.map(row => changedRows.get(row.id) ?? row) },
+        completedRowIds: deltas.flatMap(delta => delta.completedRowIds),
+      };
+    };
+  });
+
+const clearRunCheckpoint = (): Promise<undefined> =>
+  runStoreRequest(RUN_CHECKPOINT_STORE, 'readwrite', store => store.clear());
+
+// --- Response Cache (IndexedDB) ---
+// AI answers kept across sessions, so uploading the same export again does not pay for the same lookups and dossiers twice.
+// An entry is keyed by the normalized organization name, the other row values the prompt sends, a hash of the prompt template and the model ID.
+const RESPONSE_CACHE_SETTINGS_STORAGE_KEY = 'aiCsvUrlFinder.responseCache';
+const RESPONSE_CACHE_EXPORT_VERSION = 1;
+const CHARS_PER_STORED_BYTE = 0.5; // Browsers keep strings as UTF-16.
+
+interface ResponseCacheEntry {
+  key: string;
+  task: AiTask;
+  orgName: string; // As sent, for the cache manager and exports.
+  model: string;
+  promptVersion: string; // Version that produced the entry. Entries match on the template's text, so a re-saved identical template still hits.
+  value: string; // The URL or enrichment value, or the dossier markdown. Never empty: a "not found" is asked again next time.
+  detail: string; // Confidence and reason of a lookup, or the quality verdict of a dossier.
+  groundingUris: string[];
+  createdAt: number;
+}
+
+interface ResponseCacheSettings {
+  enabled: boolean;
+  maxAgeDays: number; // Older entries are ignored, and can be purged from the cache manager.
+}
+
+interface ResponseCacheSummary {
+  entries: number;
+  bytes: number; // Approximate.
+  taskCounts: Partial<Record<AiTask, number>>;
+  expired: number;
+  oldest: number | null;
+}
+
+// Lookups this session. A row counts once per run, when the run decides whether to send it.
+interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+}
+
+const DEFAULT_RESPONSE_CACHE_SETTINGS: ResponseCacheSettings = { enabled: true, maxAgeDays: 30 };
+
+const loadResponseCacheSettings = (): ResponseCacheSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RESPONSE_CACHE_SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      enabled: typeof saved.enabled === 'boolean' ? saved.enabled : DEFAULT_RESPONSE_CACHE_SETTINGS.enabled,
+      maxAgeDays: Number.isInteger(saved.maxAgeDays) && saved.maxAgeDays >= 1 ? saved.maxAgeDays : DEFAULT_RESPONSE_CACHE_SETTINGS.maxAgeDays,
+    };
+  } catch (e) {
+    console.error('Error reading saved response cache settings:', e);
+    return DEFAULT_RESPONSE_CACHE_SETTINGS;
+  }
+};
+
+const saveResponseCacheSettings = (settings: ResponseCacheSettings) => {
+  try {
+    localStorage.setItem(RESPONSE_CACHE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Error saving response cache settings:', e);
+  }
+};
+
+// 53-bit string hash (cyrb53). It only has to tell templates and row values apart, not resist tampering.
+const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Case, spacing and Unicode forms vary between exports of the same CRM data.
+const normalizeCacheText = (text: string): string => text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// The hints are the row values the prompt sends besides the name. Long ones such as descriptions are hashed with the rest.
+const getResponseCacheKey = (task: AiTask, orgName: string, hints: string[], promptText: string, model: string): string =>
+  [task, normalizeCacheText(orgName), hashText(hints.map(normalizeCacheText).join('\u0000')), hashText(promptText), model].join('|');
+
+// The values besides the name that a dossier prompt sends: the URL and description cells and any column the template names.
+const getDossierCacheHints = (templateText: string, context: PromptRenderContext): string[] => [
+  context.variables.orgUrl ?? '',
+  context.variables.existingDesc ?? '',
+  ...Array.from(templateText.matchAll(PROMPT_VARIABLE_PATTERN), match => match[1])
+    .filter(name => name.startsWith(COLUMN_VARIABLE_PREFIX))
+    .map(name => renderPromptTemplate(`{{${name}}}`, context)),
+];
+
+// The values besides the name that a URL lookup sends for a row: its current website value and the opening of its description.
+const getUrlLookupCacheHints = (row: DatasetRow, mapping: ColumnMapping): string[] => [
+  String(row.cells[mapping.websiteUrl] ?? '').trim(),
+  String(row.cells[mapping.description] ?? '').trim().slice(0, URL_LOOKUP_CONTEXT_MAX_LENGTH),
+];
+
+const estimateCacheEntryBytes = (entry: ResponseCacheEntry): number =>
+  Math.round((entry.key.length + entry.orgName.length + entry.value.length + entry.detail.length + entry.groundingUris.join('').length) / CHARS_PER_STORED_BYTE);
+
+// Entries older than the maximum age are left out.
+const readResponseCache = (keys: string[], maxAgeMs: number, now: number): Promise<Map<string, ResponseCacheEntry>> =>
+  runStoreTransaction(RESPONSE_CACHE_STORE, 'readonly', store => {
+    const entries = new Map<string, ResponseCacheEntry>();
+    new Set(keys).forEach(key => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const entry = request.result as ResponseCacheEntry | undefined;
+        if (entry && now - entry.createdAt <= maxAgeMs) entries.set(key, entry);
+      };
+    });
+    return () => entries;
+  });
+
+const writeResponseCache = (entries: ResponseCacheEntry[]): Promise<number> =>
+  runStoreTransaction(RESPONSE_CACHE_STORE, 'readwrite', store => {
+    entries.forEach(entry => store.put(entry, entry.key));
+    return () => entries.length;
+  });
+
+const readAllResponseCacheEntries = (): Promise<ResponseCacheEntry[]> =>
+  runStoreRequest<ResponseCacheEntry[]>(RESPONSE_CACHE_STORE, 'readonly', store => store.getAll());
+
+const summarizeResponseCache = (maxAgeMs: number, now: number): Promise<ResponseCacheSummary> =>
+  runStoreTransaction(RESPONSE_CACHE_STORE, 'readonly', store => {
+    const summary: ResponseCacheSummary = { entries: 0, bytes: 0, taskCounts: {}, expired: 0, oldest: null };
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const entry = cursor.value as ResponseCacheEntry;
+      summary.entries++;
+      summary.bytes += estimateCacheEntryBytes(entry);
+      summary.taskCounts[entry.task] = (summary.taskCounts[entry.task] ?? 0) + 1;
+      if (now - entry.createdAt > maxAgeMs) summary.expired++;
+      if (summary.oldest === null || entry.createdAt < summary.oldest) summary.oldest = entry.createdAt;
+      cursor.continue();
+    };
+    return () => summary;
+  });
+
+// Deletes the entries older than the maximum age, or every entry when no age is given. Returns how many were deleted.
+const purgeResponseCache = (maxAgeMs: number | null, now: number): Promise<number> =>
+  runStoreTransaction(RESPONSE_CACHE_STORE, 'readwrite', store => {
+    let deleted = 0;
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (maxAgeMs === null || now - (cursor.value as ResponseCacheEntry).createdAt > maxAgeMs) { cursor.delete(); deleted++; }
+      cursor.continue();
+    };
+    return () => deleted;
+  });
+
+const serializeResponseCacheExport = (entries: ResponseCacheEntry[]): string =>
+  JSON.stringify({ version: RESPONSE_CACHE_EXPORT_VERSION, exportedAt: new Date().toISOString(), entries: entries.map(entry => ({ ...entry, createdAt: new Date(entry.createdAt).toISOString() })) }, null, 2);
+
+// --- ColumnMappingEditor Component ---
+interface ColumnMappingEditorProps {
+  orgHeader: string[];
+  contactsHeader: string[] | null;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+const ColumnMappingEditor: React.FC<ColumnMappingEditorProps> = ({ orgHeader, contactsHeader, mapping, onChange, disabled }) => {
+  return (
+    <div className="column-mapping-grid">
+      {COLUMN_ROLE_DEFINITIONS.filter(definition => definition.sheet === 'organizations' || contactsHeader).map(definition => {
+        const header = definition.sheet === 'organizations' ? orgHeader : (contactsHeader ?? []);
+        const columnCount = Math.max(header.length, mapping[definition.role] + 1);
+        return (
+          <label key={definition.role} htmlFor={`mapping-${definition.role}`}>
+            {definition.label} <small>({definition.sheet === 'organizations' ? 'Organizations' : 'Contacts'})</small>
+            <select id={`mapping-${definition.role}`} value={mapping[definition.role]} onChange={(e) => onChange({ ...mapping, [definition.role]: Number(e.target.value) })} disabled={disabled}>
+              {Array.from({ length: columnCount }).map((_, index) => (<option key={index} value={index}>{describeColumn(header, index)}</option>))}
+              {definition.writable && mapping[definition.role] < header.length && <option value={header.length}>{columnIndexToLetter(header.length)} (add new column)</option>}
+            </select>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- Workbook Sheet Helpers ---
+interface WorkbookSheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+interface SheetRoles {
+  organizations: string;
+  contacts: string | null;
+}
+
+const readSheetRows = (workbook: XLSX.WorkBook, sheetName: string): string[][] =>
+  XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], { header: 1, defval: "" }).map(row => row.map(cell => String(cell ?? '')));
+
+const summarizeWorkbookSheets = (workbook: XLSX.WorkBook): WorkbookSheetSummary[] =>
+  workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, rowCount: 0, columnCount: 0 };
+    const range = XLSX.utils.decode_range(ref);
+    return { name, rowCount: range.e.r - range.s.r + 1, columnCount: range.e.c - range.s.c + 1 };
+  });
+
+// Picks the sheet whose header looks like contacts (has an email column) for Contacts, and the
+// largest remaining non-empty sheet for Organizations, so cover/notes sheets are skipped.
+const guessSheetRoles = (workbook: XLSX.WorkBook, summaries: WorkbookSheetSummary[]): SheetRoles => {
+  const nonEmpty = summaries.filter(sheet => sheet.rowCount > 1);
+  if (nonEmpty.length === 0) return { organizations: workbook.SheetNames[0], contacts: null };
+
+  const emailPattern = COLUMN_ROLE_DEFINITIONS.find(d => d.role === 'contactEmail')!.patterns[1];
+  const contactsSheet = nonEmpty.find(sheet => {
+    const header = readSheetRows(workbook, sheet.name)[0] ?? [];
+    return header.some(cell => emailPattern.test(cell)) && /contact|people|person/i.test(sheet.name);
+  }) ?? nonEmpty.find(sheet => (readSheetRows(workbook, sheet.name)[0] ?? []).some(cell => emailPattern.test(cell)));
+
+  const organizationCandidates = nonEmpty.filter(sheet => sheet.name !== contactsSheet?.name);
+  const organizationsSheet = organizationCandidates.find(sheet => /org|account|compan/i.test(sheet.name))
+    ?? [...organizationCandidates].sort((a, b) => b.rowCount - a.rowCount)[0];
+
+  if (!organizationsSheet) return { organizations: contactsSheet!.name, contacts: null };
+  return { organizations: organizationsSheet.name, contacts: contactsSheet?.name ?? null };
+};
+
+// --- Workbook Export Helpers ---
+const WORKBOOK_MIN_COLUMN_WIDTH = 8;
+const WORKBOOK_MAX_COLUMN_WIDTH = 60;
+const WORKBOOK_WRAP_COLUMN_WIDTH = 80;
+const RUN_REPORT_SHEET_NAME = 'Run Report';
+
+interface FormattedSheetOptions {
+  urlColumns?: number[];
+  wrapColumns?: number[];
+}
+
+const toHyperlinkTarget = (value: string): string => /^https?:\/\//i.test(value) ? value : `https://${value}`;
+
+const buildFormattedSheet = (data: string[][], options: FormattedSheetOptions = {}): XLSX.WorkSheet => {
+  const sheet = XLSX.utils.aoa_to_sheet(data);
+  const wrapColumns = options.wrapColumns ?? [];
+  const columnCount = data.reduce((max, row) => Math.max(max, row.length), 0);
+
+  sheet['!cols'] = Array.from({ length: columnCount }).map((_, colIndex) => {
+    if (wrapColumns.includes(colIndex)) return { wch: WORKBOOK_WRAP_COLUMN_WIDTH };
+    let longest = 0;
+    data.forEach(row => {
+      // Only the first line counts for multi-line cells; the rest wraps below it.
+      const firstLineLength = String(row[colIndex] ?? '').split('\n')[0].length;
+      if (firstLineLength > longest) longest = firstLineLength;
+    });
+    return { wch: Math.min(WORKBOOK_MAX_COLUMN_WIDTH, Math.max(WORKBOOK_MIN_COLUMN_WIDTH, longest + 2)) };
+  });
+
+  (options.urlColumns ?? []).forEach(colIndex => {
+    for (let rowIndex = 1; rowIndex < data.length; rowIndex++) {
+      const value = String(data[rowIndex][colIndex] ?? '').trim();
+      if (!isPlausibleUrl(value) || value.includes('@')) continue;
+      const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex, c: colIndex })];
+      if (cell) cell.l = { Target: toHyperlinkTarget(value), Tooltip: value };
+    }
+  });
+  return sheet;
+};
+
+/**
+ * SheetJS Community Edition writes column widths and hyperlinks but not frozen panes or cell
+ * styles, so the frozen header row and wrapped-text style are patched into the package XML
+ * after writing. `sheets` lists 0-based positions of the sheets to format.
+ */
+const applyWorkbookXmlFormatting = (xlsxData: ArrayBuffer, sheets: { index: number, wrapColumns: number[] }[]): Uint8Array => {
+  const container = XLSX.CFB.read(new Uint8Array(xlsxData), { type: 'array' });
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const readEntry = (path: string): string | null => {
+    const entry = XLSX.CFB.find(container, path);
+    return entry ? decoder.decode(entry.content) : null;
+  };
+  const writeEntry = (path: string, xml: string) => { XLSX.CFB.find(container, path).content = encoder.encode(xml); };
+
+  let wrapStyleIndex = -1;
+  if (sheets.some(sheet => sheet.wrapColumns.length > 0)) {
+    const stylesXml = readEntry('/xl/styles.xml');
+    const cellXfsMatch = stylesXml?.match(/<cellXfs count="(\d+)">([\s\S]*?)<\/cellXfs>/);
+    if (stylesXml && cellXfsMatch) {
+      wrapStyleIndex = Number(cellXfsMatch[1]);
+      const wrapXf = '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>';
+      writeEntry('/xl/styles.xml', stylesXml.replace(cellXfsMatch[0], `<cellXfs count="${wrapStyleIndex + 1}">${cellXfsMatch[2]}${wrapXf}</cellXfs>`));
+    }
+  }
+
+  sheets.forEach(({ index, wrapColumns }) => {
+    const path = `/xl/worksheets/sheet${index + 1}.xml`;
+    let sheetXml = readEntry(path);
+    if (!sheetXml) return;
+    sheetXml = sheetXml.replace(/<sheetView([^>]*?)\/>/, '<sheetView$1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>');
+    if (wrapStyleIndex !== -1 && wrapColumns.length > 0) {
+      const wrapLetters = new Set(wrapColumns.map(columnIndexToLetter));
+      sheetXml = sheetXml.replace(/<c r="([A-Z]+)(\d+)"([^>]*)>/g, (tag, letters, row, attributes) =>
+        wrapLetters.has(letters) && row !== '1' && !/\ss="/.test(attributes) ? `<c r="${letters}${row}" s="${wrapStyleIndex}"${attributes}>` : tag);
+    }
+    writeEntry(path, sheetXml);
+  });
+
+  return XLSX.CFB.write(container, { fileType: 'zip', type: 'array' });
+};
+
+// --- SheetRolePicker Component ---
+interface SheetRolePickerProps {
+  sheets: WorkbookSheetSummary[];
+  roles: SheetRoles;
+  onChange: (roles: SheetRoles) => void;
+  disabled?: boolean;
+}
+
+const SheetRolePicker: React.FC<SheetRolePickerProps> = ({ sheets, roles, onChange, disabled }) => {
+  return (
+    <table className="sheet-role-table">
+      <thead>
+        <tr><th>Sheet</th><th>Rows</th><th>Columns</th><th>Organizations</th><th>Contacts</th></tr>
+      </thead>
+      <tbody>
+        {sheets.map(sheet => (
+          <tr key={sheet.name}>
+            <td>{sheet.name}</td>
+            <td>{sheet.rowCount.toLocaleString()}</td>
+            <td>{sheet.columnCount.toLocaleString()}</td>
+            <td><input type="radio" name="organizationsSheet" aria-label={`Use "${sheet.name}" as Organizations`} checked={roles.organizations === sheet.name} onChange={() => onChange({ organizations: sheet.name, contacts: roles.contacts === sheet.name ? null : roles.contacts })} disabled={disabled} /></td>
+            <td><input type="radio" name="contactsSheet" aria-label={`Use "${sheet.name}" as Contacts`} checked={roles.contacts === sheet.name} onChange={() => onChange({ ...roles, contacts: sheet.name })} disabled={disabled || roles.organizations === sheet.name} /></td>
+          </tr>
+        ))}
+        <tr>
+          <td colSpan={4}><em>No contacts sheet</em></td>
+          <td><input type="radio" name="contactsSheet" aria-label="No contacts sheet" checked={roles.contacts === null} onChange={() => onChange({ ...roles, contacts: null })} disabled={disabled} /></td>
+        </tr>
+      </tbody>
+    </table>
+  );
+};
+
+// --- DatasetHistoryPanel Component ---
+interface DatasetHistoryPanelProps {
+  history: DatasetHistory;
+}
+
+const DatasetHistoryPanel: React.FC<DatasetHistoryPanelProps> = ({ history }) => {
+  if (!history.present) return null;
+  return (
+    <ol className="dataset-history-list">
+      {history.past.map((entry, index) => (
+        <li key={`past-${index}`}>{entry.label} <small>({new Date(entry.timestamp).toLocaleTimeString()})</small></li>
+      ))}
+      <li className="dataset-history-current">{history.present.label} <small>(current)</small></li>
+      {history.future.map((entry, index) => (
+        <li key={`future-${index}`} className="dataset-history-undone">{entry.label} <small>(undone)</small></li>
+      ))}
+    </ol>
+  );
+};
+
+// --- ChangeSetViewer Component ---
+interface ChangeSetViewerProps {
+  history: DatasetHistory;
+  onExport: (entry: DatasetHistoryEntry, changes: DatasetChange[]) => void;
+}
+
+const ChangeSetViewer: React.FC<ChangeSetViewerProps> = ({ history, onExport }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [typeFilter, setTypeFilter] = useState<DatasetChangeType | 'all'>('all');
+  const entries = history.present ? [...history.past, history.present] : [];
+  // Follows the latest step until the user picks another one.
+  const entryIndex = selectedIndex !== null && selectedIndex < entries.length ? selectedIndex : entries.length - 1;
+  const entry = entries[entryIndex] ?? null;
+
+  const filteredChanges = useMemo(() => entry ? entry.changes.filter(change => typeFilter === 'all' || change.type === typeFilter) : [], [entry, typeFilter]);
+  const changeTable = useMemo(() => entry ? previewDatasetFromTable(changeSetToTable(filteredChanges, entry.dataset.header)) : null, [entry, filteredChanges]);
+
+  if (!entry) return null;
+  const countByType = (type: DatasetChangeType) => entry.changes.filter(change => change.type === type).length;
+
+  return (
+    <div className="change-set-viewer">
+      <div className="csv-options-grid">
+        <label htmlFor="changeSetStep">Step:
+          <select id="changeSetStep" value={entryIndex} onChange={(e) => setSelectedIndex(Number(e.target.value))}>
+            {entries.map((historyEntry, index) => <option key={index} value={index}>{index + 1}. {historyEntry.label}</option>)}
+          </select>
+        </label>
+        <label htmlFor="changeSetType">Change Type:
+          <select id="changeSetType" value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as DatasetChangeType | 'all')}>
+            <option value="all">All ({entry.changes.length})</option>
+            {(Object.keys(DATASET_CHANGE_TYPE_LABELS) as DatasetChangeType[]).map(type => <option key={type} value={type}>{DATASET_CHANGE_TYPE_LABELS[type]} ({countByType(type)})</option>)}
+          </select>
+        </label>
+      </div>
+      {entry.changes.length === 0
+        ? <p className="help-text">This step recorded no changes.</p>
+        : <DataGrid data={changeTable} height={300} />}
+      <button onClick={() => onExport(entry, filteredChanges)} disabled={filteredChanges.length === 0}>Export Changes (CSV)</button>
+    </div>
+  );
+};
+
+// --- PipelineRecipeEditor Component ---
+const PIPELINE_STEP_STATUS_LABELS: Record<PipelineStepStatus, string> = {
+  pending: 'Pending',
+  running: 'Running...',
+  completed: 'Completed',
+  skipped: 'Skipped',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+interface PipelineRecipeEditorProps {
+  recipe: PipelineRecipe;
+  onChange: (recipe: PipelineRecipe) => void;
+  statuses: Partial<Record<PipelineStepType, PipelineStepStatus>>;
+  disabled?: boolean;
+}
+
+const PipelineRecipeEditor: React.FC<PipelineRecipeEditorProps> = ({ recipe, onChange, statuses, disabled }) => {
+  const updateStep = (index: number, step: PipelineStep) => onChange({ ...recipe, steps: recipe.steps.map((current, i) => i === index ? step : current) });
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...recipe.steps];
+    [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+    onChange({ ...recipe, steps });
+  };
+
+  return (
+    <div className="pipeline-recipe">
+      <label htmlFor="pipelineRecipeName">Recipe name:
+        <input type="text" id="pipelineRecipeName" value={recipe.name} onChange={(e) => onChange({ ...recipe, name: e.target.value })} disabled={disabled} />
+      </label>
+      <ol className="pipeline-steps">
+        {recipe.steps.map((step, index) => {
+          const definition = getPipelineStepDefinition(step.type);
+          const status = statuses[step.type];
+          return (
+            <li key={step.type} className={step.enabled ? undefined : 'pipeline-step-disabled'}>
+              <div className="pipeline-step-header">
+                <label htmlFor={`pipeline-step-${step.type}`} className="checkbox-label">
+                  <input type="checkbox" id={`pipeline-step-${step.type}`} checked={step.enabled} onChange={(e) => updateStep(index, { ...step, enabled: e.target.checked })} disabled={disabled} />
+                  {definition.label}
+                </label>
+                {status && <span className={`pipeline-step-status pipeline-step-status-${status}`}>{PIPELINE_STEP_STATUS_LABELS[status]}</span>}
+                <button type="button" onClick={() => moveStep(index, -1)} disabled={disabled || index === 0} aria-label={`Move "${definition.label}" up`}>↑</button>
+                <button type="button" onClick={() => moveStep(index, 1)} disabled={disabled || index === recipe.steps.length - 1} aria-label={`Move "${definition.label}" down`}>↓</button>
+              </div>
+              {definition.params.map(param => (
+                <label key={param.key} htmlFor={`pipeline-param-${step.type}-${param.key}`} className="pipeline-step-param">{param.label}:
+                  {param.kind === 'text'
+                    ? <input type="text" id={`pipeline-param-${step.type}-${param.key}`} value={String(step.params[param.key] ?? '')} onChange={(e) => updateStep(index, { ...step, params: { ...step.params, [param.key]: e.target.value } })} disabled={disabled} />
+                    : param.kind === 'choice'
+                    ? <select id={`pipeline-param-${step.type}-${param.key}`} value={String(step.params[param.key] ?? '')} onChange={(e) => updateStep(index, { ...step, params: { ...step.params, [param.key]: e.target.value } })} disabled={disabled}>
+                        {param.options!.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                      </select>
+                    : <input type="number" id={`pipeline-param-${step.type}-${param.key}`} min={param.min} max={param.max} value={Number(step.params[param.key] ?? 0)} onChange={(e) => updateStep(index, { ...step, params: { ...step.params, [param.key]: Math.min(param.max ?? Infinity, Math.max(param.min ?? 0, Math.floor(Number(e.target.value) || 0))) } })} disabled={disabled} />}
+                </label>
+              ))}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+// --- PromptTemplateEditor Component ---
+const PROMPT_PREVIEW_URL_ROW_COUNT = 3;
+
+interface PromptTemplateEditorProps {
+  library: PromptTemplateLibrary;
+  onChange: (library: PromptTemplateLibrary) => void;
+  sample: Dataset | null;
+  mapping: ColumnMapping;
+  enrichmentColumn?: EnrichmentColumn; // The enrichment preview renders for this column; the first preset without it.
+  disabled?: boolean;
+}
+
+// Edits a draft of the active version; saving the draft adds a version instead of overwriting, so earlier results stay traceable.
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ library, onChange, sample, mapping, enrichmentColumn, disabled }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('dossier');
+  const active = getActivePromptTemplate(library, templateId);
+  const [draft, setDraft] = useState<string>(active.text);
+  const [note, setNote] = useState<string>('');
+  const [sampleRowIndex, setSampleRowIndex] = useState<number>(0);
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[templateId];
+
+  useEffect(() => { setDraft(active.text); setNote(''); }, [templateId, active.version, active.text]);
+
+  const problems = useMemo(() => findPromptTemplateProblems(templateId, draft, sample?.header), [templateId, draft, sample]);
+  const sampleRowCount = sample?.rows.length ?? 0;
+  const previewRowIndex = Math.min(sampleRowIndex, Math.max(0, sampleRowCount - 1));
+  const preview = useMemo(() => {
+    if (!sample || sample.rows.length === 0) return '';
+    if (templateId === 'urlLookup') return buildUrlLookupPrompt(sample.rows.slice(0, PROMPT_PREVIEW_URL_ROW_COUNT), mapping, draft);
+    if (templateId === 'enrichment') {
+      const column = enrichmentColumn ?? { ...ENRICHMENT_COLUMN_PRESETS[0], id: 'preview', enabled: true, overwrite: false };
+      return buildEnrichmentPrompt(sample.rows.slice(0, PROMPT_PREVIEW_URL_ROW_COUNT), mapping, column, findColumnByHeader(sample.header, column.name), draft);
+    }
+    return renderPromptTemplate(draft, getDossierPromptContext(sample.header, sample.rows[previewRowIndex], mapping));
+  }, [templateId, draft, sample, mapping, enrichmentColumn, previewRowIndex]);
+  const nextVersion = Math.max(...library[templateId].versions.map(version => version.version)) + 1;
+
+  return (
+    <div className="prompt-template-editor">
+      <div className="csv-options-grid">
+        <label htmlFor="promptTemplateId">Template:
+          <select id="promptTemplateId" value={templateId} onChange={(e) => setTemplateId(e.target.value as PromptTemplateId)}>
+            {PROMPT_TEMPLATE_IDS.map(id => <option key={id} value={id}>{PROMPT_TEMPLATE_DEFINITIONS[id].label}</option>)}
+          </select>
+        </label>
+        <label htmlFor="promptTemplateVersion">Active version:
+          <select id="promptTemplateVersion" value={active.version} onChange={(e) => onChange({ ...library, [templateId]: { ...library[templateId], activeVersion: Number(e.target.value) } })} disabled={disabled}>
+            {library[templateId].versions.map(version => (
+              <option key={version.version} value={version.version}>
+                v{version.version}{version.note ? ` - ${version.note}` : ''}{version.savedAt ? ` (${new Date(version.savedAt).toLocaleString()})` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="help-text">
+        Variables: {definition.variables.map(variable => <React.Fragment key={variable.name}><code>{`{{${variable.name}}}`}</code> ({variable.description}), </React.Fragment>)}
+        {definition.allowsColumnVariables && <><code>{'{{column:Header}}'}</code> (any column by its header), </>}
+        and <code>{'{{name|fallback}}'}</code> to use fallback text when the value is empty.
+      </p>
+      <textarea id="promptTemplateText" value={draft} onChange={(e) => setDraft(e.target.value)} rows={12} disabled={disabled} spellCheck={false} />
+      {problems.length > 0 && <ul className="error-message">{problems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+      <div className="button-group">
+        <label htmlFor="promptTemplateNote" className="inline-checkbox">Version note:
+          <input type="text" id="promptTemplateNote" value={note} onChange={(e) => setNote(e.target.value)} disabled={disabled} />
+        </label>
+        <button type="button" onClick={() => onChange(addPromptTemplateVersion(library, templateId, draft, note.trim()))} disabled={disabled || draft === active.text || problems.length > 0}>Save as v{nextVersion}</button>
+        <button type="button" onClick={() => setDraft(active.text)} disabled={disabled || draft === active.text}>Discard Changes</button>
+      </div>
+      <h4>Preview</h4>
+      {templateId === 'dossier' && sampleRowCount > 0 && (
+        <label htmlFor="promptPreviewRow" className="inline-checkbox">Sample row:
+          <input type="number" id="promptPreviewRow" min={1} max={sampleRowCount} value={previewRowIndex + 1} onChange={(e) => setSampleRowIndex(Math.max(0, Math.floor(Number(e.target.value) || 1) - 1))} />
+        </label>
+      )}
+      {templateId !== 'dossier' && sampleRowCount > 0 && <small className="help-text">Rendered for the first {Math.min(PROMPT_PREVIEW_URL_ROW_COUNT, sampleRowCount)} row(s) as one batch{templateId === 'enrichment' ? ` of the "${enrichmentColumn?.name.trim() || ENRICHMENT_COLUMN_PRESETS[0].name}" column` : ''}.</small>}
+      <textarea id="promptTemplatePreview" value={preview || 'Load data to preview the prompt against a sample row.'} readOnly rows={10} />
+    </div>
+  );
+};
+
+// --- EnrichmentColumnsEditor Component ---
+interface EnrichmentColumnsEditorProps {
+  columns: EnrichmentColumn[];
+  onChange: (columns: EnrichmentColumn[]) => void;
+  header?: string[]; // With the mapping, shows which column each definition fills and keeps it off the mapped input columns.
+  mapping: ColumnMapping;
+  disabled?: boolean;
+}
+
+const EnrichmentColumnsEditor: React.FC<EnrichmentColumnsEditorProps> = ({ columns, onChange, header, mapping, disabled }) => {
+  const [presetName, setPresetName] = useState<string>('');
+  const updateColumn = (id: string, fields: Partial<EnrichmentColumn>) => onChange(columns.map(column => column.id === id ? { ...column, ...fields } : column));
+  const addColumn = () => {
+    const preset = ENRICHMENT_COLUMN_PRESETS.find(candidate => candidate.name === presetName);
+    onChange([...columns, createEnrichmentColumn(preset ? { ...preset, options: [...preset.options] } : {})]);
+    setPresetName('');
+  };
+
+  return (
+    <div className="enrichment-columns">
+      {columns.length === 0 && <p className="help-text">No enrichment columns yet. Add one from a preset or start from a blank column.</p>}
+      <ol className="pipeline-steps">
+        {columns.map(column => {
+          const problems = findEnrichmentColumnProblems(column, columns, header, mapping);
+          const existingColumn = header && column.name.trim() ? findColumnByHeader(header, column.name) : -1;
+          return (
+            <li key={column.id} className={column.enabled ? undefined : 'pipeline-step-disabled'}>
+              <div className="pipeline-step-header">
+                <label htmlFor={`enrichment-enabled-${column.id}`} className="checkbox-label">
+                  <input type="checkbox" id={`enrichment-enabled-${column.id}`} checked={column.enabled} onChange={(e) => updateColumn(column.id, { enabled: e.target.checked })} disabled={disabled} />
+                  {column.name.trim() || 'Unnamed column'}
+                </label>
+                <button type="button" onClick={() => onChange(columns.filter(other => other.id !== column.id))} disabled={disabled} aria-label={`Remove "${column.name.trim() || 'Unnamed column'}"`}>Remove</button>
+              </div>
+              <div className="csv-options-grid">
+                <label htmlFor={`enrichment-name-${column.id}`}>Column name:
+                  <input type="text" id={`enrichment-name-${column.id}`} value={column.name} onChange={(e) => updateColumn(column.id, { name: e.target.value })} disabled={disabled} />
+                </label>
+                <label htmlFor={`enrichment-type-${column.id}`}>Expected value:
+                  <select id={`enrichment-type-${column.id}`} value={column.valueType} onChange={(e) => updateColumn(column.id, { valueType: e.target.value as EnrichmentValueType })} disabled={disabled}>
+                    {ENRICHMENT_VALUE_TYPES.map(type => <option key={type} value={type}>{ENRICHMENT_VALUE_TYPE_LABELS[type]}</option>)}
+                  </select>
+                </label>
+                {column.valueType === 'enum' && (
+                  <label htmlFor={`enrichment-options-${column.id}`}>Allowed values (comma-separated):
+                    <input type="text" id={`enrichment-options-${column.id}`} defaultValue={column.options.join(', ')} onChange={(e) => updateColumn(column.id, { options: e.target.value.split(',').map(option => option.trim()).filter(option => option !== '') })} disabled={disabled} />
+                  </label>
+                )}
+                <label htmlFor={`enrichment-pattern-${column.id}`}>Validation rule (regular expression, optional):
+                  <input type="text" id={`enrichment-pattern-${column.id}`} value={column.pattern} onChange={(e) => updateColumn(column.id, { pattern: e.target.value })} spellCheck={false} disabled={disabled} />
+                </label>
+              </div>
+              <label htmlFor={`enrichment-instruction-${column.id}`} className="pipeline-step-param">Instruction:
+                <textarea id={`enrichment-instruction-${column.id}`} value={column.instruction} onChange={(e) => updateColumn(column.id, { instruction: e.target.value })} rows={2} disabled={disabled} />
+              </label>
+              <label htmlFor={`enrichment-overwrite-${column.id}`} className="checkbox-label pipeline-step-param">
+                <input type="checkbox" id={`enrichment-overwrite-${column.id}`} checked={column.overwrite} onChange={(e) => updateColumn(column.id, { overwrite: e.target.checked })} disabled={disabled} />
+                Look up rows that already have a value (otherwise only empty cells are filled)
+              </label>
+              <small className="help-text">
+                {existingColumn >= 0 ? `Fills existing column ${columnIndexToLetter(existingColumn)}. ` : 'Adds a new column after the last one. '}
+                Expected: {describeEnrichmentValueFormat(column)}
+              </small>
+              {problems.length > 0 && <ul className="error-message">{problems.map(problem => <li key={problem}>{problem}</li>)}</ul>}
+            </li>
+          );
+        })}
+      </ol>
+      <div className="button-group">
+        <label htmlFor="enrichmentPreset" className="inline-checkbox">New column:
+          <select id="enrichmentPreset" value={presetName} onChange={(e) => setPresetName(e.target.value)} disabled={disabled}>
+            <option value="">Blank column</option>
+            {ENRICHMENT_COLUMN_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name} disabled={columns.some(column => column.name.trim().toLowerCase() === preset.name.toLowerCase())}>{preset.name} ({ENRICHMENT_VALUE_TYPE_LABELS[preset.valueType]})</option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={addColumn} disabled={disabled}>Add Column</button>
+      </div>
+    </div>
+  );
+};
+
+// --- ResponseCacheManager Component ---
+interface ResponseCacheManagerProps {
+  settings: ResponseCacheSettings;
+  onChange: (settings: ResponseCacheSettings) => void;
+  stats: ResponseCacheStats;
+  summary: ResponseCacheSummary | null; // Null until first read.
+  onRefresh: () => void;
+  onExport: () => void;
+  onPurge: (expiredOnly: boolean) => void;
+  disabled?: boolean;
+}
+
+const ResponseCacheManager: React.FC<ResponseCacheManagerProps> = ({ settings, onChange, stats, summary, onRefresh, onExport, onPurge, disabled }) => {
+  const lookups = stats.hits + stats.misses;
+  return (
+    <div className="response-cache">
+      <label>
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} disabled={disabled} />
+        {' '}Reuse cached AI responses for URL lookups, enrichment columns and dossiers
+      </label>
+      <label>
+        Maximum age (days):{' '}
+        <input type="number" min={1} step={1} defaultValue={settings.maxAgeDays} aria-label="Maximum response cache age in days" onChange={(e) => { const days = Number(e.target.value); if (Number.isInteger(days) && days >= 1) onChange({ ...settings, maxAgeDays: days }); }} disabled={disabled} />
+      </label>
+      <ul>
+        <li>Hit rate this session: {lookups > 0 ? `${(stats.hits / lookups * 100).toFixed(1)}% (${stats.hits.toLocaleString()} of ${lookups.toLocaleString()} rows)` : 'no lookups yet'}</li>
+        {summary && <>
+          <li>Entries: {summary.entries.toLocaleString()}{summary.entries > 0 && ` (${AI_TASKS.filter(task => summary.taskCounts[task]).map(task => `${AI_TASK_LABELS[task]}: ${summary.taskCounts[task]!.toLocaleString()}`).join(', ')})`}</li>
+          <li>Approximate size: {(summary.bytes / 1024).toFixed(1)} KB</li>
+          <li>Older than {settings.maxAgeDays} day(s): {summary.expired.toLocaleString()}{summary.oldest !== null && `; oldest from ${new Date(summary.oldest).toLocaleString()}`}</li>
+        </>}
+      </ul>
+      <button type="button" onClick={onRefresh} disabled={disabled}>Refresh</button>
+      <button type="button" onClick={onExport} disabled={disabled || summary?.entries === 0}>Export Entries (JSON)</button>
+      <button type="button" onClick={() => onPurge(true)} disabled={disabled || summary?.expired === 0}>Purge Expired</button>
+      <button type="button" onClick={() => onPurge(false)} disabled={disabled || summary?.entries === 0}>Purge All</button>
+      <small className="help-text">Responses are stored in this browser, keyed by the organization name, the other values the prompt sends, the prompt template and the model. Editing a prompt template or switching models therefore starts fresh. Only dossiers that passed the quality checks are cached, and a stale-dossier refresh ignores entries older than its own threshold.</small>
+    </div>
+  );
+};
+
+// --- ModelSettingsEditor Component ---
+interface ModelSettingsEditorProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  provider: AiProvider | null; // Supplies the model a task uses when its model is left empty.
+  disabled?: boolean;
+}
+
+const parseOptionalNumber = (value: string): number | null => value.trim() === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+
+const ModelSettingsEditor: React.FC<ModelSettingsEditorProps> = ({ settings, onChange, provider, disabled }) => {
+  const [newModelId, setNewModelId] = useState<string>('');
+  // Numeric inputs are uncontrolled so partial entries such as "0." can be typed; resetting remounts them.
+  const [resetCount, setResetCount] = useState<number>(0);
+  const updateTask = (task: AiTask, changes: Partial<GenerationSettings>) => onChange({ ...settings, tasks: { ...settings.tasks, [task]: { ...settings.tasks[task], ...changes } } });
+  const updatePricing = (model: string, key: keyof ModelPricing, value: string) => onChange({ ...settings, pricing: { ...settings.pricing, [model]: { ...settings.pricing[model], [key]: Math.max(0, Number(value) || 0) } } });
+  const removePricing = (model: string) => { const { [model]: _removed, ...pricing } = settings.pricing; onChange({ ...settings, pricing }); };
+  const addPricing = () => {
+    onChange({ ...settings, pricing: { ...settings.pricing, [newModelId.trim()]: { inputPerMillionTokens: 0, outputPerMillionTokens: 0, groundingPerThousandRequests: 0, freeGroundingRequestsPerDay: 0 } } });
+    setNewModelId('');
+  };
+  const pricedModels = Object.keys(settings.pricing);
+
+  return (
+    <div className="model-settings">
+      <table className="model-settings-table">
+        <thead>
+          <tr><th>Task</th><th>Model</th><th>Temperature</th><th>Thinking budget (tokens)</th><th>Search grounding</th></tr>
+        </thead>
+        <tbody>
+          {AI_TASKS.map(task => {
+            const taskSettings = settings.tasks[task];
+            const model = taskSettings.model.trim() || provider?.models[AI_TASK_TIERS[task]] || '';
+            return (
+              <tr key={task}>
+                <td>{AI_TASK_LABELS[task]}{model && !settings.pricing[model] && <><br /><small className="help-text">{model} has no price below, so its calls are not costed.</small></>}</td>
+                <td><input type="text" list="pricedModelIds" aria-label={`${AI_TASK_LABELS[task]} model`} value={taskSettings.model} placeholder={provider ? `${provider.models[AI_TASK_TIERS[task]]} (provider default)` : 'Provider default'} onChange={(e) => updateTask(task, { model: e.target.value })} disabled={disabled} /></td>
+                <td><input type="number" key={`temperature-${task}-${resetCount}`} aria-label={`${AI_TASK_LABELS[task]} temperature`} min={0} max={2} step={0.1} placeholder="Default" defaultValue={taskSettings.temperature ?? ''} onChange={(e) => updateTask(task, { temperature: parseOptionalNumber(e.target.value) })} disabled={disabled} /></td>
+                <td><input type="number" key={`thinking-${task}-${resetCount}`} aria-label={`${AI_TASK_LABELS[task]} thinking budget`} min={0} step={128} placeholder="Default" defaultValue={taskSettings.thinkingBudget ?? ''} onChange={(e) => { const budget = parseOptionalNumber(e.target.value); updateTask(task, { thinkingBudget: budget === null ? null : Math.max(0, Math.floor(budget)) }); }} disabled={disabled} /></td>
+                <td><input type="checkbox" aria-label={`${AI_TASK_LABELS[task]} search grounding`} checked={taskSettings.grounded} onChange={(e) => updateTask(task, { grounded: e.target.checked })} disabled={disabled} /></td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <datalist id="pricedModelIds">
+        {pricedModels.map(model => <option key={model} value={model} />)}
+      </datalist>
+      <small className="help-text">Leave a field empty to use the model's default. Thinking budgets only apply to Gemini, and 0 turns thinking off where the model allows it. A grounded URL lookup on Gemini asks for its JSON in the prompt, as Gemini cannot combine search with a response schema.</small>
+      <h4>Pricing (USD)</h4>
+      <table className="model-settings-table">
+        <thead>
+          <tr><th>Model ID</th>{MODEL_PRICING_FIELDS.map(field => <th key={field.key}>{field.label}</th>)}<th></th></tr>
+        </thead>
+        <tbody>
+          {pricedModels.map(model => (
+            <tr key={`${model}-${resetCount}`}>
+              <td>{model}</td>
+              {MODEL_PRICING_FIELDS.map(field => (
+                <td key={field.key}><input type="number" aria-label={`${model} ${field.label}`} min={0} step="any" defaultValue={settings.pricing[model][field.key]} onChange={(e) => updatePricing(model, field.key, e.target.value)} disabled={disabled} /></td>
+              ))}
+              <td><button type="button" onClick={() => removePricing(model)} disabled={disabled} aria-label={`Remove pricing for ${model}`}>Remove</button></td>
+            </tr>
+          ))}
+          <tr>
+            <td colSpan={MODEL_PRICING_FIELDS.length + 2}>
+              <input type="text" aria-label="New model ID" placeholder="Model ID" value={newModelId} onChange={(e) => setNewModelId(e.target.value)} disabled={disabled} />
+              <button type="button" onClick={addPricing} disabled={disabled || !newModelId.trim() || newModelId.trim() in settings.pricing}>Add Model</button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <button type="button" onClick={() => { onChange(DEFAULT_MODEL_SETTINGS); setResetCount(count => count + 1); }} disabled={disabled}>Reset to Defaults</button>
+    </div>
+  );
+};
+
+// --- DossierViewer Component ---
+interface DossierPreviewProps {
+  markdown: string;
+  idPrefix: string;
+}
+
+const DossierPreview: React.FC<DossierPreviewProps> = ({ markdown, idPrefix }) => {
+  const html = useMemo(() => renderDossierHtml(markdown, idPrefix), [markdown, idPrefix]);
+  // renderDossierHtml escapes raw HTML and drops unsafe links, so the markup is safe to inject.
+  return <div className="dossier-preview" dangerouslySetInnerHTML={{ __html: html }} />;
 };
 
-// --- Plausible URL Check Helper ---
-const isPlausibleUrl = (url: string): boolean => {
-  const trimmedUrl = String(url ?? '').trim();
-  if (trimmedUrl === '') return false;
-  if (!trimmedUrl.includes('.')) return false;
-  // Avoid treating email addresses as plausible website URLs
-  if (trimmedUrl.includes('@') && GENERIC_EMAIL_DOMAINS.some(domain => trimmedUrl.endsWith(domain))) return false;
-  if (GENERIC_EMAIL_DOMAINS.some(domain => normalizeUrlForComparison(trimmedUrl) === domain)) return false;
-  return true;
+interface DossierViewerProps {
+  data: Dataset;
+  mapping: ColumnMapping;
+  onExportBundle: () => void;
+  disabled?: boolean;
+}
+
+const DossierViewer: React.FC<DossierViewerProps> = ({ data, mapping, onExportBundle, disabled }) => {
+  const entries = useMemo(() => collectDossierEntries(data, mapping), [data, mapping]);
+  const [selectedRowId, setSelectedRowId] = useState<string>('');
+  const selected = entries.find(entry => entry.rowId === selectedRowId) ?? entries[0];
+
+  if (!selected) return <p className="help-text">No row holds a dossier yet. Dossiers generated in step 3 can be read here.</p>;
+  return (
+    <div className="dossier-viewer">
+      <div className="dossier-viewer-toolbar">
+        <label htmlFor="dossierViewerRow">Organization:
+          <select id="dossierViewerRow" value={selected.rowId} onChange={(e) => setSelectedRowId(e.target.value)}>
+            {entries.map(entry => (
+              <option key={entry.rowId} value={entry.rowId}>{entry.rowNumber}. {entry.organization}{entry.quality.startsWith('Needs review') ? ' (needs review)' : ''}</option>
+            ))}
+          </select>
+        </label>
+        <button type="button" onClick={onExportBundle} disabled={disabled}>Export All ({entries.length}) as .zip</button>
+      </div>
+      {selected.quality && <p className="help-text">Quality: {selected.quality}</p>}
+      <DossierPreview markdown={selected.markdown} idPrefix={`dossier-row-${selected.rowNumber}`} />
+    </div>
+  );
 };
 
+// --- DataGrid Component ---
+const DATA_GRID_ROW_HEIGHT = 32;
+const DATA_GRID_OVERSCAN_ROWS = 10;
+const DATA_GRID_COLUMN_WIDTH = 180;
+const DATA_GRID_ROW_NUMBER_WIDTH = 64;
 
-// --- DataTableDisplay Component ---
-interface DataTableDisplayProps {
-  data: string[][] | null;
+type DataGridSortDirection = 'asc' | 'desc';
+
+interface DataGridProps {
+  data: Dataset | null;
   caption?: string;
+  urlColumn?: number;
+  onCellEdit?: (rowId: string, colIndex: number, value: string) => void;
+  disabled?: boolean;
+  height?: number;
+  selectedRowIds?: ReadonlySet<string>;
+  onSelectionChange?: (rowIds: Set<string>) => void; // Shows a checkbox per row when set.
 }
 
-const DataTableDisplay: React.FC<DataTableDisplayProps> = ({ data, caption }) => {
-  if (!data || data.length === 0) {
+// Only the rows inside the scroll viewport (plus an overscan margin) are rendered, so large datasets stay responsive.
+const DataGrid: React.FC<DataGridProps> = ({ data, caption, urlColumn, onCellEdit, disabled, height = 360, selectedRowIds, onSelectionChange }) => {
+  const [sort, setSort] = useState<{ column: number, direction: DataGridSortDirection } | null>(null);
+  const [filters, setFilters] = useState<string[]>([]);
+  const [editingCell, setEditingCell] = useState<{ rowId: string, column: number, value: string } | null>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const columnCount = useMemo(() => {
+    if (!data) return 0;
+    let count = data.header.length;
+    data.rows.forEach(row => { count = Math.max(count, row.cells.length); });
+    return count;
+  }, [data]);
+
+  // Pairs each row with its position in the dataset so the row number column stays meaningful after sorting and filtering.
+  const visibleRows = useMemo(() => {
+    if (!data) return [];
+    const activeFilters = filters.map((text, column) => ({ column, text: text.trim().toLowerCase() })).filter(f => f.text !== '');
+    let rows = data.rows.map((row, index) => ({ row, index }));
+    if (activeFilters.length > 0) {
+      rows = rows.filter(({ row }) => activeFilters.every(f => String(row.cells[f.column] ?? '').toLowerCase().includes(f.text)));
+    }
+    if (sort) {
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      rows.sort((a, b) => factor * String(a.row.cells[sort.column] ?? '').localeCompare(String(b.row.cells[sort.column] ?? ''), undefined, { numeric: true, sensitivity: 'base' }));
+    }
+    return rows;
+  }, [data, filters, sort]);
+
+  if (!data || (data.header.length === 0 && data.rows.length === 0)) {
     return caption ? <p>{caption} - No data to display.</p> : <p>No data to display.</p>;
   }
 
-  const headerRow = data[0];
-  const bodyRows = data.slice(1);
+  const firstRenderedRow = Math.max(0, Math.floor(scrollTop / DATA_GRID_ROW_HEIGHT) - DATA_GRID_OVERSCAN_ROWS);
+  const lastRenderedRow = Math.min(visibleRows.length, Math.ceil((scrollTop + height) / DATA_GRID_ROW_HEIGHT) + DATA_GRID_OVERSCAN_ROWS);
+  const renderedRows = visibleRows.slice(firstRenderedRow, lastRenderedRow);
+  const columns = Array.from({ length: columnCount }, (_, column) => column);
+  const isEditable = !!onCellEdit && !disabled;
+
+  const cycleSort = (column: number) => {
+    setSort(prev => {
+      if (!prev || prev.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const updateFilter = (column: number, text: string) => {
+    setFilters(prev => {
+      const next = [...prev];
+      while (next.length <= column) next.push('');
+      next[column] = text;
+      return next;
+    });
+  };
+
+  const finishEditing = (commit: boolean) => {
+    if (!editingCell) return;
+    const row = data.rows.find(r => r.id === editingCell.rowId);
+    if (commit && onCellEdit && row && String(row.cells[editingCell.column] ?? '') !== editingCell.value) {
+      onCellEdit(editingCell.rowId, editingCell.column, editingCell.value);
+    }
+    setEditingCell(null);
+  };
+
+  const hasActiveFilter = filters.some(text => text.trim() !== '');
+
+  // The header checkbox acts on the rows left by the filters, so a filter followed by "select all" picks out a subset.
+  const selection = selectedRowIds ?? new Set<string>();
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(({ row }) => selection.has(row.id));
+  const selectedCount = onSelectionChange ? data.rows.filter(row => selection.has(row.id)).length : 0;
+  const toggleRowSelection = (rowId: string, selected: boolean) => {
+    const next = new Set(selection);
+    if (selected) next.add(rowId); else next.delete(rowId);
+    onSelectionChange?.(next);
+  };
+  const toggleVisibleSelection = (selected: boolean) => {
+    const next = new Set(selection);
+    visibleRows.forEach(({ row }) => { if (selected) next.add(row.id); else next.delete(row.id); });
+    onSelectionChange?.(next);
+  };
 
   return (
-    <div style={{ maxHeight: '300px', overflowY: 'auto', border: '1px solid #ccc', marginBottom: '1rem' }}>
-      {caption && <h4 style={{textAlign: 'center', margin: '0.5rem 0'}}>{caption}</h4>}
-      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
-        <thead>
-          <tr>
-            {headerRow.map((header, index) => (
-              <th key={index} style={{ border: '1px solid #ddd', padding: '8px', textAlign: 'left', backgroundColor: '#f2f2f2' }}>
-                {String(header ?? '')}
+    <div className="data-grid">
+      {caption && <h4 className="data-grid-caption">{caption}</h4>}
+      <div className="data-grid-viewport" style={{ maxHeight: `${height}px` }} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+        <table className="data-grid-table" style={{ width: `${DATA_GRID_ROW_NUMBER_WIDTH + columnCount * DATA_GRID_COLUMN_WIDTH}px` }}>
+          <colgroup>
+            <col style={{ width: `${DATA_GRID_ROW_NUMBER_WIDTH}px` }} />
+            {columns.map(column => <col key={column} style={{ width: `${DATA_GRID_COLUMN_WIDTH}px` }} />)}
+          </colgroup>
+          <thead>
+            <tr>
+              <th className="data-grid-row-number">
+                {onSelectionChange
+                  ? <input type="checkbox" checked={allVisibleSelected} onChange={(e) => toggleVisibleSelection(e.target.checked)} aria-label={hasActiveFilter ? 'Select all filtered rows' : 'Select all rows'} />
+                  : '#'}
               </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody>
-          {bodyRows.map((row, rowIndex) => (
-            <tr key={rowIndex}>
-              {row.map((cell, cellIndex) => (
-                <td key={cellIndex} style={{ border: '1px solid #ddd', padding: '8px' }}>
-                  {String(cell ?? '')}
-                </td>
-              ))}
-              {/* Pad rows with fewer cells than header */}
-              {row.length < headerRow.length && Array.from({ length: headerRow.length - row.length }).map((_, padIndex) => (
-                <td key={`pad-${padIndex}`} style={{ border: '1px solid #ddd', padding: '8px' }}></td>
+              {columns.map(column => (
+                <th key={column} aria-sort={sort?.column === column ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+                  <button type="button" className="data-grid-sort-button" onClick={() => cycleSort(column)} title={`Sort by ${describeColumn(data.header, column)}`}>
+                    {data.header[column] || columnIndexToLetter(column)}
+                    {sort?.column === column && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                  </button>
+                  <input type="text" className="data-grid-filter" placeholder="Filter..." value={filters[column] ?? ''} onChange={(e) => updateFilter(column, e.target.value)} aria-label={`Filter ${describeColumn(data.header, column)}`} />
+                </th>
               ))}
             </tr>
-          ))}
-           {bodyRows.length === 0 && (
-            <tr>
-              <td colSpan={headerRow.length} style={{ textAlign: 'center', padding: '8px' }}>
-                No data rows.
-              </td>
-            </tr>
-          )}
-        </tbody>
-      </table>
+          </thead>
+          <tbody>
+            {firstRenderedRow > 0 && <tr aria-hidden="true" style={{ height: `${firstRenderedRow * DATA_GRID_ROW_HEIGHT}px` }} />}
+            {renderedRows.map(({ row, index }) => (
+              <tr key={row.id} style={{ height: `${DATA_GRID_ROW_HEIGHT}px` }}>
+                <td className="data-grid-row-number">
+                  {onSelectionChange && <input type="checkbox" checked={selection.has(row.id)} onChange={(e) => toggleRowSelection(row.id, e.target.checked)} aria-label={`Select row ${index + 1}`} />}
+                  {index + 1}
+                </td>
+                {columns.map(column => {
+                  const value = String(row.cells[column] ?? '');
+                  if (editingCell && editingCell.rowId === row.id && editingCell.column === column) {
+                    return (
+                      <td key={column} className="data-grid-cell-editing">
+                        <input type="text" autoFocus value={editingCell.value} aria-label={`Edit ${describeColumn(data.header, column)} in row ${index + 1}`}
+                          onChange={(e) => setEditingCell({ ...editingCell, value: e.target.value })}
+                          onBlur={() => finishEditing(true)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') finishEditing(true); else if (e.key === 'Escape') finishEditing(false); }} />
+                      </td>
+                    );
+                  }
+                  const provenance = row.provenance?.[column];
+                  const classNames = [
+                    column === urlColumn && value.trim() === '' ? 'data-grid-cell-empty-url' : '',
+                    provenance ? `data-grid-cell-${provenance.source.replace('_', '-')}` : '',
+                  ].filter(Boolean).join(' ');
+                  const hoverText = provenance
+                    ? [value, '', `Source: ${CELL_PROVENANCE_SOURCE_LABELS[provenance.source]}`, `Method: ${provenance.method}`, ...(provenance.promptVersion ? [`Prompt: ${provenance.promptVersion}`] : []), `When: ${new Date(provenance.timestamp).toLocaleString()}`, ...(provenance.groundingUris?.length ? ['Grounding:', ...provenance.groundingUris] : [])].join('\n')
+                    : value;
+                  return (
+                    <td key={column} className={classNames || undefined} title={hoverText || undefined}
+                      onDoubleClick={isEditable ? () => setEditingCell({ rowId: row.id, column, value }) : undefined}>
+                      {value}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {lastRenderedRow < visibleRows.length && <tr aria-hidden="true" style={{ height: `${(visibleRows.length - lastRenderedRow) * DATA_GRID_ROW_HEIGHT}px` }} />}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={columnCount + 1} style={{ textAlign: 'center' }}>
+                  {data.rows.length === 0 ? 'No data rows.' : 'No rows match the filters.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <small className="help-text">
+        {hasActiveFilter ? `${visibleRows.length.toLocaleString()} of ${data.rows.length.toLocaleString()} rows match the filters.` : `${data.rows.length.toLocaleString()} rows.`}
+        {selectedCount > 0 ? ` ${selectedCount.toLocaleString()} selected.` : ''}
+        {' '}Click a column name to sort.{isEditable ? ' Double-click a cell to edit it (Enter saves, Escape cancels).' : ''}
+      </small>
     </div>
   );
 };
 
 interface CurrentOperationStats {
-  operationType: 'test_url' | 'full_url' | 'test_dossier' | 'full_dossier' | null;
-  status: 'idle' | 'estimating_input' | 'running' | 'completed' | 'error';
+  operationType: 'test_url' | 'full_url' | 'test_dossier' | 'full_dossier' | 'full_enrichment' | null;
+  status: 'idle' | 'estimating_input' | 'running' | 'paused' | 'completed' | 'cancelled' | 'error';
   inputTokens: number;
   outputTokens: number;
   apiRequests: number;
@@ -215,24 +3828,90 @@ const initialCurrentOperationStats: CurrentOperationStats = {
   progressMessage: '',
 };
 
+interface PendingImport {
+  orgsData: string[][];
+  contactsData: string[][] | null;
+  source: 'csv' | 'excel';
+}
+
 interface PreRunEstimation {
+  model: string;
+  grounded: boolean;
   inputTokens: number;
   apiRequests: number;
   estimatedInputCost: number;
+  cachedRows: number; // Rows the response cache answers, which are left out of the estimate.
+}
+
+interface DossierRunEstimation {
+  refreshMode: DossierRefreshMode;
+  refreshDescription: string;
+  modeCounts: Record<DossierRefreshMode, number>;
+  staleAfterDays: number;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+// What differs between the columns filled by runBatchedLookup: the website URL and each enrichment column.
+interface BatchedLookupJob {
+  operation: 'full_url' | 'full_enrichment';
+  task: AiTask;
+  templateId: PromptTemplateId;
+  stepType: PipelineStepType; // Supplies the batch size and retries.
+  mapping: ColumnMapping;
+  title: string; // For progress messages, e.g. "URL finding".
+  logPrefix: string;
+  runLabel: string; // Label of the run's history entry.
+  foundNoun: string; // What the run counts, e.g. "URLs".
+  header: string[]; // Header of the run's data; may add the output column.
+  column: number;
+  targetRowIds?: string[];
+  enrichmentColumn?: EnrichmentColumn;
+  initialFailureRate: number;
+  needsLookup: (row: DatasetRow) => boolean;
+  buildPrompt: (rows: DatasetRow[], templateText: string) => string;
+  responseSchema: Schema;
+  parseResponse: (text: string, expectedIds: string[], batchLabel: string) => { results: EnrichmentResult[], missingIds: string[] };
+  provenanceSource: CellProvenanceSource;
+  clearWhenNotFound: boolean; // Write an empty value over the cell when the model finds nothing.
+  cacheHints: (row: DatasetRow) => string[]; // The row values the prompt sends besides the name, for the response cache key.
+  cacheSalt?: string; // Anything else the prompt is rendered from, e.g. the enrichment column definition.
+}
+
+interface BatchedLookupSummary {
+  outcome: PipelineStepOutcome;
+  foundCount: number;
+  unresolvedRowIds: string[];
+  skippedBatchNumbers: number[];
+  failureRate: number;
 }
 
 
 const App: React.FC = () => {
-  const [csvData, setCsvData] = useState<string[][]>([]);
-  const [displayData, setDisplayData] = useState<string>('');
+  const datasetStore = useDatasetStore();
+  const { dataset, getDataset } = datasetStore;
   const [fileName, setFileName] = useState<string>('edited_data.csv');
   const [rawContactsSheetData, setRawContactsSheetData] = useState<string[][] | null>(null);
+  const [csvImportOptions, setCsvImportOptions] = useState<CsvParseOptions>({});
+  const [csvExportOptions, setCsvExportOptions] = useState<CsvStringifyOptions>({ delimiter: ',', lineEnding: '\n', bom: false });
+  const [detectedCsvDialect, setDetectedCsvDialect] = useState<CsvDialect | null>(null);
+  const [csvParseIssues, setCsvParseIssues] = useState<CsvParseIssue[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(DEFAULT_COLUMN_MAPPING);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [sourceWorkbook, setSourceWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [workbookSheetSummaries, setWorkbookSheetSummaries] = useState<WorkbookSheetSummary[]>([]);
+  const [sheetRoles, setSheetRoles] = useState<SheetRoles | null>(null);
+  const [includeRunReportSheet, setIncludeRunReportSheet] = useState<boolean>(false);
+  const [provenanceExport, setProvenanceExport] = useState<'none' | 'columns' | 'sidecar'>('none');
+  const [dossierExport, setDossierExport] = useState<'none' | 'columns' | 'jsonl'>('none');
+  const [isDossierViewerOpen, setIsDossierViewerOpen] = useState<boolean>(false);
   const [displayableCorrectedContactsData, setDisplayableCorrectedContactsData] = useState<string[][] | null>(null);
   
   const [isLoading, setIsLoading] = useState<boolean>(false); // Primarily for URL finding full run
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [activityLog, setActivityLog] = useState<string[]>([]);
-  const [aiGroundingSources, setAiGroundingSources] = useState<any[]>([]);
   const activityLogRef = useRef<HTMLTextAreaElement>(null);
 
   // Test states
@@ -240,19 +3919,19 @@ const App: React.FC = () => {
   const [correctedContactsTestDataForTable, setCorrectedContactsTestDataForTable] = useState<string[][] | null>(null);
   const [isTestingContactCorrection, setIsTestingContactCorrection] = useState<boolean>(false);
   
-  const [preprocessedTestDataForTable, setPreprocessedTestDataForTable] = useState<string[][] | null>(null);
+  const [preprocessedTestDataForTable, setPreprocessedTestDataForTable] = useState<Dataset | null>(null);
   const [isTestingPreprocessing, setIsTestingPreprocessing] = useState<boolean>(false);
   
-  const [deletedPlaceholderDescRowsTestDataForTable, setDeletedPlaceholderDescRowsTestDataForTable] = useState<string[][] | null>(null);
+  const [deletedPlaceholderDescRowsTestDataForTable, setDeletedPlaceholderDescRowsTestDataForTable] = useState<Dataset | null>(null);
   const [isTestingPlaceholderDescRowDeletion, setIsTestingPlaceholderDescRowDeletion] = useState<boolean>(false);
 
-  const [deletedMostlyEmptyRowsTestDataForTable, setDeletedMostlyEmptyRowsTestDataForTable] = useState<string[][] | null>(null);
+  const [deletedMostlyEmptyRowsTestDataForTable, setDeletedMostlyEmptyRowsTestDataForTable] = useState<Dataset | null>(null);
   const [isTestingMostlyEmptyRowDeletion, setIsTestingMostlyEmptyRowDeletion] = useState<boolean>(false);
 
-  const [mergedTestDataForTable, setMergedTestDataForTable] = useState<string[][] | null>(null);
+  const [mergedTestDataForTable, setMergedTestDataForTable] = useState<Dataset | null>(null);
   const [isTestingMergingDuplicates, setIsTestingMergingDuplicates] = useState<boolean>(false);
   
-  const [aiTestedDataForTable, setAiTestedDataForTable] = useState<string[][] | null>(null); // For URL finding test
+  const [aiTestedDataForTable, setAiTestedDataForTable] = useState<Dataset | null>(null); // For URL finding test
   const [isTestingAiOnPreprocessed, setIsTestingAiOnPreprocessed] = useState<boolean>(false); // For URL finding test
   
   const [detailedDescriptionTestOutput, setDetailedDescriptionTestOutput] = useState<string | null>(null);
@@ -264,10 +3943,27 @@ const App: React.FC = () => {
   const [isPerformingFullMostlyEmptyRowDeletion, setIsPerformingFullMostlyEmptyRowDeletion] = useState<boolean>(false);
   const [isMergingDuplicatesFull, setIsMergingDuplicatesFull] = useState<boolean>(false);
   const [skippedBatchNumbers, setSkippedBatchNumbers] = useState<number[]>([]);
+  const [isEnrichingColumns, setIsEnrichingColumns] = useState<boolean>(false);
   const [isGeneratingFullDescriptions, setIsGeneratingFullDescriptions] = useState<boolean>(false);
+  const [pipelineRecipe, setPipelineRecipe] = useState<PipelineRecipe>(DEFAULT_PIPELINE_RECIPE);
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<string>>(new Set()); // Rows ticked in the main grid, for the "selected rows" dossier mode.
+  const [pipelineStepStatuses, setPipelineStepStatuses] = useState<Partial<Record<PipelineStepType, PipelineStepStatus>>>({});
+  const [isRunningPipeline, setIsRunningPipeline] = useState<boolean>(false);
+  const [pendingRunCheckpoint, setPendingRunCheckpoint] = useState<RunCheckpoint | null>(null);
+  const checkpointSavesRef = useRef<{ state: RunCheckpointSaveState | null, queue: Promise<void> }>({ state: null, queue: Promise.resolve() });
+  const [unresolvedUrlRowIds, setUnresolvedUrlRowIds] = useState<string[]>([]);
+  const [urlBatchFailureRate, setUrlBatchFailureRate] = useState<number>(0);
+  const [runControlState, setRunControlState] = useState<RunControlState | null>(null);
+  const [isRunPausable, setIsRunPausable] = useState<boolean>(false);
+  // Pause and cancel requests for the AI run in progress; handlers check them at row and batch boundaries.
+  const runControlRef = useRef<{ controller: AbortController, paused: boolean, resumeWaiters: (() => void)[] } | null>(null);
+  const [rateLimits, setRateLimits] = useState<Record<ModelTier, RateLimits>>(loadRateLimits);
+  // One limiter per model for the whole session, so test calls, URL batches and dossier workers share the same quota.
+  const [rateLimiters] = useState<Record<ModelTier, RateLimiter>>(() => ({ flash: createRateLimiter(rateLimits.flash), pro: createRateLimiter(rateLimits.pro) }));
 
   // Token Counting & Cost Estimation State
   const [preRunEstimation, setPreRunEstimation] = useState<PreRunEstimation | null>(null);
+  const [dossierRunEstimation, setDossierRunEstimation] = useState<DossierRunEstimation | null>(null);
   const [isEstimatingCost, setIsEstimatingCost] = useState<boolean>(false);
   const [currentOperationStats, setCurrentOperationStats] = useState<CurrentOperationStats>(initialCurrentOperationStats);
 
@@ -275,9 +3971,36 @@ const App: React.FC = () => {
   const [totalInputTokens, setTotalInputTokens] = useState<number>(0);
   const [totalOutputTokens, setTotalOutputTokens] = useState<number>(0);
   const [totalApiRequestsMade, setTotalApiRequestsMade] = useState<number>(0); 
-  const [estimatedCost, setEstimatedCost] = useState<number>(0); 
-
-  const genAI = GEMINI_API_KEY ? new GoogleGenAI({ apiKey: GEMINI_API_KEY }) : null;
+  const [estimatedCost, setEstimatedCost] = useState<number>(0); // Tokens only; grounding is added from groundedRequestsByTask.
+  const [groundedRequestsByTask, setGroundedRequestsByTask] = useState<Partial<Record<AiTask, number>>>({});
+
+  const [aiProviderSettings, setAiProviderSettings] = useState<AiProviderSettings>(loadAiProviderSettings);
+  const configuredAiProvider = useMemo(() => createAiProvider(aiProviderSettings, GEMINI_API_KEY), [aiProviderSettings]);
+  const [cassetteMode, setCassetteMode] = useState<CassetteMode>('off');
+  const [replayCassette, setReplayCassette] = useState<Cassette | null>(null);
+  const [recordedCassetteEntryCount, setRecordedCassetteEntryCount] = useState<number>(0);
+  // Entries are collected outside state so that recording does not re-render on every call.
+  const recordedCassetteEntriesRef = useRef<CassetteEntry[]>([]);
+  const aiProvider = useMemo(() => {
+    if (cassetteMode === 'replay') return replayCassette && createReplayProvider(replayCassette);
+    if (cassetteMode === 'record' && configuredAiProvider) return createRecordingProvider(configuredAiProvider, entry => { recordedCassetteEntriesRef.current.push(entry); setRecordedCassetteEntryCount(recordedCassetteEntriesRef.current.length); });
+    return configuredAiProvider;
+  }, [cassetteMode, replayCassette, configuredAiProvider]);
+
+  useEffect(() => { saveAiProviderSettings(aiProviderSettings); }, [aiProviderSettings]);
+
+  const [promptLibrary, setPromptLibrary] = useState<PromptTemplateLibrary>(loadPromptLibrary);
+  useEffect(() => { savePromptLibrary(promptLibrary); }, [promptLibrary]);
+
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  useEffect(() => { saveModelSettings(modelSettings); }, [modelSettings]);
+
+  const [enrichmentColumns, setEnrichmentColumns] = useState<EnrichmentColumn[]>(loadEnrichmentColumns);
+  useEffect(() => { saveEnrichmentColumns(enrichmentColumns); }, [enrichmentColumns]);
+  const [responseCacheSettings, setResponseCacheSettings] = useState<ResponseCacheSettings>(loadResponseCacheSettings);
+  useEffect(() => { saveResponseCacheSettings(responseCacheSettings); }, [responseCacheSettings]);
+  const [responseCacheStats, setResponseCacheStats] = useState<ResponseCacheStats>({ hits: 0, misses: 0 });
+  const [responseCacheSummary, setResponseCacheSummary] = useState<ResponseCacheSummary | null>(null);
 
   const addLog = useCallback((message: string) => {
     setActivityLog(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${message}`]);
@@ -289,40 +4012,137 @@ const App: React.FC = () => {
     }
   }, [activityLog]);
 
-  const updateDisplayData = (data: string[][], source: string, message?: string) => {
-    setCsvData(data); 
-    try {
-      setDisplayData(JSON.stringify(data, null, 2));
-      if (message) {
-        setStatusMessage(message);
-        if(!source.toLowerCase().includes('test') && !source.toLowerCase().includes('incremental')) addLog(message); 
-      } else if (source === 'csv' || source === 'excel') {
-        const msg = `${source === 'csv' ? 'CSV' : 'Excel'} data loaded. You can now process it.`;
-        setStatusMessage(msg);
-        addLog(msg);
-      } else if (source === 'ai_url_find') {
-        const msg = 'AI URL finding complete for all batches. Review data and download if correct.';
-        setStatusMessage(msg);
-        addLog(msg);
-      } else if (source === 'ai_dossier_gen') {
-          const msg = 'AI Dossier generation complete for all rows. Review data and download if correct.';
-          setStatusMessage(msg);
-          addLog(msg);
+  useEffect(() => {
+    loadRunCheckpoint().then(checkpoint => {
+      if (!checkpoint) return;
+      setPendingRunCheckpoint(checkpoint);
+      addLog(`Checkpoint: Found an interrupted ${RUN_CHECKPOINT_OPERATION_LABELS[checkpoint.operation]} run on ${checkpoint.fileName} (${checkpoint.completedRowIds.length} of ${checkpoint.initialDataset.rows.length} rows already sent to the AI).`);
+    }).catch(e => addLog(`Checkpoint: Could not read saved run progress: ${e instanceof Error ? e.message : String(e)}`));
+  }, [addLog]);
+
+  // Records a processing step as a new undoable history entry, with its change set against the current data, and reports it.
+  const commitDataset = (data: Dataset, label: string, message: string, removals?: Map<string, DatasetRemoval>, mapping: ColumnMapping = columnMapping) => {
+    const previous = getDataset();
+    datasetStore.commit(data, label, previous ? diffDatasets(previous, data, mapping.orgName, removals) : []);
+    setStatusMessage(message);
+    addLog(message);
+  };
+
+  // Starts pause/cancel control for a run. A step started by the pipeline shares the pipeline's control, so Cancel stops both.
+  const beginRunControl = (pausable: boolean): { signal: AbortSignal, owned: boolean } => {
+    if (runControlRef.current) return { signal: runControlRef.current.controller.signal, owned: false };
+    const control = { controller: new AbortController(), paused: false, resumeWaiters: [] };
+    runControlRef.current = control;
+    setRunControlState('running'); setIsRunPausable(pausable);
+    return { signal: control.controller.signal, owned: true };
+  };
+
+  const endRunControl = (owned: boolean) => {
+    if (!owned) return;
+    runControlRef.current = null;
+    setRunControlState(null); setIsRunPausable(false);
+  };
+
+  // Holds the run at a row or batch boundary while it is paused. Returns false once the run has been cancelled.
+  const waitIfPaused = async (): Promise<boolean> => {
+    const control = runControlRef.current;
+    if (!control) return true;
+    if (control.paused && !control.controller.signal.aborted) {
+      // Parallel workers each wait here; report the pause once.
+      if (control.resumeWaiters.length === 0) {
+        setStatusMessage('Run paused. Press Resume to continue or Cancel to stop.');
+        addLog('Run paused at a row/batch boundary.');
+        setCurrentOperationStats(prev => ({ ...prev, status: 'paused' }));
       }
-    } catch (e) {
-      const errorMsg = "Error: Could not display data as JSON.";
-      setDisplayData("Error stringifying data.");
-      setStatusMessage(errorMsg);
-      addLog(`Error stringifying data for display: ${e instanceof Error ? e.message : String(e)}`);
-      console.error("Error stringifying data:", e);
+      await new Promise<void>(resolve => { control.resumeWaiters.push(resolve); });
+      if (!control.controller.signal.aborted) setCurrentOperationStats(prev => ({ ...prev, status: 'running' }));
     }
+    return !control.controller.signal.aborted;
   };
-  
-  const getTokenCountForModel = async (contents: Content[], modelName: 'gemini-2.5-flash-preview-04-17' | 'gemini-2.5-pro-preview-04-17'): Promise<number> => {
-    if (!genAI || !contents) return 0;
+
+  const handlePauseOperation = () => {
+    const control = runControlRef.current;
+    if (!control || control.paused || control.controller.signal.aborted) return;
+    control.paused = true;
+    setRunControlState('paused');
+    setStatusMessage('Pausing: the run will stop after the current row or batch.');
+    addLog('Pause requested. The run will stop at the next row or batch boundary.');
+  };
+
+  const handleContinueOperation = () => {
+    const control = runControlRef.current;
+    if (!control || !control.paused) return;
+    control.paused = false;
+    setRunControlState('running');
+    addLog('Run resumed.');
+    control.resumeWaiters.splice(0).forEach(resume => resume());
+  };
+
+  const handleCancelOperation = () => {
+    const control = runControlRef.current;
+    if (!control || control.controller.signal.aborted) return;
+    control.controller.abort();
+    setRunControlState('cancelling');
+    setStatusMessage('Cancelling: in-flight requests are being abandoned. Finished rows are kept.');
+    addLog('Cancel requested. In-flight requests are abandoned; rows finished so far are kept.');
+    control.resumeWaiters.splice(0).forEach(resume => resume());
+  };
+
+  // Edited limits apply to the shared limiters at once and are saved for the next session.
+  useEffect(() => {
+    rateLimiters.flash.setLimits(rateLimits.flash);
+    rateLimiters.pro.setLimits(rateLimits.pro);
+    saveRateLimits(rateLimits);
+  }, [rateLimits, rateLimiters]);
+
+  const scheduleAiRequest = <T,>(tier: ModelTier, inputTokens: number, request: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+    runRateLimited(rateLimiters[tier], inputTokens, request, signal, (waitMs, attempt) => {
+      addLog(`Rate limit reached for the ${tier} model (429). Holding all ${tier} requests for ${(waitMs / 1000).toFixed(1)}s before retry ${attempt} of ${RATE_LIMIT_MAX_RETRIES}.`);
+    });
+
+  const handleRateLimitChange = (tier: ModelTier, key: keyof RateLimits, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isInteger(parsed) || parsed < 1) return;
+    setRateLimits(prev => ({ ...prev, [tier]: { ...prev[tier], [key]: parsed } }));
+  };
+
+  // Saves AI run progress so the run can be resumed after a reload; a failed save is logged but never stops the run.
+  // Saves are queued so that they never overlap, and after a failed save the next one writes the run in full.
+  const persistRunCheckpoint = (checkpoint: RunCheckpoint): Promise<void> => {
+    const saves = checkpointSavesRef.current;
+    saves.queue = saves.queue.then(async () => {
+      try {
+        saves.state = await saveRunCheckpoint(checkpoint, saves.state);
+      } catch (e) {
+        saves.state = null;
+        addLog(`Checkpoint: Could not save run progress: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+    return saves.queue;
+  };
+
+  const discardRunCheckpoint = (): Promise<void> => {
+    const saves = checkpointSavesRef.current;
+    saves.queue = saves.queue.then(async () => {
+      saves.state = null;
+      try {
+        await clearRunCheckpoint();
+      } catch (e) {
+        addLog(`Checkpoint: Could not clear saved run progress: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+    return saves.queue;
+  };
+
+  // The contacts and sheet roles a run exports with; a resumed run keeps those it started with.
+  const getRunExportContext = (resumeFrom?: RunCheckpoint): Pick<RunCheckpoint, 'contactsSheetData' | 'sheetRoles'> => resumeFrom
+    ? { contactsSheetData: resumeFrom.contactsSheetData, sheetRoles: resumeFrom.sheetRoles }
+    : { contactsSheetData: displayableCorrectedContactsData, sheetRoles };
+
+  const getTokenCountForModel = async (text: string, modelName: string): Promise<number> => {
+    if (!aiProvider || !text) return 0;
     try {
-      const { totalTokens } = await genAI.models.countTokens({ contents, model: modelName });
-      return totalTokens;
+      return await aiProvider.countTokens(modelName, text);
     } catch (e) {
       addLog(`Error counting tokens for model ${modelName}: ${e instanceof Error ? e.message : String(e)}`);
       console.error(`Error counting tokens for model ${modelName}:`, e);
@@ -330,54 +4150,27 @@ const App: React.FC = () => {
     }
   };
 
-  const calculateOperationCost = (inputTokens: number, outputTokens: number, apiRequests: number, modelType: 'flash' | 'pro'): number => {
-    let inputCost = 0;
-    let outputCost = 0;
-    if (modelType === 'flash') {
-        inputCost = (inputTokens / 1000000) * FLASH_PRICE_INPUT_PER_MILLION_TOKENS;
-        outputCost = (outputTokens / 1000000) * FLASH_PRICE_OUTPUT_THINKING_PER_MILLION_TOKENS;
-    } else if (modelType === 'pro') {
-        inputCost = (inputTokens / 1000000) * PRO_PRICE_INPUT_PER_MILLION_TOKENS;
-        outputCost = (outputTokens / 1000000) * PRO_PRICE_OUTPUT_PER_MILLION_TOKENS;
-    }
+  const calculateOperationCost = (inputTokens: number, outputTokens: number, apiRequests: number, model: string): number => {
     // Grounding cost is handled cumulatively for now, as it's per day.
-    return inputCost + outputCost;
+    return calculateTokenCost(modelSettings.pricing[model], inputTokens, outputTokens);
   };
   
-  const recalculateCumulativeSessionCost = () => {
-    setEstimatedCost(() => { 
-      // This function now implicitly sums up costs from different model types as they are added to totals
-      const flashInputCost = (totalInputTokens / 1000000) * FLASH_PRICE_INPUT_PER_MILLION_TOKENS; // Example, assuming totals might be mixed
-      const flashOutputCost = (totalOutputTokens / 1000000) * FLASH_PRICE_OUTPUT_THINKING_PER_MILLION_TOKENS; // Example
-      // A more precise cumulative cost would require tracking tokens per model type if mixing a lot.
-      // For simplicity, if we assume most tokens are of one type or average out:
-      // Here we'll calculate based on the flash model primarily for grounding context,
-      // but individual operation costs are calculated with their specific models.
-      // The `estimatedCost` state will reflect the sum of individual operation costs, which is more accurate.
-      // So this function might just sum up pre-calculated costs from operations or recalculate based on mixed totals.
-      // Let's keep it simple: the main `estimatedCost` will be the sum of each operation's specific cost.
-      // This function is now more of a trigger to update the UI if needed, but actual calculation is done per operation.
-      // The true cumulative cost is now the sum of individual operation costs, updated in `currentOperationStats.estimatedCost` accumulation.
-      // Let's refine this: The `estimatedCost` will be directly the sum of the `currentOperationStats.estimatedCost` from each operation.
-      // So, this recalculate function isn't as central for the *total* as before, but good for grounding.
-      let groundingCost = 0;
-      if (totalApiRequestsMade > FLASH_FREE_GROUNDING_REQUESTS_PER_DAY) { // Grounding is tied to Flash model for URL finding
-          groundingCost = ((totalApiRequestsMade - FLASH_FREE_GROUNDING_REQUESTS_PER_DAY) / 1000) * FLASH_PRICE_GROUNDING_PER_THOUSAND_REQUESTS_AFTER_FREE_TIER;
-      }
-      // The main 'estimatedCost' is the sum of individual op costs, so no need to recalculate here based on total tokens.
-      // This function can now be more about updating the UI if there are other elements to refresh.
-      // For now, the cost update happens with each operation's completion.
-      // To ensure the UI reflects the sum of operation costs for the session:
-      // We will sum up the *actual* costs of each operation rather than recalculating from total tokens.
-      // This state `estimatedCost` needs to be an accumulation of costs from `currentOperationStats`.
-      // The logic for this accumulation will be at the end of each main AI handler.
-      return estimatedCost + groundingCost; // This still needs refinement, current `estimatedCost` is already sum.
-                                      // Best to calculate grounding separately and add to the displayed total.
+  // Grounding is billed per request beyond each model's daily free allowance, so tasks that share a model share the allowance.
+  const sessionGroundingCost = useMemo(() => {
+    if (!aiProvider) return 0;
+    const requestsByModel = new Map<string, number>();
+    AI_TASKS.forEach(task => {
+      const model = resolveTaskGeneration(modelSettings.tasks[task], task, aiProvider).model;
+      requestsByModel.set(model, (requestsByModel.get(model) ?? 0) + (groundedRequestsByTask[task] ?? 0));
     });
+    return [...requestsByModel].reduce((sum, [model, requests]) => sum + calculateGroundingCost(modelSettings.pricing[model], requests), 0);
+  }, [aiProvider, modelSettings, groundedRequestsByTask]);
+
+  const recordGroundedRequests = (task: AiTask, generation: TaskGenerationOptions, requests: number) => {
+    if (generation.grounded && requests > 0) setGroundedRequestsByTask(prev => ({ ...prev, [task]: (prev[task] ?? 0) + requests }));
   };
-  
 
-  const correctContactSheetAccountAssignments = useCallback((originalContactsData: string[][]): string[][] => {
+  const correctContactSheetAccountAssignments = useCallback((originalContactsData: string[][], mapping: ColumnMapping): string[][] => {
     addLog("Starting Contact Sheet Account Correction process.");
     if (!originalContactsData || originalContactsData.length < 2) {
         addLog("Contact sheet is empty or has no data rows. Skipping correction.");
@@ -391,8 +4184,8 @@ const App: React.FC = () => {
 
     addLog("Contact Correction - Pass 1: Building domain-to-organization map.");
     contactsBody.forEach((contactRow) => {
-        const email = String(contactRow[3] ?? '').trim(); 
-        const accountCell = String(contactRow[9] ?? '').trim(); 
+        const email = String(contactRow[mapping.contactEmail] ?? '').trim(); 
+        const accountCell = String(contactRow[mapping.contactAccount] ?? '').trim(); 
 
         if (email && accountCell) {
             const domain = extractDomainFromEmail(email);
@@ -414,20 +4207,20 @@ const App: React.FC = () => {
     const correctedContactsBody = contactsBody.map(row => [...row.map(cell => String(cell ?? ''))]); 
 
     correctedContactsBody.forEach((contactRowToCorrect, index) => {
-        const email = String(contactRowToCorrect[3] ?? '').trim(); 
+        const email = String(contactRowToCorrect[mapping.contactEmail] ?? '').trim(); 
         if (email) {
             const domain = extractDomainFromEmail(email);
             if (domain && domainToOrgNameMap.has(domain)) {
                 const correctOrgName = domainToOrgNameMap.get(domain)!;
                 const expectedAccountCellValue = "Accounts::::" + correctOrgName;
                 
-                while (contactRowToCorrect.length < 10) contactRowToCorrect.push('');
-                const currentAccountCell = String(contactRowToCorrect[9] ?? '').trim();
+                while (contactRowToCorrect.length <= mapping.contactAccount) contactRowToCorrect.push('');
+                const currentAccountCell = String(contactRowToCorrect[mapping.contactAccount] ?? '').trim();
 
                 if (currentAccountCell.toLowerCase() !== expectedAccountCellValue.toLowerCase()) {
-                    const oldValue = contactRowToCorrect[9] || '';
-                    contactRowToCorrect[9] = expectedAccountCellValue;
-                    const contactName = `${String(contactRowToCorrect[1] ?? '').trim()} ${String(contactRowToCorrect[2] ?? '').trim()}`.trim() || `contact at row ${index + 2}`;
+                    const oldValue = contactRowToCorrect[mapping.contactAccount] || '';
+                    contactRowToCorrect[mapping.contactAccount] = expectedAccountCellValue;
+                    const contactName = `${String(contactRowToCorrect[mapping.contactFirstName] ?? '').trim()} ${String(contactRowToCorrect[mapping.contactLastName] ?? '').trim()}`.trim() || `contact at row ${index + 2}`;
                     addLog(`Contact Correction: Updated account for ${contactName} (email: ${email}) from '${oldValue}' to '${expectedAccountCellValue}'.`);
                     correctionsMade++;
                 }
@@ -439,115 +4232,108 @@ const App: React.FC = () => {
     return [contactsHeader, ...correctedContactsBody];
   }, [addLog]);
 
-  const prefillUrlsFromContacts = useCallback((orgsData: string[][], contactsData: string[][]): { updatedOrgsData: string[][], prefilledCount: number } => {
+  const prefillUrlsFromContacts = useCallback((orgsData: Dataset, contactsData: string[][], mapping: ColumnMapping): { updatedOrgsData: Dataset, prefilledCount: number } => {
     addLog("Starting URL pre-fill process from contacts sheet.");
     let prefilledCount = 0;
-    const updatedOrgsData = orgsData.map(orgRow => orgRow.map(cell => String(cell ?? ''))); 
-
-    if (updatedOrgsData.length > 0) {
-        const header = updatedOrgsData[0];
-        while (header.length < 3) header.push(''); 
-        if (String(header[2] ?? '').trim() === '') {
-            header[2] = "Website URL"; 
-            addLog("Added 'Website URL' header to column C of organizations sheet for pre-fill.");
-        }
+
+    const header = [...orgsData.header];
+    while (header.length <= mapping.websiteUrl) header.push('');
+    if (String(header[mapping.websiteUrl] ?? '').trim() === '') {
+        header[mapping.websiteUrl] = "Website URL";
+        addLog(`Added 'Website URL' header to column ${columnIndexToLetter(mapping.websiteUrl)} of organizations sheet for pre-fill.`);
     }
 
-    for (let i = 1; i < updatedOrgsData.length; i++) { 
-        const orgRow = updatedOrgsData[i];
-        const orgName = String(orgRow[0] ?? '').trim().toLowerCase();
-        if (!orgName) continue;
+    const updatedRows = orgsData.rows.map(orgRow => {
+        const orgName = String(orgRow.cells[mapping.orgName] ?? '').trim().toLowerCase();
+        if (!orgName) return orgRow;
 
-        while (orgRow.length < 3) orgRow.push('');
-        
-        if (isPlausibleUrl(String(orgRow[2] ?? ''))) { 
-             const existingUrlDomain = normalizeUrlForComparison(String(orgRow[2] ?? ''));
+        if (isPlausibleUrl(String(orgRow.cells[mapping.websiteUrl] ?? ''))) {
+             const existingUrlDomain = normalizeUrlForComparison(String(orgRow.cells[mapping.websiteUrl] ?? ''));
              // Ensure that we don't overwrite a plausible non-generic domain with a generic one
-             if (existingUrlDomain && !GENERIC_EMAIL_DOMAINS.some(genDomain => existingUrlDomain.endsWith(genDomain))) { 
-                 addLog(`Skipping pre-fill for "${orgRow[0]}" as plausible non-generic URL already exists: "${orgRow[2]}"`);
-                 continue;
+             if (existingUrlDomain && !GENERIC_EMAIL_DOMAINS.some(genDomain => existingUrlDomain.endsWith(genDomain))) {
+                 addLog(`Skipping pre-fill for "${orgRow.cells[mapping.orgName]}" as plausible non-generic URL already exists: "${orgRow.cells[mapping.websiteUrl]}"`);
+                 return orgRow;
             }
         }
 
-        for (const contactRow of contactsData.slice(1)) { 
-            const accountCell = String(contactRow[9] ?? '').trim();
+        for (const contactRow of contactsData.slice(1)) {
+            const accountCell = String(contactRow[mapping.contactAccount] ?? '').trim();
             if (accountCell && accountCell.toLowerCase().startsWith("accounts::::")) {
                 const contactOrgName = accountCell.substring("accounts::::".length).trim().toLowerCase();
                 if (contactOrgName === orgName) {
-                    const email = String(contactRow[3] ?? '').trim();
+                    const email = String(contactRow[mapping.contactEmail] ?? '').trim();
                     if (email) {
                         const domain = extractDomainFromEmail(email);
                         if (domain) {
                             if (GENERIC_EMAIL_DOMAINS.includes(domain)) {
-                                addLog(`Skipped pre-filling URL for "${orgRow[0]}" from contact email "${email}" because domain "${domain}" is generic.`);
+                                addLog(`Skipped pre-filling URL for "${orgRow.cells[mapping.orgName]}" from contact email "${email}" because domain "${domain}" is generic.`);
                             } else {
-                                orgRow[2] = domain; 
                                 prefilledCount++;
-                                addLog(`Pre-filled URL for "${orgRow[0]}" with "${domain}" from contacts sheet.`);
-                                break; 
+                                addLog(`Pre-filled URL for "${orgRow.cells[mapping.orgName]}" with "${domain}" from contacts sheet.`);
+                                return withCellValue(orgRow, mapping.websiteUrl, domain, { source: 'contacts_prefill', timestamp: Date.now(), method: `Email domain of contact ${email}` });
                             }
                         }
                     }
                 }
             }
         }
-    }
+        return orgRow;
+    });
     addLog(`URL pre-fill process complete. ${prefilledCount} URLs were pre-filled from contacts.`);
-    return { updatedOrgsData, prefilledCount };
+    return { updatedOrgsData: { header, rows: updatedRows }, prefilledCount };
   }, [addLog]);
 
-  const performPlaceholderDescRowDeletionLogic = useCallback((inputData: string[][], context: string): { cleanedData: string[][], rowsBefore: number, rowsDeleted: number } => {
+  const performPlaceholderDescRowDeletionLogic = useCallback((inputData: Dataset, context: string, mapping: ColumnMapping, placeholderDescription: string): { cleanedData: Dataset, rowsBefore: number, rowsDeleted: number, removals: Map<string, DatasetRemoval> } => {
     addLog(`Placeholder Row Deletion (${context}): Starting deletion process.`);
-    if (!inputData || inputData.length < 2) {
+    const rowsBefore = inputData.rows.length;
+    const removals = new Map<string, DatasetRemoval>();
+    if (rowsBefore === 0) {
         addLog(`Placeholder Row Deletion (${context}): No data or only header row. Nothing to delete.`);
-        return { cleanedData: inputData.map(row => row.map(cell => String(cell ?? ''))), rowsBefore: inputData.length > 0 ? inputData.length -1 : 0, rowsDeleted: 0 };
+        return { cleanedData: inputData, rowsBefore, rowsDeleted: 0, removals };
     }
-    const headerRow = inputData[0].map(cell => String(cell ?? ''));
-    const dataRows = inputData.slice(1).map(row => row.map(cell => String(cell ?? '')));
-    const rowsBefore = dataRows.length;
-    const DESCRIPTION_COL_INDEX = 63; 
-    const placeholderText = "Insufficient specific information available on the website to generate a detailed analytical profile for referral matchmaking.".toLowerCase();
+    const DESCRIPTION_COL_INDEX = mapping.description; 
+    const placeholderText = placeholderDescription.trim().toLowerCase();
     
-    const keptRows = dataRows.filter(row => {
-        const orgName = String(row[0] ?? '').trim();
+    const keptRows = inputData.rows.filter(({ id, cells }) => {
+        const orgName = String(cells[mapping.orgName] ?? '').trim();
         if (!orgName) return true; 
         
-        const description = (row.length > DESCRIPTION_COL_INDEX ? String(row[DESCRIPTION_COL_INDEX] ?? '') : '').trim().toLowerCase();
+        const description = (cells.length > DESCRIPTION_COL_INDEX ? String(cells[DESCRIPTION_COL_INDEX] ?? '') : '').trim().toLowerCase();
         if (description === placeholderText) {
             addLog(`Placeholder Row Deletion (${context}): Deleting row for "${orgName}" due to placeholder description.`);
+            removals.set(id, { reason: 'Description is the "insufficient information" placeholder.' });
             return false;
         }
         return true; 
     });
 
-    const cleanedData = [headerRow, ...keptRows];
+    const cleanedData = { header: inputData.header, rows: keptRows };
     const rowsDeleted = rowsBefore - keptRows.length;
     addLog(`Placeholder Row Deletion (${context}): Process complete. Rows before: ${rowsBefore}, Rows after: ${keptRows.length}. Deleted ${rowsDeleted} rows.`);
-    return { cleanedData, rowsBefore, rowsDeleted };
+    return { cleanedData, rowsBefore, rowsDeleted, removals };
   }, [addLog]);
 
-  const performMostlyEmptyRowsLogic = useCallback((inputData: string[][], context: string): { cleanedData: string[][], rowsBefore: number, rowsDeleted: number } => {
+  const performMostlyEmptyRowsLogic = useCallback((inputData: Dataset, context: string, mapping: ColumnMapping): { cleanedData: Dataset, rowsBefore: number, rowsDeleted: number, removals: Map<string, DatasetRemoval> } => {
     addLog(`Mostly Empty Row Deletion (${context}): Starting deletion process.`);
-     if (!inputData || inputData.length < 2) {
+    const rowsBefore = inputData.rows.length;
+    const removals = new Map<string, DatasetRemoval>();
+    if (rowsBefore === 0) {
         addLog(`Mostly Empty Row Deletion (${context}): No data or only header row. Nothing to delete.`);
-        return { cleanedData: inputData.map(row => row.map(cell => String(cell ?? ''))), rowsBefore: inputData.length > 0 ? inputData.length -1 : 0, rowsDeleted: 0 };
+        return { cleanedData: inputData, rowsBefore, rowsDeleted: 0, removals };
     }
-    const headerRow = inputData[0].map(cell => String(cell ?? ''));
-    const dataRows = inputData.slice(1).map(row => row.map(cell => String(cell ?? '')));
-    const rowsBefore = dataRows.length;
-    const DESCRIPTION_COL_INDEX = 63; 
-    const ORG_NAME_COL_INDEX = 0; 
+    const DESCRIPTION_COL_INDEX = mapping.description; 
+    const ORG_NAME_COL_INDEX = mapping.orgName; 
 
-    const keptRows = dataRows.filter(row => {
-        const orgName = String(row[ORG_NAME_COL_INDEX] ?? '').trim();
+    const keptRows = inputData.rows.filter(({ id, cells }) => {
+        const orgName = String(cells[ORG_NAME_COL_INDEX] ?? '').trim();
         if (!orgName) return true; 
 
         let allOtherCellsEmpty = true;
-        for (let i = 0; i < row.length; i++) {
+        for (let i = 0; i < cells.length; i++) {
             if (i === ORG_NAME_COL_INDEX || i === DESCRIPTION_COL_INDEX) {
                 continue; 
             }
-            if (String(row[i] ?? '').trim() !== '') { 
+            if (String(cells[i] ?? '').trim() !== '') { 
                 allOtherCellsEmpty = false;
                 break;
             }
@@ -555,43 +4341,47 @@ const App: React.FC = () => {
         
         if (allOtherCellsEmpty) {
             addLog(`Mostly Empty Row Deletion (${context}): Deleting row for "${orgName}" as other fields (excluding description) are empty.`);
+            removals.set(id, { reason: 'All fields other than the organization name and description are empty.' });
             return false; 
         }
         return true; 
     });
 
-    const cleanedData = [headerRow, ...keptRows];
+    const cleanedData = { header: inputData.header, rows: keptRows };
     const rowsDeleted = rowsBefore - keptRows.length;
     addLog(`Mostly Empty Row Deletion (${context}): Process complete. Rows before: ${rowsBefore}, Rows after: ${keptRows.length}. Deleted ${rowsDeleted} rows.`);
-    return { cleanedData, rowsBefore, rowsDeleted };
+    return { cleanedData, rowsBefore, rowsDeleted, removals };
   }, [addLog]);
 
-  const performMergeDuplicatesLogic = useCallback((inputData: string[][], context: string): { mergedData: string[][], rowsBefore: number, rowsAfter: number } => {
+  const performMergeDuplicatesLogic = useCallback((inputData: Dataset, context: string, mapping: ColumnMapping): { mergedData: Dataset, rowsBefore: number, rowsAfter: number, removals: Map<string, DatasetRemoval> } => {
     addLog(`Merge Duplicates (${context}): Starting merge process.`);
-    if (!inputData || inputData.length < 2) {
+    const rowsBeforeProcessing = inputData.rows.length;
+    const removals = new Map<string, DatasetRemoval>();
+    if (rowsBeforeProcessing === 0) {
       addLog(`Merge Duplicates (${context}): No data or only header row. Nothing to merge.`);
-      return { mergedData: inputData.map(row => row.map(cell => String(cell ?? ''))), rowsBefore: inputData.length > 0 ? inputData.length -1 : 0, rowsAfter: inputData.length > 0 ? inputData.length -1 : 0 };
+      return { mergedData: inputData, rowsBefore: 0, rowsAfter: 0, removals };
     }
 
-    const headerRowOriginal = inputData[0].map(cell => String(cell ?? ''));
-    const dataRows = inputData.slice(1).map(row => row.map(cell => String(cell ?? '')));
-    const rowsBeforeProcessing = dataRows.length;
+    const headerRowOriginal = inputData.header;
 
-    const DESCRIPTION_COL_INDEX = 63;
-    const URL_COL_INDEX = 2;
-    const ORG_NAME_COL_INDEX = 0;
+    const DESCRIPTION_COL_INDEX = mapping.description;
+    const URL_COL_INDEX = mapping.websiteUrl;
+    const ORG_NAME_COL_INDEX = mapping.orgName;
 
-    const groupedByOrgNameLC = new Map<string, string[][]>();
-    dataRows.forEach(row => {
-      const orgNameLC = String(row[ORG_NAME_COL_INDEX] ?? '').trim().toLowerCase();
-      if (!orgNameLC) return; // Skip rows with no organization name for grouping
+    const groupedByOrgNameLC = new Map<string, DatasetRow[]>();
+    inputData.rows.forEach(row => {
+      const orgNameLC = String(row.cells[ORG_NAME_COL_INDEX] ?? '').trim().toLowerCase();
+      if (!orgNameLC) { // Rows with no organization name cannot be grouped and are dropped
+        removals.set(row.id, { reason: 'No organization name, so the row could not be grouped.' });
+        return;
+      }
       if (!groupedByOrgNameLC.has(orgNameLC)) {
         groupedByOrgNameLC.set(orgNameLC, []);
       }
       groupedByOrgNameLC.get(orgNameLC)!.push(row);
     });
 
-    const finalMergedDataRows: string[][] = [];
+    const finalMergedDataRows: DatasetRow[] = [];
 
     groupedByOrgNameLC.forEach((group, _orgNameKeyLC) => {
       if (group.length === 1) {
@@ -599,38 +4389,44 @@ const App: React.FC = () => {
         return;
       }
 
-      const originalOrgNameFromFirstRow = String(group[0][ORG_NAME_COL_INDEX] ?? '').trim();
+      const originalOrgNameFromFirstRow = String(group[0].cells[ORG_NAME_COL_INDEX] ?? '').trim();
       addLog(`Merge Duplicates (${context}): Processing group for "${originalOrgNameFromFirstRow}" (${group.length} rows)`);
 
       let bestRawUrl = '';
       let bestDescription = '';
-      let representativeRowData = [...group[0]]; // Default representative, use a copy
+      let representativeRow = group[0]; // Default representative; the merged row keeps its ID
+      let bestUrlSourceRow: DatasetRow | null = null;
+      let bestDescriptionSourceRow: DatasetRow | null = null;
 
       // Determine best URL from the group
       let longestUrlLength = -1;
       let hasPlausibleUrl = false;
-      group.forEach(currentRow => {
+      group.forEach(groupRow => {
+        const currentRow = groupRow.cells;
         const currentRawUrlString = String(currentRow.length > URL_COL_INDEX ? currentRow[URL_COL_INDEX] : '').trim();
         if (isPlausibleUrl(currentRawUrlString)) {
           hasPlausibleUrl = true;
           if (currentRawUrlString.length > longestUrlLength) {
             bestRawUrl = currentRawUrlString;
+            bestUrlSourceRow = groupRow;
             longestUrlLength = currentRawUrlString.length;
           }
         } else if (!hasPlausibleUrl && currentRawUrlString.length > longestUrlLength) {
           // If no plausible URL found yet, consider longest non-empty even if not "plausible" by strict check,
           // but plausible ones will always win.
           bestRawUrl = currentRawUrlString;
+          bestUrlSourceRow = groupRow;
           longestUrlLength = currentRawUrlString.length;
         }
       });
       
       // Determine best Description from the group
       let longestDescLength = -1;
-      group.forEach(currentRow => {
-        const currentDesc = String(currentRow.length > DESCRIPTION_COL_INDEX ? currentRow[DESCRIPTION_COL_INDEX] : '').trim();
+      group.forEach(groupRow => {
+        const currentDesc = String(groupRow.cells.length > DESCRIPTION_COL_INDEX ? groupRow.cells[DESCRIPTION_COL_INDEX] : '').trim();
         if (currentDesc.length > longestDescLength) {
           bestDescription = currentDesc;
+          bestDescriptionSourceRow = groupRow;
           longestDescLength = currentDesc.length;
         }
       });
@@ -639,8 +4435,8 @@ const App: React.FC = () => {
       let representativeChosen = false;
       if (bestDescription !== '') {
           for (const currentRow of group) {
-              if (String(currentRow.length > DESCRIPTION_COL_INDEX ? currentRow[DESCRIPTION_COL_INDEX] : '').trim() === bestDescription) {
-                  representativeRowData = [...currentRow];
+              if (String(currentRow.cells.length > DESCRIPTION_COL_INDEX ? currentRow.cells[DESCRIPTION_COL_INDEX] : '').trim() === bestDescription) {
+                  representativeRow = currentRow;
                   representativeChosen = true;
                   break;
               }
@@ -648,8 +4444,8 @@ const App: React.FC = () => {
       }
       if (!representativeChosen && bestRawUrl !== '') {
           for (const currentRow of group) {
-              if (String(currentRow.length > URL_COL_INDEX ? currentRow[URL_COL_INDEX] : '').trim() === bestRawUrl) {
-                  representativeRowData = [...currentRow];
+              if (String(currentRow.cells.length > URL_COL_INDEX ? currentRow.cells[URL_COL_INDEX] : '').trim() === bestRawUrl) {
+                  representativeRow = currentRow;
                   representativeChosen = true;
                   break;
               }
@@ -657,7 +4453,7 @@ const App: React.FC = () => {
       }
       // If still not chosen (e.g. all descriptions empty, all URLs empty or identical non-plausible), group[0] is representative
 
-      const mergedRowOutput = [...representativeRowData];
+      const mergedRowOutput = [...representativeRow.cells];
       const requiredLength = Math.max(headerRowOriginal.length, DESCRIPTION_COL_INDEX + 1, URL_COL_INDEX + 1, ORG_NAME_COL_INDEX + 1);
       
       while(mergedRowOutput.length < requiredLength) mergedRowOutput.push('');
@@ -666,42 +4462,128 @@ const App: React.FC = () => {
       mergedRowOutput[URL_COL_INDEX] = bestRawUrl;
       mergedRowOutput[DESCRIPTION_COL_INDEX] = bestDescription;
   
-      finalMergedDataRows.push(mergedRowOutput);
+      // The merged URL and description keep the provenance of the rows they were taken from.
+      const mergedProvenance: Record<number, CellProvenance> = { ...representativeRow.provenance };
+      const carryProvenance = (column: number, sourceRow: DatasetRow | null) => {
+        const provenance = sourceRow?.provenance?.[column];
+        if (provenance) mergedProvenance[column] = provenance; else delete mergedProvenance[column];
+      };
+      carryProvenance(URL_COL_INDEX, bestUrlSourceRow);
+      carryProvenance(DESCRIPTION_COL_INDEX, bestDescriptionSourceRow);
+      finalMergedDataRows.push({ id: representativeRow.id, cells: mergedRowOutput, ...(Object.keys(mergedProvenance).length > 0 ? { provenance: mergedProvenance } : {}) });
+      group.forEach(row => { if (row.id !== representativeRow.id) removals.set(row.id, { reason: `Same organization name as "${originalOrgNameFromFirstRow}"; longest URL and description kept.`, survivorRowId: representativeRow.id }); });
       addLog(`Merge Duplicates (${context}): Merged rows for "${originalOrgNameFromFirstRow}". Result URL: "${bestRawUrl}", Desc (start): "${bestDescription.substring(0,30)}..."`);
     });
     
     let maxCols = headerRowOriginal.length;
-    finalMergedDataRows.forEach(row => { maxCols = Math.max(maxCols, row.length); });
+    finalMergedDataRows.forEach(row => { maxCols = Math.max(maxCols, row.cells.length); });
 
     const fullyPaddedHeader = [...headerRowOriginal];
     while(fullyPaddedHeader.length < maxCols) fullyPaddedHeader.push('');
 
     const fullyPaddedMergedDataRows = finalMergedDataRows.map(row => {
-        const newRow = [...row.map(cell => String(cell ?? ''))]; // Ensure all cells are strings
-        while (newRow.length < maxCols) newRow.push('');
-        return newRow;
+        if (row.cells.length >= maxCols) return row;
+        const newCells = [...row.cells];
+        while (newCells.length < maxCols) newCells.push('');
+        return { ...row, cells: newCells };
     });
 
-    const finalOutputData = [fullyPaddedHeader, ...fullyPaddedMergedDataRows];
     const rowsAfterProcessing = finalMergedDataRows.length;
     addLog(`Merge Duplicates (${context}): Merge process complete. Rows before: ${rowsBeforeProcessing}, Rows after: ${rowsAfterProcessing}.`);
-    return { mergedData: finalOutputData, rowsBefore: rowsBeforeProcessing, rowsAfter: rowsAfterProcessing };
+    return { mergedData: { header: fullyPaddedHeader, rows: fullyPaddedMergedDataRows }, rowsBefore: rowsBeforeProcessing, rowsAfter: rowsAfterProcessing, removals };
   }, [addLog]);
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) { setStatusMessage('No file selected.'); addLog('File selection cancelled.'); return; }
-    setCsvData([]); setDisplayData(''); setRawContactsSheetData(null); setDisplayableCorrectedContactsData(null);
+  const finalizeImport = (pending: PendingImport, mapping: ColumnMapping) => {
+    let contactsForProcessing: string[][] | null = null;
+    if (pending.contactsData) {
+      // Store raw sample for "Contact Correction Test"
+      const contactsHeaderForSample = pending.contactsData[0];
+      const contactsBodyForSample = pending.contactsData.slice(1, Math.min(pending.contactsData.length, TEST_DATA_ROW_COUNT + 1));
+      setOriginalContactsSampleForCorrectionTestDisplay([contactsHeaderForSample, ...contactsBodyForSample]);
+      addLog(`Stored raw sample of ${contactsBodyForSample.length} contacts for testing.`);
+
+      // Correct the *entire* contacts sheet for actual pre-filling and download
+      contactsForProcessing = correctContactSheetAccountAssignments(pending.contactsData, mapping);
+      setRawContactsSheetData(contactsForProcessing);
+      setDisplayableCorrectedContactsData(contactsForProcessing);
+      addLog(`Contacts sheet corrected. Full corrected version stored for pre-filling and download.`);
+    } else { setOriginalContactsSampleForCorrectionTestDisplay(null); setRawContactsSheetData(null); setDisplayableCorrectedContactsData(null); }
+
+    const loadedData = datasetFromTable(pending.orgsData);
+    datasetStore.reset(loadedData, `Load ${pending.source === 'csv' ? 'CSV' : 'Excel'} file: ${loadedData.rows.length} rows`);
+    if (contactsForProcessing && contactsForProcessing.length > 1) {
+      const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(loadedData, contactsForProcessing, mapping);
+      commitDataset(updatedOrgsData, `Pre-fill URLs from contacts: ${prefilledCount} URLs filled`, `Parsed ${pending.orgsData.length} rows. ${prefilledCount} URLs initially pre-filled from corrected contacts.`, undefined, mapping);
+    } else {
+      const msg = `Parsed ${pending.orgsData.length} rows. No contacts pre-fill.`;
+      setStatusMessage(msg); addLog(msg);
+    }
+    setPendingImport(null);
+  };
+
+  const resetLoadedDataState = () => {
+    datasetStore.reset(null, ''); setRawContactsSheetData(null); setDisplayableCorrectedContactsData(null);
     setOriginalContactsSampleForCorrectionTestDisplay(null); setCorrectedContactsTestDataForTable(null);
     setPreprocessedTestDataForTable(null); setDeletedPlaceholderDescRowsTestDataForTable(null);
     setDeletedMostlyEmptyRowsTestDataForTable(null); setMergedTestDataForTable(null);
     setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); 
-    setAiGroundingSources([]);
+    setPendingImport(null);
+  };
+
+  // Applies a saved column mapping for this header layout straight away, otherwise waits for the user to confirm a guessed one.
+  const beginImport = (pending: PendingImport) => {
+    if (pending.orgsData.length === 0 || (pending.orgsData.length === 1 && pending.orgsData[0].every(cell => String(cell ?? '').trim() === ''))) {
+      setStatusMessage('Main sheet empty/unparsable.'); addLog('Main sheet empty/unparsable.');
+      return;
+    }
+    const signature = getHeaderSignature(pending.orgsData[0], pending.contactsData?.[0] ?? null);
+    const savedMapping = loadSavedColumnMapping(signature);
+    if (savedMapping) {
+      addLog('Column Mapping: Applied saved mapping for this header layout.');
+      setColumnMapping(savedMapping);
+      finalizeImport(pending, savedMapping);
+    } else {
+      const guessedMapping = guessColumnMapping(pending.orgsData[0], pending.contactsData?.[0] ?? null);
+      setColumnMapping(guessedMapping);
+      setPendingImport(pending);
+      const msg = `Parsed ${pending.orgsData.length} rows. New header layout: review the guessed column mapping below and confirm it to continue.`;
+      setStatusMessage(msg); addLog(msg);
+    }
+  };
+
+  const handleApplySheetRoles = () => {
+    if (!sourceWorkbook || !sheetRoles) return;
+    addLog(`Reloading workbook with Organizations = "${sheetRoles.organizations}", Contacts = ${sheetRoles.contacts ? `"${sheetRoles.contacts}"` : 'none'}.`);
+    resetLoadedDataState();
+    const orgsData = readSheetRows(sourceWorkbook, sheetRoles.organizations);
+    const contactsData = sheetRoles.contacts ? readSheetRows(sourceWorkbook, sheetRoles.contacts) : null;
+    beginImport({ orgsData, contactsData: contactsData && contactsData.length > 0 ? contactsData : null, source: 'excel' });
+  };
+
+  const handleConfirmColumnMapping = () => {
+    const orgHeader = pendingImport ? pendingImport.orgsData[0] : (dataset?.header ?? []);
+    const contactsHeader = pendingImport ? (pendingImport.contactsData?.[0] ?? null) : (rawContactsSheetData?.[0] ?? null);
+    saveColumnMapping(getHeaderSignature(orgHeader, contactsHeader), columnMapping);
+    const summary = COLUMN_ROLE_DEFINITIONS.filter(d => d.sheet === 'organizations' || contactsHeader).map(d => `${d.label} = ${describeColumn(d.sheet === 'organizations' ? orgHeader : (contactsHeader ?? []), columnMapping[d.role])}`).join('; ');
+    addLog(`Column Mapping: Saved for this header layout. ${summary}`);
+    if (pendingImport) {
+      finalizeImport(pendingImport, columnMapping);
+    } else {
+      setStatusMessage('Column mapping updated. Subsequent steps will use the new mapping.');
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) { setStatusMessage('No file selected.'); addLog('File selection cancelled.'); return; }
+    resetLoadedDataState();
     setIsProcessingContactsFull(false); setIsPerformingFullPlaceholderDescRowDeletion(false);
     setIsPerformingFullMostlyEmptyRowDeletion(false); setIsMergingDuplicatesFull(false);
-    setIsLoading(false); setSkippedBatchNumbers([]); setIsGeneratingFullDescriptions(false);
+    setIsLoading(false); setSkippedBatchNumbers([]); setUnresolvedUrlRowIds([]); setIsGeneratingFullDescriptions(false);
     setPreRunEstimation(null); setCurrentOperationStats(initialCurrentOperationStats);
-    setTotalInputTokens(0); setTotalOutputTokens(0); setTotalApiRequestsMade(0); setEstimatedCost(0);
+    setTotalInputTokens(0); setTotalOutputTokens(0); setTotalApiRequestsMade(0); setEstimatedCost(0); setGroundedRequestsByTask({});
+    setDetectedCsvDialect(null); setCsvParseIssues([]);
+    setSourceWorkbook(null); setWorkbookSheetSummaries([]); setSheetRoles(null);
     addLog(`File selected: ${file.name} (type: ${file.type}, size: ${file.size} bytes)`);
     const fileExtension = file.name.toLowerCase().split('.').pop();
     if (!['csv', 'xlsx', 'xls'].includes(fileExtension ?? '')) { setStatusMessage('Invalid file type.'); addLog(`Invalid file: ${file.name}.`); return; }
@@ -711,221 +4593,164 @@ const App: React.FC = () => {
     if (currentMajorProcessingActive) { addLog("File change ignored: Process running."); return; }
     let initialLoadingSetter = setIsLoading; initialLoadingSetter(true); // Use main isLoading for file load
     const loadingMsg = `Loading ${file.name}...`; setStatusMessage(loadingMsg); addLog(loadingMsg);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      let localOrganizationSheetData: string[][];
-      let localContactsSheetDataForProcessing: string[][] | null = null;
-      try {
-        const fileContent = e.target?.result; if (!fileContent) throw new Error("File content could not be read.");
-        if (fileExtension === 'csv') {
-          addLog('Parsing CSV...'); localOrganizationSheetData = parseCSV(fileContent as string).map(row => row.map(cell => String(cell ?? '')));
-        } else { 
-          addLog('Parsing Excel...');
-          const workbook = XLSX.read(fileContent as ArrayBuffer, { type: 'array', cellNF: false, cellText: true });
-          if (workbook.SheetNames.length === 0) throw new Error("Excel workbook empty.");
-          const firstSheetName = workbook.SheetNames[0];
-          localOrganizationSheetData = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[firstSheetName], { header: 1, defval: "" }).map(row => row.map(cell => String(cell ?? '')));
-          addLog(`Parsed "${firstSheetName}" with ${localOrganizationSheetData.length} rows.`);
-          if (workbook.SheetNames.length > 1) {
-            const secondSheetName = workbook.SheetNames[1];
-            const rawContactsDataFromExcel = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[secondSheetName], { header: 1, defval: "" }).map(row => row.map(cell => String(cell ?? '')));
-            addLog(`Found "${secondSheetName}" (Contacts) with ${rawContactsDataFromExcel.length} rows.`);
-            if (rawContactsDataFromExcel.length > 0) {
-                // Store raw sample for "Contact Correction Test"
-                const contactsHeaderForSample = rawContactsDataFromExcel[0];
-                const contactsBodyForSample = rawContactsDataFromExcel.slice(1, Math.min(rawContactsDataFromExcel.length, TEST_DATA_ROW_COUNT + 1));
-                setOriginalContactsSampleForCorrectionTestDisplay([contactsHeaderForSample, ...contactsBodyForSample]);
-                addLog(`Stored raw sample of ${contactsBodyForSample.length} contacts for testing.`);
-                
-                // Correct the *entire* contacts sheet for actual pre-filling and download
-                const fullyCorrectedContacts = correctContactSheetAccountAssignments(rawContactsDataFromExcel);
-                setRawContactsSheetData(fullyCorrectedContacts); 
-                setDisplayableCorrectedContactsData(fullyCorrectedContacts);
-                localContactsSheetDataForProcessing = fullyCorrectedContacts;
-                addLog(`Contacts sheet corrected. Full corrected version stored for pre-filling and download.`);
-            } else { setOriginalContactsSampleForCorrectionTestDisplay(null); setRawContactsSheetData(null); setDisplayableCorrectedContactsData(null); }
-          } else { setOriginalContactsSampleForCorrectionTestDisplay(null); setRawContactsSheetData(null); setDisplayableCorrectedContactsData(null); }
-        }
-        if (localOrganizationSheetData.length === 0 || (localOrganizationSheetData.length === 1 && localOrganizationSheetData[0].every(cell => String(cell ?? '').trim() === ''))) {
-            updateDisplayData([], fileExtension === 'csv' ? 'csv' : 'excel', 'Main sheet empty/unparsable.');
-        } else {
-            if (localContactsSheetDataForProcessing && localContactsSheetDataForProcessing.length > 1) { 
-                const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(localOrganizationSheetData, localContactsSheetDataForProcessing);
-                updateDisplayData(updatedOrgsData, 'contactPrefillInitial', `Parsed ${updatedOrgsData.length} rows. ${prefilledCount} URLs initially pre-filled from corrected contacts.`);
-            } else { updateDisplayData(localOrganizationSheetData, fileExtension === 'csv' ? 'csv' : 'excel', `Parsed ${localOrganizationSheetData.length} rows. No contacts pre-fill.`); }
-        }
-      } catch (err: any) { console.error(`Error processing ${file.name}:`, err); updateDisplayData([], fileExtension === 'csv' ? 'csv' : 'excel', `Error: ${err.message}`);
-      } finally { initialLoadingSetter(false); }
-    };
-    reader.onerror = () => { setStatusMessage(`Error reading file: ${reader.error}`); initialLoadingSetter(false); };
-    if (fileExtension === 'csv') reader.readAsText(file); else reader.readAsArrayBuffer(file);
-    event.target.value = ''; 
+    event.target.value = '';
+    let localOrganizationSheetData: string[][];
+    let localContactsSheetData: string[][] | null = null;
+    try {
+      if (fileExtension === 'csv') {
+        addLog('Parsing CSV...');
+        const { rows, dialect, issues } = await parseCSVFile(file, csvImportOptions, (fraction) => setStatusMessage(`Parsing ${file.name}... ${Math.round(fraction * 100)}%`));
+        localOrganizationSheetData = rows;
+        setDetectedCsvDialect(dialect);
+        setCsvExportOptions({ delimiter: dialect.delimiter, quoteChar: dialect.quoteChar, lineEnding: dialect.lineEnding, bom: dialect.hasBom });
+        setCsvParseIssues(issues);
+        addLog(`CSV dialect: delimiter ${describeCsvDelimiter(dialect.delimiter)}, quote ${dialect.quoteChar}, encoding ${dialect.encoding}${dialect.hasBom ? ' (BOM)' : ''}, line ending ${dialect.lineEnding === '\r\n' ? 'CRLF' : 'LF'}.`);
+        if (issues.length > 0) addLog(`CSV parse: ${issues.length} malformed row issue(s) found. See the parse report in Section 1.`);
+      } else {
+        addLog('Parsing Excel...');
+        const fileContent = await file.arrayBuffer();
+        const workbook = XLSX.read(fileContent, { type: 'array', cellNF: false, cellText: true });
+        if (workbook.SheetNames.length === 0) throw new Error("Excel workbook empty.");
+        const summaries = summarizeWorkbookSheets(workbook);
+        const roles = guessSheetRoles(workbook, summaries);
+        setSourceWorkbook(workbook); setWorkbookSheetSummaries(summaries); setSheetRoles(roles);
+        addLog(`Workbook has ${summaries.length} sheet(s): ${summaries.map(sheet => `"${sheet.name}" (${sheet.rowCount} rows x ${sheet.columnCount} cols)`).join(', ')}.`);
+        addLog(`Sheet roles guessed: Organizations = "${roles.organizations}", Contacts = ${roles.contacts ? `"${roles.contacts}"` : 'none'}. Change them in Section 1 if needed.`);
+        localOrganizationSheetData = readSheetRows(workbook, roles.organizations);
+        if (roles.contacts) localContactsSheetData = readSheetRows(workbook, roles.contacts);
+      }
+      beginImport({ orgsData: localOrganizationSheetData, contactsData: localContactsSheetData && localContactsSheetData.length > 0 ? localContactsSheetData : null, source: fileExtension === 'csv' ? 'csv' : 'excel' });
+    } catch (err: any) { console.error(`Error processing ${file.name}:`, err); datasetStore.reset(null, ''); setStatusMessage(`Error: ${err.message}`); addLog(`Error: ${err.message}`);
+    } finally { initialLoadingSetter(false); }
   };
   
-  // --- Test Handlers ---
-  const handleContactCorrectionTest = () => {
-    addLog("Initiating Contact Account Correction Test."); if (!originalContactsSampleForCorrectionTestDisplay || originalContactsSampleForCorrectionTestDisplay.length < 1) { setStatusMessage("Contact Correction Test: No original contacts sample loaded (Excel with 2nd sheet needed)."); addLog("Contact Correction Test: Original sample unavailable."); setCorrectedContactsTestDataForTable(null); return; }
-    setIsTestingContactCorrection(true); setStatusMessage(`Contact Correction Test: Processing sample...`); const correctedSample = correctContactSheetAccountAssignments(originalContactsSampleForCorrectionTestDisplay); setCorrectedContactsTestDataForTable(correctedSample);
-    setStatusMessage(`Contact Account Correction Test Complete.`); addLog(`Contact Correction Test Complete.`); setIsTestingContactCorrection(false);
+  // --- Dataset History Handlers ---
+  const handleUndo = () => {
+    const undone = datasetStore.undo();
+    if (!undone) return;
+    const msg = `Undid "${undone.label}".`;
+    setStatusMessage(msg); addLog(msg);
   };
-  const handlePreprocessingTest = () => { // This is the URL pre-fill test
-    addLog("Initiating Pre-processing Test (Step 1 - URL pre-fill from contacts)."); setIsTestingPreprocessing(true); setDeletedPlaceholderDescRowsTestDataForTable(null); setDeletedMostlyEmptyRowsTestDataForTable(null); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); let currentDataForTest: string[][]; try { currentDataForTest = JSON.parse(displayData); } catch { setStatusMessage("Pre-processing Test: Invalid JSON in main display area. Cannot proceed."); addLog("Pre-processing Test: Error parsing main display data."); setIsTestingPreprocessing(false); return;} if (currentDataForTest.length < 2) {setStatusMessage("Pre-processing Test: Not enough data in main display."); addLog("Pre-processing Test: Not enough data for test."); setIsTestingPreprocessing(false); return;}
-    const testSample = [currentDataForTest[0], ...currentDataForTest.slice(1, Math.min(currentDataForTest.length, TEST_DATA_ROW_COUNT + 1))];
-    if (rawContactsSheetData && rawContactsSheetData.length > 1) { const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(testSample, rawContactsSheetData); setPreprocessedTestDataForTable(updatedOrgsData); addLog(`Pre-processing Test: ${prefilledCount} URLs pre-filled in the ${updatedOrgsData.length -1} row sample.`); } else { setPreprocessedTestDataForTable(testSample); addLog("Pre-processing Test: No contacts data to pre-fill URLs from in the sample."); }
-    setStatusMessage(`Pre-processing Test (URL Pre-fill from Contacts) Complete.`); setIsTestingPreprocessing(false);
-  };
-  const handlePlaceholderDescRowDeletionTest = () => {
-    addLog("Initiating Placeholder Desc Row Deletion Test."); setIsTestingPlaceholderDescRowDeletion(true); setDeletedMostlyEmptyRowsTestDataForTable(null); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); let dataToProcess = preprocessedTestDataForTable; if (!dataToProcess) { try { dataToProcess = JSON.parse(displayData); dataToProcess = [dataToProcess![0], ...dataToProcess!.slice(1, Math.min(dataToProcess!.length, TEST_DATA_ROW_COUNT + 1))]; } catch { setStatusMessage("Placeholder Deletion Test: Invalid JSON or previous test result missing."); setIsTestingPlaceholderDescRowDeletion(false); return; } } if (!dataToProcess || dataToProcess.length < 2) { setStatusMessage("Placeholder Deletion Test: Not enough data from previous step."); setIsTestingPlaceholderDescRowDeletion(false); return; }
-    const { cleanedData, rowsDeleted } = performPlaceholderDescRowDeletionLogic(dataToProcess, "Test"); setDeletedPlaceholderDescRowsTestDataForTable(cleanedData); addLog(`Placeholder Deletion Test: ${rowsDeleted} rows removed from sample.`); setStatusMessage(`Placeholder Deletion Test Complete.`); setIsTestingPlaceholderDescRowDeletion(false);
-  };
-  const handleMostlyEmptyRowsTest = () => {
-    addLog("Initiating Mostly Empty Row Deletion Test."); setIsTestingMostlyEmptyRowDeletion(true); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); let dataToProcess = deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable; if (!dataToProcess) { try { dataToProcess = JSON.parse(displayData); dataToProcess = [dataToProcess![0], ...dataToProcess!.slice(1, Math.min(dataToProcess!.length, TEST_DATA_ROW_COUNT + 1))]; } catch { setStatusMessage("Mostly Empty Deletion Test: Invalid JSON or previous test result missing."); setIsTestingMostlyEmptyRowDeletion(false); return; } } if (!dataToProcess || dataToProcess.length < 2) { setStatusMessage("Mostly Empty Deletion Test: Not enough data from previous step."); setIsTestingMostlyEmptyRowDeletion(false); return; }
-    const { cleanedData, rowsDeleted } = performMostlyEmptyRowsLogic(dataToProcess, "Test"); setDeletedMostlyEmptyRowsTestDataForTable(cleanedData); addLog(`Mostly Empty Row Deletion Test: ${rowsDeleted} rows removed from sample.`); setStatusMessage(`Mostly Empty Row Deletion Test Complete.`); setIsTestingMostlyEmptyRowDeletion(false);
-  };
-  const handleMergeDuplicatesTest = () => {
-    addLog("Initiating Merge Duplicates Test."); setIsTestingMergingDuplicates(true); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); let dataToProcess = deletedMostlyEmptyRowsTestDataForTable || deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable; if (!dataToProcess) { try { dataToProcess = JSON.parse(displayData); dataToProcess = [dataToProcess![0], ...dataToProcess!.slice(1, Math.min(dataToProcess!.length, TEST_DATA_ROW_COUNT + 1))]; } catch { setStatusMessage("Merge Duplicates Test: Invalid JSON or previous test result missing."); setIsTestingMergingDuplicates(false); return; } } if (!dataToProcess || dataToProcess.length < 2) { setStatusMessage("Merge Duplicates Test: Not enough data from previous step."); setIsTestingMergingDuplicates(false); return; }
-    const { mergedData, rowsAfter, rowsBefore } = performMergeDuplicatesLogic(dataToProcess, "Test"); setMergedTestDataForTable(mergedData); addLog(`Merge Duplicates Test: Started with ${rowsBefore} data rows, resulted in ${rowsAfter} rows.`); setStatusMessage(`Merge Duplicates Test Complete.`); setIsTestingMergingDuplicates(false);
-  };
-  const handleAiTestOnPreprocessedData = async () => { // URL Finding Test
-    if (!genAI) { setStatusMessage('AI Test: Gemini API key missing.'); return; }
-    const dataForAiTest = mergedTestDataForTable || deletedMostlyEmptyRowsTestDataForTable || deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable;
-    if (!dataForAiTest || dataForAiTest.length < 2) { setStatusMessage("AI URL Finding Test: Run previous test steps first or ensure data is loaded."); addLog("AI URL Finding Test: No preprocessed data for AI test."); return; }
-    addLog(`Initiating AI URL Finding Test on ${dataForAiTest.length -1} data rows from the test sample.`); setIsTestingAiOnPreprocessed(true); setPreRunEstimation(null);
-    const modelToUse = 'gemini-2.5-flash-preview-04-17';
-    setCurrentOperationStats({ operationType: 'test_url', status: 'running', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: modelToUse, progressMessage: `Processing ${dataForAiTest.length -1} rows...` });
-    setAiGroundingSources([]); const dataForAiTestString = JSON.stringify(dataForAiTest);
-    const testPrompt = `For the provided JSON array of CSV data (first row is headers): <data>${dataForAiTestString}</data> Task: 1. For each data row (skip header): a. Organization Name is in Column A (index 0). b. Using Google Search to find the official website URL. Prioritize known businesses. c. If URL found, put main domain (e.g., "company.com") in Column C. Ensure Column C header is "Website URL". If Column C doesn't exist, add it with this header. d. If no URL or not a business, ensure Column C is an empty string. e. Preserve all other data. 2. Output the *entire modified data* (header + data rows) as a JSON array of arrays. All cell values must be strings.`;
-    let response: GenerateContentResponse | undefined; let opInputTokens = 0; let opOutputTokens = 0; let opApiRequests = 0;
-    try {
-      const promptTokenContents: Content[] = [{role: 'user', parts: [{text: testPrompt}]}]; opInputTokens = await getTokenCountForModel(promptTokenContents, modelToUse);
-      setCurrentOperationStats(prev => ({ ...prev, inputTokens: opInputTokens, estimatedCost: calculateOperationCost(opInputTokens, 0, 1, 'flash') }));
-      response = await genAI.models.generateContent({ model: modelToUse, contents: promptTokenContents, config: { tools: [{googleSearch: {}}] } });
-      opApiRequests = 1; if (!response || typeof response.text !== 'string') { addLog("AI URL Test: API call completed but response or response.text is invalid/missing."); throw new Error("Invalid/empty AI response structure from Gemini API."); }
-      addLog(`AI URL Test: Received response. Raw AI response (first 100 chars): ${response.text.substring(0,100)}...`);
-      const responseTokenContents: Content[] = [{role: 'model', parts: [{text: response.text}]}]; opOutputTokens = await getTokenCountForModel(responseTokenContents, modelToUse);
-      setCurrentOperationStats(prev => ({ ...prev, outputTokens: opOutputTokens, apiRequests: opApiRequests, estimatedCost: calculateOperationCost(opInputTokens, opOutputTokens, opApiRequests, 'flash') }));
-      let aiResponseText = response.text.trim(); addLog(`AI URL Test: Processing AI response (Output Tokens: ${opOutputTokens}).`); const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s; let match = aiResponseText.match(fenceRegex);
-      if (match && match[2]) { aiResponseText = match[2].trim(); addLog("AI URL Test: Removed markdown fences from AI response."); } else { addLog("AI URL Test: No markdown fences found. Trying to extract JSON array directly."); const firstBracket = aiResponseText.indexOf('['); const lastBracket = aiResponseText.lastIndexOf(']'); if (firstBracket !== -1 && lastBracket > firstBracket) { const potentialJson = aiResponseText.substring(firstBracket, lastBracket + 1); try { JSON.parse(potentialJson); aiResponseText = potentialJson; addLog("AI URL Test: Successfully extracted JSON array from response."); } catch { addLog("AI URL Test: Failed to extract a valid JSON array from response, proceeding with original text."); } } else { addLog("AI URL Test: No JSON array brackets found, proceeding with original text."); } }
-      const suggestedAiTestDataUncleaned = JSON.parse(aiResponseText);
-      if (Array.isArray(suggestedAiTestDataUncleaned)) { const suggestedAiTestData = cleanAiNotFoundResponses(suggestedAiTestDataUncleaned); setAiTestedDataForTable(suggestedAiTestData); addLog("AI URL Test: Parsed & cleaned AI response.");
-        const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-        if (groundingMetadata?.groundingChunks) { const webChunks = groundingMetadata.groundingChunks.filter(c => c.web && c.web.uri); setAiGroundingSources(webChunks); addLog(`AI URL Test: Found ${webChunks.length} valid grounding sources.`); } else {addLog("AI URL Test: No web grounding sources found in AI response.");}
-        setCurrentOperationStats(prev => ({ ...prev, status: 'completed', progressMessage: 'AI URL Finding Test complete.' }));
-      } else { throw new Error(`AI URL Test: AI response was not a JSON array.`); }
-    } catch (e: any) { console.error(`AI URL Test: Error:`, e); setStatusMessage(`AI URL Finding Test: Error: ${e.message}.`); addLog(`AI URL Finding Test: Error encountered: ${e.message}`); setCurrentOperationStats(prev => ({ ...prev, status: 'error', progressMessage: `Error: ${e.message}` }));
-    } finally { setTotalInputTokens(p => p + opInputTokens); setTotalOutputTokens(p => p + opOutputTokens); setTotalApiRequestsMade(p => p + opApiRequests); setEstimatedCost(prev => prev + calculateOperationCost(opInputTokens, opOutputTokens, opApiRequests, 'flash'));  recalculateCumulativeSessionCost(); setIsTestingAiOnPreprocessed(false); }
-  };
-
-  const generateDetailedDescriptionForOrganization = async (
-    orgName: string, orgUrl: string, existingDesc: string, 
-    currentOpAccumulators: { input: number; output: number; requests: number; cost: number },
-    updateOpStatsCallback: (opTokens: {input: number, output: number, requests: number, cost: number}) => void
-  ): Promise<{text: string, opTokens?: {input: number, output: number, requests: number}}> => {
-      if (!genAI) throw new Error("Gemini API key not configured.");
-      addLog(`Dossier Gen: Starting for "${orgName}"`);
-      const modelToUse = 'gemini-2.5-pro-preview-04-17';
-      const masterPromptTemplate = `Master Prompt: AI Corporate Intelligence Dossier Generation
-This prompt is designed to be given to an advanced, tool-enabled AI model (like Gemini) to generate a comprehensive and structured description for each organization in your CRM, following an initial data preprocessing and enrichment stage.
-
-ROLE & GOAL
-You are a world-class strategic business and market research analyst. Your sole objective is to create a comprehensive "Corporate Intelligence Dossier" for a target company. This dossier must be meticulously researched, data-driven, and formatted precisely according to the structure provided below.
-
-This output is not for human consumption alone; it will be the primary input for a sophisticated downstream AI engine that finds non-obvious business opportunities. Therefore, the richness, detail, and structure of your output are critical for that AI's success. Your research must be exhaustive and your synthesis insightful.
-
-CONTEXT: The Analytical Models Your Output Will Power
-The downstream AI engine that will parse your dossier thinks in terms of specific analytical models. To be effective, your research must provide the necessary data to power these models:
-
-Latent Capability Matching: The AI looks for hidden or unstated capabilities. It connects a customer's need (e.g., "durable ground coverings") to a non-obvious supplier capability (e.g., a "metal foundry"). Your detailed analysis of a company's technology, materials, and processes is essential for this.
-
-Ecosystem Graph-Building: The AI maps an entire business ecosystem to find supply chain gaps and partnership opportunities. Your analysis of a company's Value Chain Role (e.g., Are they an OEM, a Distributor, or a Systems Integrator?), their partners, customers, and competitors is the raw material for this graph.
-
-Contextual Influence & Compatibility Modeling: The AI assesses who the right person is for an introduction based on their contextual influence, not just their job title. It also models the potential "vibe" or compatibility between companies based on their culture and mission. Your analysis of key personnel and corporate values directly feeds this model.
-
-Your research and output must directly and comprehensively serve these three analytical goals.
-
-INPUT DATA
-You will be provided with the following initial data for the target organization, which has already been cleaned and preprocessed:
-
-Organization Name: ${orgName}
-Website URL: ${orgUrl || '(No URL provided, please try to find if one exists. If a valid official website is found, use it for your research.)'}
-Existing Description (Optional): ${existingDesc || '(No existing description provided.)'}
-
-REQUIRED DOSSIER STRUCTURE & CONTENT (2000-3000 words)
-You must use your advanced web search and browsing tools to find, analyze, and synthesize information to populate the following markdown structure. Adhere to this format precisely.
-
-Important: If an "Existing Description" is provided as input, use it as a starting point and source of information for your research, but do not be limited by it. Your final output must fully conform to the detailed structure below, replacing the original description with your new, more comprehensive, and deeply structured analysis.
-
-Corporate Intelligence Dossier: ${orgName}
-Section A: Executive Overview & Strategic Posture
-High-Level Summary (c. 200 words): A dense, executive-level summary of the company. Who are they, what do they do, and what is their primary position in the market? What is their core value proposition?
-
-Mission, Vision, and Stated Values (c. 150 words): Quote the company's official mission, vision, or core values. Analyze what these statements imply about their corporate culture, strategic priorities, and decision-making framework.
-
-Key Financials & Corporate Structure (c. 150 words): Provide the most recent data on annual revenue, employee count, and any funding rounds/status (public, private, VC-backed). Note their headquarters location and any other major operational centers. Classify their size on a 1-5 tier (1=startup, 5=large enterprise).
-
-Section B: Deep Capability & Operational Analysis
-This section is the most critical for the downstream AI's analysis.
-
-Primary Business Model (c. 200 words): Detail exactly how the company makes money. Is it B2B hardware sales with service contracts, tiered SaaS subscriptions, project-based consulting fees, distribution margins, licensing fees, etc.? Describe the typical sales cycle or customer engagement model.
-
-Core Products (c. 400 words): List their main products. For each major product, provide a detailed description of its function, key features, and the problem it solves. Do not just list marketing points; explain what it does.
-
-Core Services (c. 400 words): List their main services. For each service, describe what the service entails, the process of delivery, and the value it provides to customers. This could include professional services, managed services, support, implementation, etc.
-
-Key Underlying Technologies & Processes (c. 300 words): This is a crucial section for uncovering latent opportunities. Go beyond the product names. What specific technologies, patents, proprietary processes, or material specializations power their offerings? (e.g., "utilizes a patented 900MHz mesh networking protocol for their IoT devices," "specializes in CNC machining of Inconel and other exotic alloys," "leverages a proprietary AI/ML algorithm for predictive maintenance," "holds patents for a specific chemical bonding process").
-
-Target Markets & Ideal Customer Profile (ICP) (c. 250 words): What specific industries and sub-verticals do they sell to? Describe their ideal customer in detail. What is the size, technical sophistication, and business need of a company that buys from them?
 
-Section C: Ecosystem, Value Chain, and Network Analysis
-Value Chain Roles (Narrative Analysis): Based on your complete analysis, describe the organization's primary roles within its key industry verticals in a clear, narrative paragraph. Explicitly use terms like "OEM," "Distributor," "Component Supplier," "End-User," "Service Provider," and "Systems Integrator."
-
-Example 1 (Traffic Hardware Co.): "Within the Traffic Safety vertical, the company functions primarily as an Original Equipment Manufacturer (OEM) and a Solution Provider, designing and building its own branded hardware. In the broader Smart Cities space, it acts as a Component Supplier to larger systems integrators and a strategic Partner to technology firms."
-
-Example 2 (Industrial Distributor): "The company's core role is as a Distributor in the Industrial Automation market. For its electronics offerings, it also functions as a Component Supplier. In providing logistics and inventory management for its clients, it can be classified as a Service Provider."
-
-Known Suppliers & Strategic Technology/Channel Partners (c. 200 words): List their key suppliers or publicly announced technology/channel partners. (e.g., "They are a certified partner of Microsoft Azure," "They use Salesforce as their core CRM," "They list a partnership with Oracle on their website."). This is vital for mapping the dependency graph.
-
-Known Customers & Case Studies (c. 250 words): List any publicly named customers or summarize key case studies. What were the customers' problems and what results did the organization deliver? This provides concrete evidence of their capabilities.
-
-Known Competitors (c. 200 words): List their main direct and indirect competitors. Briefly describe why each is a competitor.
-
-Section D: Strategic & Forward-Looking Analysis
-Strategic Direction & Recent News (c. 300 words): Summarize the company's recent strategic direction based on press releases, news articles, blog posts, and leadership statements from the last 12-18 months. Are they expanding into new markets, launching major products, acquiring companies, or investing heavily in specific R&D?
-
-Key Personnel & Inferred Influence (c. 250 words): Identify 3-5 key leaders (C-suite, VPs, Directors). For each, provide their title and infer their primary dimension of influence based on their role. You must use and justify one of the following five classifications for each person's primary influence:
-
-Spec-Driving Power: The ability to define or influence technical specifications. This is the power of the "trusted user" like an engineer or foreman who decides what features a product needs.
-
-Purchasing Power: The authority to execute a purchase or sign a contract. This is the power of a procurement officer or department head who controls the budget.
-
-Strategic Power: The authority to initiate new, large-scale projects or approve major strategic shifts. This is the power of a C-level executive or visionary who can greenlight a new direction.
-
-Networking Power: An individual known for their extensive connections and ability to facilitate introductions between other people or organizations.
-
-Champion Power: The ability to build internal support for an idea or project, even without formal authority. This is the power of a respected internal influencer who can get other people's attention.
-
-Example: "Jane Doe, Chief Technology Officer - Primary Influence: Strategic Power. As CTO, she is responsible for the company's long-term technology vision and makes decisions on large-scale platform investments, which directly aligns with initiating new, strategic projects."
-
-INSTRUCTIONS & CONSTRAINTS
-Be Exhaustive: Use your tools to go deep. Your research should include the company website, news articles, press releases, technical white papers, case studies, partner pages, and professional networking site data.
+  const handleRedo = () => {
+    const redone = datasetStore.redo();
+    if (!redone) return;
+    const msg = `Redid "${redone.label}".`;
+    setStatusMessage(msg); addLog(msg);
+  };
 
-Cite Sources: For specific, non-obvious data points (like financial numbers, partnerships, or technical specifications), use markdown footnotes [^1]. List the full URLs for the footnotes at the very end of the document.
+  const handleExportChangeSet = (entry: DatasetHistoryEntry, changes: DatasetChange[]) => {
+    try {
+      const csvString = stringifyCSV(changeSetToTable(changes, entry.dataset.header), csvExportOptions);
+      const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+      const baseFileName = fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, '');
+      const stepSlug = entry.label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 40);
+      const changesFileName = `${baseFileName}_changes_${stepSlug}.csv`;
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', changesFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Change set download started as ${changesFileName}.`);
+      addLog(`Change set for "${entry.label}" (${changes.length} change(s)) exported as ${changesFileName}.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error exporting change set: ${errorMsg}`);
+      addLog(`Error exporting change set: ${errorMsg}`);
+    }
+  };
 
-Word Count: The final dossier must be between 2000 and 3000 words.
+  const handleCellEdit = (rowId: string, colIndex: number, value: string) => {
+    const currentData = getDataset();
+    if (!currentData) return;
+    const rowIndex = currentData.rows.findIndex(row => row.id === rowId);
+    if (rowIndex === -1) return;
+    const row = currentData.rows[rowIndex];
+    const previousValue = String(row.cells[colIndex] ?? '');
+    const rows = [...currentData.rows];
+    rows[rowIndex] = withCellValue(row, colIndex, value, { source: 'manual', timestamp: Date.now(), method: 'Edited in the data grid' });
+    const cellRef = `${columnIndexToLetter(colIndex)}${rowIndex + 2}`;
+    const shorten = (text: string) => text.length > 40 ? `${text.substring(0, 40)}...` : text;
+    const orgName = String(row.cells[columnMapping.orgName] ?? '').trim();
+    datasetStore.commit({ header: currentData.header, rows }, `Edit cell ${cellRef}: "${shorten(previousValue)}" → "${shorten(value)}"`, [{ type: 'cell', rowId, rowNumber: rowIndex + 1, orgName, column: colIndex, oldValue: previousValue, newValue: value }]);
+    addLog(`Manual Edit: ${describeColumn(currentData.header, colIndex)} in row ${rowIndex + 1}${orgName ? ` ("${orgName}")` : ''} changed from "${shorten(previousValue)}" to "${shorten(value)}".`);
+  };
 
-Tone: Maintain a professional, objective, data-driven, and analytical tone.
+  // --- Test Handlers ---
+  const handleContactCorrectionTest = () => {
+    addLog("Initiating Contact Account Correction Test."); if (!originalContactsSampleForCorrectionTestDisplay || originalContactsSampleForCorrectionTestDisplay.length < 1) { setStatusMessage("Contact Correction Test: No original contacts sample loaded (Excel with 2nd sheet needed)."); addLog("Contact Correction Test: Original sample unavailable."); setCorrectedContactsTestDataForTable(null); return; }
+    setIsTestingContactCorrection(true); setStatusMessage(`Contact Correction Test: Processing sample...`); const correctedSample = correctContactSheetAccountAssignments(originalContactsSampleForCorrectionTestDisplay, columnMapping); setCorrectedContactsTestDataForTable(correctedSample);
+    setStatusMessage(`Contact Account Correction Test Complete.`); addLog(`Contact Correction Test Complete.`); setIsTestingContactCorrection(false);
+  };
+  const handlePreprocessingTest = () => { // This is the URL pre-fill test
+    addLog("Initiating Pre-processing Test (Step 1 - URL pre-fill from contacts)."); setIsTestingPreprocessing(true); setDeletedPlaceholderDescRowsTestDataForTable(null); setDeletedMostlyEmptyRowsTestDataForTable(null); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); const currentDataForTest = getDataset(); if (!currentDataForTest || currentDataForTest.rows.length === 0) {setStatusMessage("Pre-processing Test: Not enough data in main display."); addLog("Pre-processing Test: Not enough data for test."); setIsTestingPreprocessing(false); return;}
+    const testSample = sliceDataset(currentDataForTest, TEST_DATA_ROW_COUNT);
+    if (rawContactsSheetData && rawContactsSheetData.length > 1) { const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(testSample, rawContactsSheetData, columnMapping); setPreprocessedTestDataForTable(updatedOrgsData); addLog(`Pre-processing Test: ${prefilledCount} URLs pre-filled in the ${updatedOrgsData.rows.length} row sample.`); } else { setPreprocessedTestDataForTable(testSample); addLog("Pre-processing Test: No contacts data to pre-fill URLs from in the sample."); }
+    setStatusMessage(`Pre-processing Test (URL Pre-fill from Contacts) Complete.`); setIsTestingPreprocessing(false);
+  };
+  const handlePlaceholderDescRowDeletionTest = () => {
+    addLog("Initiating Placeholder Desc Row Deletion Test."); setIsTestingPlaceholderDescRowDeletion(true); setDeletedMostlyEmptyRowsTestDataForTable(null); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); const currentData = getDataset(); const dataToProcess = preprocessedTestDataForTable ?? (currentData && sliceDataset(currentData, TEST_DATA_ROW_COUNT)); if (!dataToProcess || dataToProcess.rows.length === 0) { setStatusMessage("Placeholder Deletion Test: Not enough data from previous step."); setIsTestingPlaceholderDescRowDeletion(false); return; }
+    const { cleanedData, rowsDeleted } = performPlaceholderDescRowDeletionLogic(dataToProcess, "Test", columnMapping, getPipelineStepParams(pipelineRecipe, 'deletePlaceholderRows').placeholderText?.trim() || DEFAULT_PLACEHOLDER_DESCRIPTION); setDeletedPlaceholderDescRowsTestDataForTable(cleanedData); addLog(`Placeholder Deletion Test: ${rowsDeleted} rows removed from sample.`); setStatusMessage(`Placeholder Deletion Test Complete.`); setIsTestingPlaceholderDescRowDeletion(false);
+  };
+  const handleMostlyEmptyRowsTest = () => {
+    addLog("Initiating Mostly Empty Row Deletion Test."); setIsTestingMostlyEmptyRowDeletion(true); setMergedTestDataForTable(null); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); const currentData = getDataset(); const dataToProcess = deletedPlaceholderDescRowsTestDataForTable ?? preprocessedTestDataForTable ?? (currentData && sliceDataset(currentData, TEST_DATA_ROW_COUNT)); if (!dataToProcess || dataToProcess.rows.length === 0) { setStatusMessage("Mostly Empty Deletion Test: Not enough data from previous step."); setIsTestingMostlyEmptyRowDeletion(false); return; }
+    const { cleanedData, rowsDeleted } = performMostlyEmptyRowsLogic(dataToProcess, "Test", columnMapping); setDeletedMostlyEmptyRowsTestDataForTable(cleanedData); addLog(`Mostly Empty Row Deletion Test: ${rowsDeleted} rows removed from sample.`); setStatusMessage(`Mostly Empty Row Deletion Test Complete.`); setIsTestingMostlyEmptyRowDeletion(false);
+  };
+  const handleMergeDuplicatesTest = () => {
+    addLog("Initiating Merge Duplicates Test."); setIsTestingMergingDuplicates(true); setAiTestedDataForTable(null); setDetailedDescriptionTestOutput(null); const currentData = getDataset(); const dataToProcess = deletedMostlyEmptyRowsTestDataForTable ?? deletedPlaceholderDescRowsTestDataForTable ?? preprocessedTestDataForTable ?? (currentData && sliceDataset(currentData, TEST_DATA_ROW_COUNT)); if (!dataToProcess || dataToProcess.rows.length === 0) { setStatusMessage("Merge Duplicates Test: Not enough data from previous step."); setIsTestingMergingDuplicates(false); return; }
+    const { mergedData, rowsAfter, rowsBefore } = performMergeDuplicatesLogic(dataToProcess, "Test", columnMapping); setMergedTestDataForTable(mergedData); addLog(`Merge Duplicates Test: Started with ${rowsBefore} data rows, resulted in ${rowsAfter} rows.`); setStatusMessage(`Merge Duplicates Test Complete.`); setIsTestingMergingDuplicates(false);
+  };
+  const handleAiTestOnPreprocessedData = async () => { // URL Finding Test
+    if (!aiProvider) { setStatusMessage('AI Test: No AI provider is configured.'); return; }
+    const dataForAiTest = mergedTestDataForTable || deletedMostlyEmptyRowsTestDataForTable || deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable;
+    if (!dataForAiTest || dataForAiTest.rows.length === 0) { setStatusMessage("AI URL Finding Test: Run previous test steps first or ensure data is loaded."); addLog("AI URL Finding Test: No preprocessed data for AI test."); return; }
+    addLog(`Initiating AI URL Finding Test on ${dataForAiTest.rows.length} data rows from the test sample.`); setIsTestingAiOnPreprocessed(true); setPreRunEstimation(null);
+    const generation = resolveTaskGeneration(modelSettings.tasks.urlLookup, 'urlLookup', aiProvider);
+    const modelToUse = generation.model;
+    setCurrentOperationStats({ operationType: 'test_url', status: 'running', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: modelToUse, progressMessage: `Processing ${dataForAiTest.rows.length} rows...` });
+    const { signal, owned } = beginRunControl(false);
+    const urlPromptTemplate = getActivePromptTemplate(promptLibrary, 'urlLookup');
+    const testPrompt = buildUrlLookupPrompt(dataForAiTest.rows, columnMapping, urlPromptTemplate.text);
+    let opInputTokens = 0; let opOutputTokens = 0; let opApiRequests = 0;
+    try {
+      opInputTokens = await getTokenCountForModel(testPrompt, modelToUse);
+      setCurrentOperationStats(prev => ({ ...prev, inputTokens: opInputTokens, estimatedCost: calculateOperationCost(opInputTokens, 0, 1, modelToUse) }));
+      const response = await scheduleAiRequest('flash', opInputTokens, () => aiProvider.generate({ ...generation, prompt: testPrompt, responseSchema: URL_LOOKUP_RESPONSE_SCHEMA }), signal);
+      opApiRequests = 1;
+      addLog(`AI URL Test: Received response. Raw AI response (first 100 chars): ${response.text.substring(0,100)}...`);
+      opOutputTokens = response.usage?.outputTokens ?? await getTokenCountForModel(response.text, modelToUse);
+      setCurrentOperationStats(prev => ({ ...prev, outputTokens: opOutputTokens, apiRequests: opApiRequests, estimatedCost: calculateOperationCost(opInputTokens, opOutputTokens, opApiRequests, modelToUse) }));
+      addLog(`AI URL Test: Processing AI response (Output Tokens: ${opOutputTokens}).`);
+      const { results, missingIds } = parseUrlLookupResponse(response.text, dataForAiTest.rows.map(row => row.id));
+      if (missingIds.length > 0) addLog(`AI URL Test: AI returned no record for ${missingIds.length} of ${dataForAiTest.rows.length} rows. Those rows are left unchanged.`);
+      // Only the URL column is written, matched to the sample by row ID, as in the full run.
+      const resultsById = new Map(results.map(result => [result.id, result]));
+      const recordedAt = Date.now();
+      const groundingUris = response.groundingUris.slice(0, MAX_PROVENANCE_GROUNDING_URIS);
+      setAiTestedDataForTable({ header: dataForAiTest.header, rows: dataForAiTest.rows.map(row => { const result = resultsById.get(row.id); return result && result.url !== String(row.cells[columnMapping.websiteUrl] ?? '') ? withCellValue(row, columnMapping.websiteUrl, result.url, { source: 'ai_url', timestamp: recordedAt, method: `${modelToUse}, ${result.confidence} confidence: ${result.reason}`, groundingUris, promptVersion: formatPromptVersion('urlLookup', urlPromptTemplate.version) }) : row; }) });
+      addLog(`AI URL Test: Merged ${results.length} validated record(s) (${results.filter(result => result.confidence === 'high').length} high confidence).`);
+      setCurrentOperationStats(prev => ({ ...prev, status: 'completed', progressMessage: 'AI URL Finding Test complete.' }));
+    } catch (e: any) {
+      if (isAbortError(e)) { setStatusMessage('AI URL Finding Test cancelled.'); addLog('AI URL Finding Test: Cancelled.'); setCurrentOperationStats(prev => ({ ...prev, status: 'cancelled', progressMessage: 'Cancelled.' })); }
+      else { console.error(`AI URL Test: Error:`, e); setStatusMessage(`AI URL Finding Test: Error: ${e.message}.`); addLog(`AI URL Finding Test: Error encountered: ${e.message}`); setCurrentOperationStats(prev => ({ ...prev, status: 'error', progressMessage: `Error: ${e.message}` })); }
+    } finally { setTotalInputTokens(p => p + opInputTokens); setTotalOutputTokens(p => p + opOutputTokens); setTotalApiRequestsMade(p => p + opApiRequests); setEstimatedCost(prev => prev + calculateOperationCost(opInputTokens, opOutputTokens, opApiRequests, modelToUse)); recordGroundedRequests('urlLookup', generation, opApiRequests); setIsTestingAiOnPreprocessed(false); endRunControl(owned); }
+  };
 
-Final Output: Your final response must be a single, clean markdown document. Do not include conversational filler. Begin the response immediately with the dossier's title.`;
+  const generateDetailedDescriptionForOrganization = async (
+    orgName: string, prompt: string, generation: TaskGenerationOptions,
+    currentOpAccumulators: { input: number; output: number; requests: number; cost: number },
+    updateOpStatsCallback: (opTokens: {input: number, output: number, requests: number, cost: number}) => void,
+    maxRetries: number = DEFAULT_DOSSIER_MAX_RETRIES,
+    signal?: AbortSignal
+  ): Promise<{text: string, opTokens?: {input: number, output: number, requests: number}, groundingUris?: string[]}> => {
+      if (!aiProvider) throw new Error("No AI provider is configured.");
+      addLog(`Dossier Gen: Starting for "${orgName}"`);
+      const modelToUse = generation.model;
 
       let retries = 0;
-      const MAX_PRO_RETRIES = 1; // Fewer retries for longer generation
+      const MAX_PRO_RETRIES = maxRetries;
       let opTokensForCall = { input: 0, output: 0, requests: 0 };
 
-      const promptContent: Content[] = [{ role: 'user', parts: [{ text: masterPromptTemplate }] }];
-      opTokensForCall.input = await getTokenCountForModel(promptContent, modelToUse);
+      opTokensForCall.input = await getTokenCountForModel(prompt, modelToUse);
       
       currentOpAccumulators.input += opTokensForCall.input;
-      let costForThisCall = calculateOperationCost(opTokensForCall.input, 0, 1, 'pro');
+      let costForThisCall = calculateOperationCost(opTokensForCall.input, 0, 1, modelToUse);
       updateOpStatsCallback({input: opTokensForCall.input, output: 0, requests: 0, cost: costForThisCall});
 
 
@@ -934,33 +4759,24 @@ Final Output: Your final response must be a single, clean markdown document. Do
               if (retries > 0) {
                   const delay = 3000 * Math.pow(2, retries - 1); // Longer initial backoff for pro model
                   addLog(`Dossier Gen for "${orgName}": Retrying (attempt ${retries + 1}) after ${delay}ms...`);
-                  await new Promise(resolve => setTimeout(resolve, delay));
+                  await (signal ? abortableDelay(delay, signal) : new Promise(resolve => setTimeout(resolve, delay)));
               }
               addLog(`Dossier Gen for "${orgName}": Sending request to ${modelToUse} (Input Tokens: ${opTokensForCall.input}). Attempt ${retries + 1}.`);
-              const response = await genAI.models.generateContent({
-                  model: modelToUse,
-                  contents: promptContent,
-                  config: { tools: [{ googleSearch: {} }] } 
-              });
+              const response = await scheduleAiRequest('pro', opTokensForCall.input, () => aiProvider.generate({ ...generation, prompt }), signal);
               opTokensForCall.requests = 1;
-
-              if (!response || typeof response.text !== 'string') {
-                  addLog(`Dossier Gen for "${orgName}", attempt ${retries + 1}: Invalid or empty response structure from Gemini API.`);
-                  throw new Error("Invalid or empty response structure from Gemini Pro API.");
-              }
               
-              const responseContent: Content[] = [{ role: 'model', parts: [{ text: response.text }] }];
-              opTokensForCall.output = await getTokenCountForModel(responseContent, modelToUse);
+              opTokensForCall.output = response.usage?.outputTokens ?? await getTokenCountForModel(response.text, modelToUse);
               currentOpAccumulators.output += opTokensForCall.output;
               currentOpAccumulators.requests += opTokensForCall.requests;
               
-              costForThisCall = calculateOperationCost(opTokensForCall.input, opTokensForCall.output, opTokensForCall.requests, 'pro');
-              updateOpStatsCallback({input:0, output: opTokensForCall.output, requests: opTokensForCall.requests, cost: costForThisCall - calculateOperationCost(opTokensForCall.input, 0, 1, 'pro') }); // Update with output cost delta
+              costForThisCall = calculateOperationCost(opTokensForCall.input, opTokensForCall.output, opTokensForCall.requests, modelToUse);
+              updateOpStatsCallback({input:0, output: opTokensForCall.output, requests: opTokensForCall.requests, cost: costForThisCall - calculateOperationCost(opTokensForCall.input, 0, 1, modelToUse) }); // Update with output cost delta
 
               addLog(`Dossier Gen for "${orgName}": Received response (Output Tokens: ${opTokensForCall.output}).`);
-              return { text: response.text, opTokens: opTokensForCall };
+              return { text: response.text, opTokens: opTokensForCall, groundingUris: response.groundingUris };
 
           } catch (e: any) {
+              if (isAbortError(e)) throw e;
               addLog(`Dossier Gen for "${orgName}", attempt ${retries + 1} Error: ${e.message}`);
               retries++;
               if (retries > MAX_PRO_RETRIES) {
@@ -972,28 +4788,60 @@ Final Output: Your final response must be a single, clean markdown document. Do
       throw new Error(`Should not reach here - dossier generation failed for ${orgName}`);
   };
 
+  // Regenerates a dossier that fails validation, telling the model what was wrong, up to qualityRetries times.
+  // Keeps the attempt with the fewest defects; a failed regeneration request falls back to it instead of losing the row.
+  const generateValidatedDossier = async (
+    orgName: string, prompt: string, generation: TaskGenerationOptions,
+    currentOpAccumulators: { input: number; output: number; requests: number; cost: number },
+    updateOpStatsCallback: (opTokens: {input: number, output: number, requests: number, cost: number}) => void,
+    options: { maxRetries: number, qualityRetries: number, placeholderText: string },
+    signal?: AbortSignal
+  ): Promise<{ text: string, groundingUris?: string[], validation: DossierValidation, regenerations: number }> => {
+    let best: { text: string, groundingUris?: string[], validation: DossierValidation } | null = null;
+    let regenerations = 0;
+    while (true) {
+      const attemptPrompt = best ? `${prompt}\n\n${buildDossierFeedback(best.validation)}` : prompt;
+      let result: { text: string, groundingUris?: string[] };
+      try {
+        result = await generateDetailedDescriptionForOrganization(orgName, attemptPrompt, generation, currentOpAccumulators, updateOpStatsCallback, options.maxRetries, signal);
+      } catch (e) {
+        if (!best || isAbortError(e)) throw e;
+        addLog(`Dossier Gen for "${orgName}": Regeneration failed (${e instanceof Error ? e.message : String(e)}). Keeping the previous dossier.`);
+        break;
+      }
+      const validation = validateDossier(result.text, options.placeholderText);
+      if (!best || validation.defects.length <= best.validation.defects.length) best = { ...result, validation };
+      if (validation.passed) break;
+      addLog(`Dossier Gen for "${orgName}": Quality check failed: ${validation.defects.map(defect => defect.message).join(' ')}`);
+      if (regenerations >= options.qualityRetries) break;
+      regenerations++;
+      addLog(`Dossier Gen for "${orgName}": Regenerating with feedback (${regenerations} of ${options.qualityRetries}).`);
+    }
+    return { ...best, regenerations };
+  };
+
   const handleTestDescriptionGeneration = async () => {
-    if (!genAI) { setStatusMessage('Dossier Test: Gemini API key missing.'); return; }
-    let dataForTest: string[][];
-    try { dataForTest = JSON.parse(displayData); } catch { setStatusMessage("Dossier Test: Invalid JSON in display. Cannot proceed."); addLog("Dossier Test Error: Parsing main display data."); return; }
-    if (dataForTest.length < 2) { setStatusMessage("Dossier Test: Not enough data loaded."); addLog("Dossier Test: No data for test."); return; }
-
-    const firstDataRow = dataForTest[1];
-    const orgName = String(firstDataRow[0] ?? '').trim();
-    const orgUrl = String(firstDataRow[2] ?? '').trim();
-    const existingDesc = String(firstDataRow[63] ?? '').trim();
+    if (!aiProvider) { setStatusMessage('Dossier Test: No AI provider is configured.'); return; }
+    const dataForTest = getDataset();
+    if (!dataForTest || dataForTest.rows.length === 0) { setStatusMessage("Dossier Test: Not enough data loaded."); addLog("Dossier Test: No data for test."); return; }
+
+    const promptContext = getDossierPromptContext(dataForTest.header, dataForTest.rows[0], columnMapping);
+    const orgName = promptContext.variables.orgName;
     if (!orgName) { setStatusMessage("Dossier Test: First data row has no organization name."); addLog("Dossier Test: No org name in first row."); return; }
     
     addLog(`Initiating Detailed Dossier Generation Test for: "${orgName}"`);
     setIsTestingDescriptionGeneration(true); setDetailedDescriptionTestOutput(null); setPreRunEstimation(null);
-    const modelToUse = 'gemini-2.5-pro-preview-04-17';
+    const { signal, owned } = beginRunControl(false);
+    const generation = resolveTaskGeneration(modelSettings.tasks.dossier, 'dossier', aiProvider);
+    const modelToUse = generation.model;
     setCurrentOperationStats({ operationType: 'test_dossier', status: 'running', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: modelToUse, progressMessage: `Generating dossier for ${orgName}...`});
     
     let opAccumulator = { input: 0, output: 0, requests: 0, cost: 0 };
 
     try {
-      const {text: dossierText, opTokens} = await generateDetailedDescriptionForOrganization(
-        orgName, orgUrl, existingDesc, opAccumulator, 
+      const dossierStepParams = getPipelineStepParams(pipelineRecipe, 'generateDossiers');
+      const { text: dossierText, validation, regenerations } = await generateValidatedDossier(
+        orgName, renderPromptTemplate(getActivePromptTemplate(promptLibrary, 'dossier').text, promptContext), generation, opAccumulator,
         (stats) => { // Callback to update stats incrementally within this test
             setCurrentOperationStats(prev => ({
                 ...prev,
@@ -1002,504 +4850,1458 @@ Final Output: Your final response must be a single, clean markdown document. Do
                 apiRequests: prev.apiRequests + stats.requests,
                 estimatedCost: prev.estimatedCost + stats.cost
             }));
-        }
+        },
+        { maxRetries: DEFAULT_DOSSIER_MAX_RETRIES, qualityRetries: dossierStepParams.qualityRetries ?? DEFAULT_DOSSIER_QUALITY_RETRIES, placeholderText: getPipelineStepParams(pipelineRecipe, 'deletePlaceholderRows').placeholderText?.trim() || DEFAULT_PLACEHOLDER_DESCRIPTION },
+        signal
       );
       setDetailedDescriptionTestOutput(dossierText);
-      addLog(`Dossier Test: Successfully generated dossier for "${orgName}".`);
+      addLog(`Dossier Test: Successfully generated dossier for "${orgName}". Quality: ${describeDossierQuality(validation, regenerations)}`);
+      const parsedDossier = parseDossier(dossierText);
+      addLog(parsedDossier
+        ? `Dossier Test: Parsed ${DOSSIER_SECTIONS.length - parsedDossier.missingSections.length} of ${DOSSIER_SECTIONS.length} sections, size tier ${parsedDossier.sizeTier ?? 'not found'}, ${parsedDossier.valueChainRoles.length} value chain role(s), ${parsedDossier.partners.length} partner(s), ${parsedDossier.customers.length} customer(s), ${parsedDossier.competitors.length} competitor(s), ${parsedDossier.keyPersonnel.length} key person(s).`
+        : 'Dossier Test: The response has none of the expected dossier sections, so no dossier fields can be exported for it.');
       setCurrentOperationStats(prev => ({ ...prev, status: 'completed', progressMessage: 'Test complete.' }));
     } catch (e: any) {
-      addLog(`Dossier Test Error for "${orgName}": ${e.message}`);
-      setStatusMessage(`Dossier Test Error: ${e.message}`);
-      setDetailedDescriptionTestOutput(`Error generating dossier: ${e.message}`);
-      setCurrentOperationStats(prev => ({ ...prev, status: 'error', progressMessage: `Error: ${e.message}` }));
+      if (isAbortError(e)) {
+        addLog(`Dossier Test for "${orgName}": Cancelled.`);
+        setStatusMessage('Dossier Test cancelled.');
+        setCurrentOperationStats(prev => ({ ...prev, status: 'cancelled', progressMessage: 'Cancelled.' }));
+      } else {
+        addLog(`Dossier Test Error for "${orgName}": ${e.message}`);
+        setStatusMessage(`Dossier Test Error: ${e.message}`);
+        setDetailedDescriptionTestOutput(`Error generating dossier: ${e.message}`);
+        setCurrentOperationStats(prev => ({ ...prev, status: 'error', progressMessage: `Error: ${e.message}` }));
+      }
     } finally {
+      endRunControl(owned);
       setTotalInputTokens(prev => prev + currentOperationStats.inputTokens);
       setTotalOutputTokens(prev => prev + currentOperationStats.outputTokens);
       setTotalApiRequestsMade(prev => prev + currentOperationStats.apiRequests);
       setEstimatedCost(prev => prev + currentOperationStats.estimatedCost); // Add the cost of this op
-      recalculateCumulativeSessionCost(); // To update grounding if applicable
+      recordGroundedRequests('dossier', generation, opAccumulator.requests);
       setIsTestingDescriptionGeneration(false);
     }
   };
 
   // --- Full Processing Handlers ---
-  const handleFullContactsPreprocessing = () => {
+  // Each handler reports its outcome so the pipeline runner can stop at the first failure.
+  const handleFullContactsPreprocessing = (): PipelineStepOutcome => {
     addLog("Initiating Full Data Pre-processing (URL pre-fill from contacts).");
     setIsProcessingContactsFull(true);
     setStatusMessage('Pre-filling URLs in full dataset from contacts...');
 
-    let currentData: string[][];
-    try {
-      currentData = JSON.parse(displayData);
-      if (!Array.isArray(currentData) || currentData.length === 0) {
-        throw new Error("Main data is empty or not an array.");
-      }
-    } catch (e) {
-      const errorMsg = `Full Pre-processing: Invalid JSON in main display. Cannot proceed. ${e instanceof Error ? e.message : String(e)}`;
+    const currentData = getDataset();
+    if (!currentData) {
+      const errorMsg = "Full Pre-processing: No data loaded. Cannot proceed.";
       setStatusMessage(errorMsg);
       addLog(errorMsg);
       setIsProcessingContactsFull(false);
-      return;
+      return 'failed';
     }
 
     if (!rawContactsSheetData || rawContactsSheetData.length < 2) {
       setStatusMessage("Full Pre-processing: No corrected contacts data available to pre-fill URLs from. (Requires Excel with 2nd sheet).");
       addLog("Full Pre-processing: No corrected contacts data available. Skipping pre-fill.");
       setIsProcessingContactsFull(false);
-      return;
+      return 'skipped';
     }
 
     try {
-      const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(currentData, rawContactsSheetData);
-      updateDisplayData(updatedOrgsData, 'full_contact_prefill', `Full Data Pre-processing Complete: ${prefilledCount} URLs pre-filled.`);
+      const { updatedOrgsData, prefilledCount } = prefillUrlsFromContacts(currentData, rawContactsSheetData, columnMapping);
+      commitDataset(updatedOrgsData, `Pre-fill URLs from contacts: ${prefilledCount} URLs filled`, `Full Data Pre-processing Complete: ${prefilledCount} URLs pre-filled.`);
+      return 'completed';
     } catch (e) {
       const errorMsg = `Error during full contact pre-processing: ${e instanceof Error ? e.message : String(e)}`;
       setStatusMessage(errorMsg);
       addLog(errorMsg);
+      return 'failed';
     } finally {
       setIsProcessingContactsFull(false);
     }
   };
 
-  const handleFullPlaceholderDescRowDeletion = () => {
+  const handleExtractKeyPersonnel = (): PipelineStepOutcome => {
+    addLog("Key Personnel Extraction: Initiated.");
+    const currentData = getDataset();
+    if (!currentData) { setStatusMessage('Key Personnel Extraction: No data loaded.'); addLog('Key Personnel Extraction Error: No data loaded.'); return 'failed'; }
+
+    const result = mergeKeyPersonnelIntoContacts(currentData, rawContactsSheetData, columnMapping);
+    if (result.organizations === 0) {
+      const msg = 'Key Personnel Extraction: No dossier in the description column lists key personnel.';
+      setStatusMessage(msg); addLog(msg);
+      return 'skipped';
+    }
+    setRawContactsSheetData(result.table);
+    setDisplayableCorrectedContactsData(result.table);
+    result.flagged.forEach(note => addLog(`Key Personnel Extraction: ${note}`));
+    const msg = `Key Personnel Extraction Complete: ${result.people} people from ${result.organizations} dossier(s). ${result.added} contact(s) added${result.flagged.length > 0 ? ` (${result.flagged.length} flagged as likely duplicates in the "${KEY_PERSONNEL_REVIEW_HEADER}" column)` : ''}, ${result.enriched} existing contact(s) updated.${rawContactsSheetData ? '' : ' A new contacts sheet was created.'}`;
+    setStatusMessage(msg); addLog(msg);
+    return 'completed';
+  };
+
+  const handleFullPlaceholderDescRowDeletion = (): PipelineStepOutcome => {
     addLog("Initiating Full Placeholder Description Row Deletion.");
     setIsPerformingFullPlaceholderDescRowDeletion(true);
     setStatusMessage('Deleting placeholder description rows from full dataset...');
 
-    let currentData: string[][];
-    try {
-      currentData = JSON.parse(displayData);
-      if (!Array.isArray(currentData) || currentData.length === 0) {
-        throw new Error("Main data is empty or not an array.");
-      }
-    } catch (e) {
-      const errorMsg = `Full Placeholder Deletion: Invalid JSON in main display. ${e instanceof Error ? e.message : String(e)}`;
+    const currentData = getDataset();
+    if (!currentData) {
+      const errorMsg = "Full Placeholder Deletion: No data loaded. Cannot proceed.";
       setStatusMessage(errorMsg);
       addLog(errorMsg);
       setIsPerformingFullPlaceholderDescRowDeletion(false);
-      return;
+      return 'failed';
     }
     
     try {
-        const { cleanedData, rowsDeleted } = performPlaceholderDescRowDeletionLogic(currentData, "Full");
-        updateDisplayData(cleanedData, 'full_placeholder_delete', `Full Placeholder Desc Row Deletion Complete. ${rowsDeleted} rows removed.`);
+        const { placeholderText } = getPipelineStepParams(pipelineRecipe, 'deletePlaceholderRows');
+        // An empty placeholder would match, and delete, every row without a description.
+        if (!placeholderText?.trim()) throw new Error("The recipe's placeholder description is empty.");
+        const { cleanedData, rowsBefore, rowsDeleted, removals } = performPlaceholderDescRowDeletionLogic(currentData, "Full", columnMapping, placeholderText);
+        commitDataset(cleanedData, `Delete placeholder description rows: ${rowsBefore} → ${rowsBefore - rowsDeleted} rows`, `Full Placeholder Desc Row Deletion Complete. ${rowsDeleted} rows removed.`, removals);
+        return 'completed';
     } catch (e) {
         const errorMsg = `Error during full placeholder deletion: ${e instanceof Error ? e.message : String(e)}`;
         setStatusMessage(errorMsg);
         addLog(errorMsg);
+        return 'failed';
     } finally {
         setIsPerformingFullPlaceholderDescRowDeletion(false);
     }
   };
 
-  const handleFullMostlyEmptyRows = () => {
+  const handleFullMostlyEmptyRows = (): PipelineStepOutcome => {
     addLog("Initiating Full Mostly Empty Row Deletion.");
     setIsPerformingFullMostlyEmptyRowDeletion(true);
     setStatusMessage('Deleting mostly empty rows from full dataset...');
     
-    let currentData: string[][];
-    try {
-      currentData = JSON.parse(displayData);
-      if (!Array.isArray(currentData) || currentData.length === 0) {
-        throw new Error("Main data is empty or not an array.");
-      }
-    } catch (e) {
-      const errorMsg = `Full Mostly Empty Row Deletion: Invalid JSON. ${e instanceof Error ? e.message : String(e)}`;
+    const currentData = getDataset();
+    if (!currentData) {
+      const errorMsg = "Full Mostly Empty Row Deletion: No data loaded. Cannot proceed.";
       setStatusMessage(errorMsg);
       addLog(errorMsg);
       setIsPerformingFullMostlyEmptyRowDeletion(false);
-      return;
+      return 'failed';
     }
 
     try {
-        const { cleanedData, rowsDeleted } = performMostlyEmptyRowsLogic(currentData, "Full");
-        updateDisplayData(cleanedData, 'full_mostly_empty_delete', `Full Mostly Empty Row Deletion Complete. ${rowsDeleted} rows removed.`);
+        const { cleanedData, rowsBefore, rowsDeleted, removals } = performMostlyEmptyRowsLogic(currentData, "Full", columnMapping);
+        commitDataset(cleanedData, `Delete mostly empty rows: ${rowsBefore} → ${rowsBefore - rowsDeleted} rows`, `Full Mostly Empty Row Deletion Complete. ${rowsDeleted} rows removed.`, removals);
+        return 'completed';
     } catch (e) {
         const errorMsg = `Error during full mostly empty row deletion: ${e instanceof Error ? e.message : String(e)}`;
         setStatusMessage(errorMsg);
         addLog(errorMsg);
+        return 'failed';
     } finally {
         setIsPerformingFullMostlyEmptyRowDeletion(false);
     }
   };
   
-  const handleMergeDuplicateOrganizations = () => {
+  const handleMergeDuplicateOrganizations = (): PipelineStepOutcome => {
     addLog("Initiating Full Merge Duplicate Organizations.");
     setIsMergingDuplicatesFull(true);
     setStatusMessage('Merging duplicate organizations in full dataset...');
 
-    let currentData: string[][];
-    try {
-      currentData = JSON.parse(displayData);
-       if (!Array.isArray(currentData) || currentData.length === 0) {
-        throw new Error("Main data is empty or not an array.");
-      }
-    } catch (e) {
-      const errorMsg = `Full Merge Duplicates: Invalid JSON. ${e instanceof Error ? e.message : String(e)}`;
+    const currentData = getDataset();
+    if (!currentData) {
+      const errorMsg = "Full Merge Duplicates: No data loaded. Cannot proceed.";
       setStatusMessage(errorMsg);
       addLog(errorMsg);
       setIsMergingDuplicatesFull(false);
-      return;
+      return 'failed';
     }
 
     try {
-        const { mergedData, rowsBefore, rowsAfter } = performMergeDuplicatesLogic(currentData, "Full");
-        updateDisplayData(mergedData, 'full_merge_duplicates', `Full Merge Duplicates Complete. Rows before: ${rowsBefore}, Rows after: ${rowsAfter}.`);
+        const { mergedData, rowsBefore, rowsAfter, removals } = performMergeDuplicatesLogic(currentData, "Full", columnMapping);
+        commitDataset(mergedData, `Merge duplicates: ${rowsBefore} → ${rowsAfter} rows`, `Full Merge Duplicates Complete. Rows before: ${rowsBefore}, Rows after: ${rowsAfter}.`, removals);
+        return 'completed';
     } catch (e) {
         const errorMsg = `Error during full merge duplicates: ${e instanceof Error ? e.message : String(e)}`;
         setStatusMessage(errorMsg);
         addLog(errorMsg);
+        return 'failed';
     } finally {
         setIsMergingDuplicatesFull(false);
     }
   };
 
 
-  const handleGenerateFullDescriptions = async () => {
-    if (!genAI) { setStatusMessage('Full Dossier Gen: Gemini API key missing.'); addLog("Full Dossier Gen Error: API key missing."); return; }
-    addLog("Full Dossier Generation (Step 3 - AI): Initiated.");
+  // Cache problems are logged and never stop a run; the rows are then sent to the model as usual.
+  // Cost estimates read the cache too but leave the hit and miss counts to real runs.
+  const readCachedResponses = async (keys: string[], maxAgeDays = responseCacheSettings.maxAgeDays, countStats = true): Promise<Map<string, ResponseCacheEntry>> => {
+    if (!responseCacheSettings.enabled || keys.length === 0) return new Map();
+    try {
+      const entries = await readResponseCache(keys, maxAgeDays * DAY_MS, Date.now());
+      const hits = keys.filter(key => entries.has(key)).length;
+      if (countStats) setResponseCacheStats(prev => ({ hits: prev.hits + hits, misses: prev.misses + keys.length - hits }));
+      return entries;
+    } catch (e: any) {
+      addLog(`Response cache: Could not read cached responses: ${e.message}. Every row is sent to the AI.`);
+      return new Map();
+    }
+  };
+
+  const cacheResponses = async (entries: ResponseCacheEntry[]) => {
+    if (!responseCacheSettings.enabled || entries.length === 0) return;
+    try {
+      await writeResponseCache(entries);
+    } catch (e: any) {
+      addLog(`Response cache: Could not store ${entries.length} response(s): ${e.message}.`);
+    }
+  };
+
+  const handleGenerateFullDescriptions = async (resumeFrom?: RunCheckpoint): Promise<PipelineStepOutcome> => {
+    if (!aiProvider) { setStatusMessage('Full Dossier Gen: No AI provider is configured.'); addLog("Full Dossier Gen Error: No AI provider is configured."); return 'failed'; }
+    addLog(resumeFrom ? "Full Dossier Generation (Step 3 - AI): Resuming from checkpoint." : "Full Dossier Generation (Step 3 - AI): Initiated.");
     
-    let dataToProcess: string[][];
-    try { dataToProcess = JSON.parse(displayData); if (!Array.isArray(dataToProcess) || dataToProcess.length < 2) throw new Error("Invalid/insufficient data."); } 
-    catch (e) { setStatusMessage(`Full Dossier Gen: Error parsing display data: ${e instanceof Error ? e.message : String(e)}`); addLog(`Full Dossier Gen Error: ${e instanceof Error ? e.message : String(e)}`); return; }
+    const dataToProcess = resumeFrom ? resumeFrom.initialDataset : getDataset();
+    if (!dataToProcess || dataToProcess.rows.length === 0) { setStatusMessage('Full Dossier Gen: No data rows loaded.'); addLog('Full Dossier Gen Error: No data rows loaded.'); return 'failed'; }
+    // A resumed run keeps the mapping and parameters it started with.
+    const mapping = resumeFrom?.columnMapping ?? columnMapping;
+    const stepParams = resumeFrom?.params ?? getPipelineStepParams(pipelineRecipe, 'generateDossiers');
+    const promptTemplate = resumeFrom?.promptTemplate ?? getActivePromptTemplate(promptLibrary, 'dossier');
+    const promptVersion = formatPromptVersion('dossier', promptTemplate.version);
+    const generation = resumeFrom?.generation ?? resolveTaskGeneration(modelSettings.tasks.dossier, 'dossier', aiProvider);
+    const refreshMode = stepParams.refreshMode ?? DEFAULT_DOSSIER_REFRESH_MODE;
+    const refreshDescription = describeDossierRefreshMode(refreshMode, stepParams.staleAfterDays ?? DEFAULT_DOSSIER_STALE_DAYS);
+    // A resumed run keeps the rows chosen when it started; checkpoints from before refresh modes covered every row.
+    const targetRowIds = new Set(resumeFrom
+      ? resumeFrom.targetRowIds ?? dataToProcess.rows.map(row => row.id)
+      : selectDossierRefreshRows(dataToProcess, mapping, refreshMode, { staleAfterDays: stepParams.staleAfterDays ?? DEFAULT_DOSSIER_STALE_DAYS, selectedRowIds, now: Date.now() }));
+    if (targetRowIds.size === 0) {
+      const msg = `Full Dossier Gen: No rows to generate (${refreshDescription}).${refreshMode === 'selected' ? ' Tick rows in the data grid first.' : ''}`;
+      setStatusMessage(msg); addLog(msg);
+      return 'skipped';
+    }
+    if (!resumeFrom) setPendingRunCheckpoint(null);
     
     setIsGeneratingFullDescriptions(true); setPreRunEstimation(null);
-    const modelToUse = 'gemini-2.5-pro-preview-04-17';
-    setCurrentOperationStats({ operationType: 'full_dossier', status: 'running', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: modelToUse, progressMessage: 'Starting dossier generation...' });
+    const { signal, owned } = beginRunControl(true);
+    try {
+      let cancelled = false;
+      const modelToUse = generation.model;
+      const startedAt = resumeFrom?.startedAt ?? Date.now();
+      let currentOpAccumulator = { input: resumeFrom?.tokens.input ?? 0, output: resumeFrom?.tokens.output ?? 0, requests: resumeFrom?.tokens.requests ?? 0, cost: 0 };
+      setCurrentOperationStats({ operationType: 'full_dossier', status: 'running', inputTokens: currentOpAccumulator.input, outputTokens: currentOpAccumulator.output, apiRequests: currentOpAccumulator.requests, estimatedCost: calculateOperationCost(currentOpAccumulator.input, currentOpAccumulator.output, currentOpAccumulator.requests, modelToUse), modelUsed: modelToUse, progressMessage: resumeFrom ? 'Resuming dossier generation...' : 'Starting dossier generation...' });
+
+      // Quality and freshness results go to their own columns, appended after the data unless the file already has them.
+      const { header: headerRow, columns: statusColumns } = ensureDossierStatusColumns(dataToProcess);
+      const placeholderText = getPipelineStepParams(pipelineRecipe, 'deletePlaceholderRows').placeholderText?.trim() || DEFAULT_PLACEHOLDER_DESCRIPTION;
+      const dataRows = [...(resumeFrom?.dataset.rows ?? dataToProcess.rows)]; // Rows are replaced, never mutated, as they are updated
+      const DESCRIPTION_COL_INDEX = mapping.description;
+      const completedRowIds = new Set(resumeFrom?.completedRowIds ?? []);
+      const failedRowIds = new Set(resumeFrom?.failedRowIds ?? []);
+      const reviewRowIds = new Set(dataRows.filter(row => String(row.cells[statusColumns.quality] ?? '').startsWith('Needs review') && completedRowIds.has(row.id)).map(row => row.id));
+      let updatedRowCount = resumeFrom?.updatedCount ?? 0;
+      let runCommitted = false;
+      // The first update adds one history entry for the run; later updates amend it so a single undo reverts the whole run.
+      const publishRun = (label: string) => {
+        const runData = { header: headerRow, rows: [...dataRows] };
+        const changes = diffDatasets(dataToProcess, runData, mapping.orgName);
+        if (runCommitted) { datasetStore.amend(runData, label, changes); }
+        else { datasetStore.commit(runData, label, changes); runCommitted = true; }
+      };
+      if (resumeFrom && updatedRowCount > 0) publishRun(`Generate dossiers (in progress): ${updatedRowCount} of ${dataRows.length} rows updated`);
+      const checkpointRun = () => persistRunCheckpoint({
+        operation: 'full_dossier', startedAt, updatedAt: Date.now(), fileName, columnMapping: mapping, params: stepParams,
+        initialDataset: dataToProcess, dataset: { header: headerRow, rows: [...dataRows] },
+        completedRowIds: [...completedRowIds], failedRowIds: [...failedRowIds], skippedBatchNumbers: [], updatedCount: updatedRowCount,
+        tokens: { input: currentOpAccumulator.input, output: currentOpAccumulator.output, requests: currentOpAccumulator.requests },
+        targetRowIds: [...targetRowIds], promptTemplate, generation,
+        ...getRunExportContext(resumeFrom),
+      });
 
-    const headerRow = [...dataToProcess[0]];
-    const dataRows = dataToProcess.slice(1).map(row => [...row]); // Make a mutable copy
-    const DESCRIPTION_COL_INDEX = 63;
-    
-    let currentOpAccumulator = { input: 0, output: 0, requests: 0, cost: 0 };
+      const rowIndexesToProcess = dataRows.map((_, index) => index).filter(index => targetRowIds.has(dataRows[index].id) && !completedRowIds.has(dataRows[index].id));
+      const concurrency = stepParams.concurrency ?? DEFAULT_DOSSIER_CONCURRENCY;
+      addLog(`Full Dossier Gen: ${rowIndexesToProcess.length} of ${dataRows.length} row(s) to process (${refreshDescription}), up to ${concurrency} at a time, with prompt ${promptVersion}.`);
+      // A stale refresh must not bring back a dossier older than the rows it replaces.
+      const getCacheKey = (context: PromptRenderContext) => getResponseCacheKey('dossier', context.variables.orgName, getDossierCacheHints(promptTemplate.text, context), promptTemplate.text, modelToUse);
+      const cacheMaxAgeDays = refreshMode === 'stale' ? Math.min(responseCacheSettings.maxAgeDays, stepParams.staleAfterDays ?? DEFAULT_DOSSIER_STALE_DAYS) : responseCacheSettings.maxAgeDays;
+      const cachedDossiers = await readCachedResponses(rowIndexesToProcess
+        .map(index => getDossierPromptContext(headerRow, dataRows[index], mapping))
+        .filter(context => context.variables.orgName)
+        .map(getCacheKey), cacheMaxAgeDays);
+      let cacheHitCount = 0;
+      const writeDossier = (i: number, text: string, quality: string, provenance: { recordedAt: number, generatedAt: number, method: string, qualityMethod: string, model: string, promptVersion: string, groundingUris: string[] }) => {
+        const { recordedAt, method } = provenance;
+        dataRows[i] = withCellValue(dataRows[i], DESCRIPTION_COL_INDEX, text, { source: 'ai_dossier', timestamp: recordedAt, method, groundingUris: provenance.groundingUris.slice(0, MAX_PROVENANCE_GROUNDING_URIS), promptVersion: provenance.promptVersion });
+        dataRows[i] = withCellValue(dataRows[i], statusColumns.quality, quality, { source: 'ai_dossier', timestamp: recordedAt, method: provenance.qualityMethod, promptVersion: provenance.promptVersion });
+        const freshness: [number, string][] = [[statusColumns.generatedAt, new Date(provenance.generatedAt).toISOString()], [statusColumns.model, provenance.model], [statusColumns.promptVersion, provenance.promptVersion]];
+        freshness.forEach(([column, value]) => { dataRows[i] = withCellValue(dataRows[i], column, value, { source: 'ai_dossier', timestamp: recordedAt, method, promptVersion: provenance.promptVersion }); });
+        updatedRowCount++;
+      };
+
+      // Workers replace their own entry in dataRows, so results land in row order however the requests finish.
+      await runWorkerPool(rowIndexesToProcess, concurrency, async (i) => {
+        if (!(await waitIfPaused())) { cancelled = true; return false; }
+        const promptContext = getDossierPromptContext(headerRow, dataRows[i], mapping);
+        const orgName = promptContext.variables.orgName;
+
+        const progressMsg = `Generating dossier for "${orgName}" (row ${i + 1}, ${completedRowIds.size} of ${targetRowIds.size} done)...`;
+        setStatusMessage(progressMsg);
+        setCurrentOperationStats(prev => ({ ...prev, progressMessage: progressMsg }));
+        addLog(progressMsg);
+
+        if (!orgName) { addLog(`Skipping row ${i + 1} due to missing organization name.`); return true; }
+
+        const cacheKey = getCacheKey(promptContext);
+        const cached = cachedDossiers.get(cacheKey);
+        if (cached) {
+          // Only dossiers that passed the quality checks are cached.
+          writeDossier(i, cached.value, cached.detail, { recordedAt: Date.now(), generatedAt: cached.createdAt, method: `${cached.model}, response cache from ${new Date(cached.createdAt).toISOString()}`, qualityMethod: 'Quality check (response cache)', model: cached.model, promptVersion: cached.promptVersion, groundingUris: cached.groundingUris });
+          reviewRowIds.delete(dataRows[i].id);
+          cacheHitCount++;
+          addLog(`Full Dossier Gen: Used the cached dossier for "${orgName}" from ${new Date(cached.createdAt).toLocaleString()}.`);
+          publishRun(`Generate dossiers (in progress): ${updatedRowCount} of ${dataRows.length} rows updated`);
+          completedRowIds.add(dataRows[i].id);
+          await checkpointRun();
+          return true;
+        }
 
-    for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i];
-      const orgName = String(row[0] ?? '').trim();
-      const orgUrl = String(row[2] ?? '').trim();
-      const existingDesc = String(row[DESCRIPTION_COL_INDEX] ?? '').trim();
+        try {
+          const { text: newDescription, groundingUris, validation, regenerations } = await generateValidatedDossier(
+            orgName, renderPromptTemplate(promptTemplate.text, promptContext), generation, currentOpAccumulator,
+            (stats) => { // This callback updates stats PER AI CALL within the loop
+              setCurrentOperationStats(prev => ({
+                  ...prev,
+                  inputTokens: prev.inputTokens + stats.input,
+                  outputTokens: prev.outputTokens + stats.output,
+                  apiRequests: prev.apiRequests + stats.requests,
+                  estimatedCost: prev.estimatedCost + stats.cost
+              }));
+            },
+            { maxRetries: stepParams.maxRetries ?? DEFAULT_DOSSIER_MAX_RETRIES, qualityRetries: stepParams.qualityRetries ?? DEFAULT_DOSSIER_QUALITY_RETRIES, placeholderText },
+            signal
+          );
+        
+          const recordedAt = Date.now();
+          const quality = describeDossierQuality(validation, regenerations);
+          writeDossier(i, newDescription, quality, { recordedAt, generatedAt: recordedAt, method: modelToUse, qualityMethod: `Quality check (${validation.wordCount} words)`, model: modelToUse, promptVersion, groundingUris: groundingUris ?? [] });
+          if (!validation.passed) reviewRowIds.add(dataRows[i].id); else reviewRowIds.delete(dataRows[i].id);
+          if (validation.passed) await cacheResponses([{ key: cacheKey, task: 'dossier', orgName, model: modelToUse, promptVersion, value: newDescription, detail: quality, groundingUris: groundingUris ?? [], createdAt: recordedAt }]);
+          addLog(`Full Dossier Gen: Updated description for "${orgName}"${validation.passed ? '' : '; marked for manual review'}.`);
+
+          // Update main data incrementally
+          publishRun(`Generate dossiers (in progress): ${updatedRowCount} of ${dataRows.length} rows updated`);
       
-      const progressMsg = `Generating dossier for "${orgName}" (${i + 1} of ${dataRows.length})...`;
-      setStatusMessage(progressMsg);
-      setCurrentOperationStats(prev => ({ ...prev, progressMessage: progressMsg }));
-      addLog(progressMsg);
-
-      if (!orgName) { addLog(`Skipping row ${i + 1} due to missing organization name.`); continue; }
+        } catch (e: any) {
+          if (isAbortError(e)) { cancelled = true; return false; }
+          failedRowIds.add(dataRows[i].id);
+          addLog(`Full Dossier Gen: Error for "${orgName}": ${e.message}. Description not updated for this row.`);
+          // Optionally mark the row or leave existing description
+        }
+        completedRowIds.add(dataRows[i].id);
+        await checkpointRun();
+        return true;
+      });
 
-      try {
-        const { text: newDescription, opTokens } = await generateDetailedDescriptionForOrganization(
-          orgName, orgUrl, existingDesc, currentOpAccumulator,
-          (stats) => { // This callback updates stats PER AI CALL within the loop
-            setCurrentOperationStats(prev => ({
-                ...prev,
-                inputTokens: prev.inputTokens + stats.input,
-                outputTokens: prev.outputTokens + stats.output,
-                apiRequests: prev.apiRequests + stats.requests,
-                estimatedCost: prev.estimatedCost + stats.cost
-            }));
+      const runCost = calculateOperationCost(currentOpAccumulator.input, currentOpAccumulator.output, currentOpAccumulator.requests, modelToUse);
+      setCurrentOperationStats(prev => ({ ...prev, status: cancelled ? 'cancelled' : 'completed', progressMessage: cancelled ? `Cancelled after ${completedRowIds.size} of ${targetRowIds.size} rows.` : `All ${targetRowIds.size} dossiers processed.` }));
+      setTotalInputTokens(p => p + currentOpAccumulator.input);
+      setTotalOutputTokens(p => p + currentOpAccumulator.output);
+      setTotalApiRequestsMade(p => p + currentOpAccumulator.requests);
+      setEstimatedCost(prev => prev + runCost); // Add this operation's total cost
+      recordGroundedRequests('dossier', generation, currentOpAccumulator.requests);
+      if (updatedRowCount > 0) publishRun(`Generate dossiers${cancelled ? ' (cancelled)' : ''}: ${updatedRowCount} of ${dataRows.length} rows updated`);
+      await discardRunCheckpoint();
+      const failedRowCount = failedRowIds.size;
+      const msg = `Full Dossier Generation ${cancelled ? 'Cancelled' : 'Complete'}. ${updatedRowCount} of ${targetRowIds.size} targeted descriptions updated (${refreshDescription})${cacheHitCount > 0 ? `, ${cacheHitCount} from the response cache` : ''}.${reviewRowIds.size > 0 ? ` ${reviewRowIds.size} dossier(s) still fail quality checks; see the "${DOSSIER_QUALITY_COLUMN_HEADER}" column.` : ''}${failedRowCount > 0 ? ` ${failedRowCount} row(s) failed.` : ''}`;
+      setStatusMessage(msg); addLog(msg);
+      if (cancelled) return 'cancelled';
+      return failedRowCount > 0 ? 'failed' : 'completed';
+    } finally {
+      setIsGeneratingFullDescriptions(false);
+      endRunControl(owned);
+    }
+  };
+  
+  // Fills one column by batched AI lookups, shared by URL finding and the enrichment columns. Batches shrink while they fail,
+  // a retry resends only the rows without a valid record, and rows still unresolved are split down to single rows.
+  // The whole run is one undoable history entry and is checkpointed after every batch.
+  const runBatchedLookup = async (provider: AiProvider, initialDataForProcessing: Dataset, job: BatchedLookupJob, resumeFrom?: RunCheckpoint): Promise<BatchedLookupSummary> => {
+    const { mapping } = job;
+    // A resumed run keeps the parameters, prompt and model it started with.
+    const stepParams = resumeFrom?.params ?? getPipelineStepParams(pipelineRecipe, job.stepType);
+    const promptTemplate = resumeFrom?.promptTemplate ?? getActivePromptTemplate(promptLibrary, job.templateId);
+    const promptVersion = formatPromptVersion(job.templateId, promptTemplate.version);
+    const generation = resumeFrom?.generation ?? resolveTaskGeneration(modelSettings.tasks[job.task], job.task, provider);
+    const tier = AI_TASK_TIERS[job.task];
+    if (!resumeFrom) setPendingRunCheckpoint(null);
+
+    const modelToUse = generation.model;
+    const { signal, owned } = beginRunControl(true);
+    try {
+      let cancelled = false;
+      const startedAt = resumeFrom?.startedAt ?? Date.now();
+      let currentRunOpInputTokens = resumeFrom?.tokens.input ?? 0; let currentRunOpOutputTokens = resumeFrom?.tokens.output ?? 0; let currentRunOpApiRequests = resumeFrom?.tokens.requests ?? 0;
+      setCurrentOperationStats({ operationType: job.operation, status: 'running', inputTokens: currentRunOpInputTokens, outputTokens: currentRunOpOutputTokens, apiRequests: currentRunOpApiRequests, estimatedCost: calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, modelToUse), modelUsed: modelToUse, progressMessage: `${resumeFrom ? 'Resuming' : 'Starting'} ${job.title}...` });
+      const runSkippedBatchNumbersLocal: number[] = [...(resumeFrom?.skippedBatchNumbers ?? [])];
+      const completedRowIds = new Set(resumeFrom?.completedRowIds ?? []);
+      const unresolvedRowIds = new Set(resumeFrom?.failedRowIds ?? []);
+      const targetRowIds = job.targetRowIds ? new Set(job.targetRowIds) : null;
+      const headerRow = job.header;
+      const processedRows = [...(resumeFrom?.dataset.rows ?? initialDataForProcessing.rows)]; let foundCount = resumeFrom?.updatedCount ?? 0; let runCommitted = false;
+      const rowIndexById = new Map(processedRows.map((row, index) => [row.id, index]));
+      // The first batch adds one history entry for the run; later batches amend it so a single undo reverts the whole run.
+      const publishRun = (label: string) => {
+        const runData = { header: headerRow, rows: [...processedRows] };
+        const changes = diffDatasets(initialDataForProcessing, runData, mapping.orgName);
+        if (runCommitted) { datasetStore.amend(runData, label, changes); }
+        else { datasetStore.commit(runData, label, changes); runCommitted = true; }
+      };
+      const MAX_BATCH_SIZE = stepParams.batchSize ?? DEFAULT_URL_BATCH_SIZE; const MAX_RETRIES = stepParams.maxRetries ?? DEFAULT_URL_MAX_RETRIES; const INITIAL_BACKOFF_MS = 2000;
+      let failureRate = resumeFrom?.urlBatchFailureRate ?? job.initialFailureRate;
+      let batchDisplayNum = resumeFrom?.urlBatchCount ?? 0;
+      const checkpointRun = () => persistRunCheckpoint({
+        operation: job.operation, startedAt, updatedAt: Date.now(), fileName, columnMapping: mapping, params: stepParams,
+        initialDataset: initialDataForProcessing, dataset: { header: headerRow, rows: [...processedRows] },
+        completedRowIds: [...completedRowIds], failedRowIds: [...unresolvedRowIds], skippedBatchNumbers: [...runSkippedBatchNumbersLocal], updatedCount: foundCount,
+        tokens: { input: currentRunOpInputTokens, output: currentRunOpOutputTokens, requests: currentRunOpApiRequests },
+        targetRowIds: job.targetRowIds, urlBatchFailureRate: failureRate, urlBatchCount: batchDisplayNum, promptTemplate, generation,
+        ...(job.enrichmentColumn && { enrichmentColumn: job.enrichmentColumn }),
+        ...getRunExportContext(resumeFrom),
+      });
+      const writeResult = (rowId: string, value: string, provenance: CellProvenance) => {
+        const rowIndex = rowIndexById.get(rowId)!;
+        const currentValue = String(processedRows[rowIndex].cells[job.column] ?? '');
+        if (value !== '') foundCount++;
+        else if (!job.clearWhenNotFound) return;
+        if (value !== currentValue) processedRows[rowIndex] = withCellValue(processedRows[rowIndex], job.column, value, provenance);
+      };
+      const getCacheKey = (row: DatasetRow) => getResponseCacheKey(job.task, String(row.cells[mapping.orgName] ?? '').trim(), job.cacheHints(row), promptTemplate.text + (job.cacheSalt ?? ''), modelToUse);
+
+      // Looks up one group of rows with retries; a retry resends only the rows that did not get a valid record.
+      // Returns the rows still unresolved and whether the first attempt fell short.
+      const lookupRows = async (rows: DatasetRow[], batchLabel: string, maxRetries: number): Promise<{ unresolvedRows: DatasetRow[], firstAttemptFailed: boolean }> => {
+          let pendingRows = rows; let retries = 0; let firstAttemptFailed = false;
+          while (pendingRows.length > 0 && retries <= maxRetries) {
+            let response: AiGenerateResult | undefined;
+            try {
+              const prompt = job.buildPrompt(pendingRows, promptTemplate.text);
+              const batchInputTokens = await getTokenCountForModel(prompt, modelToUse); 
+              if (retries > 0) { 
+                  const delay = INITIAL_BACKOFF_MS * Math.pow(2, retries - 1) + Math.random() * 1000; 
+                  addLog(`${job.logPrefix}: Retrying ${pendingRows.length} row(s) of ${batchLabel} (attempt ${retries + 1}) after ${delay.toFixed(0)}ms...`); 
+                  await abortableDelay(delay, signal); 
+              } else { 
+                  addLog(`${job.logPrefix}: Sending ${batchLabel} (${pendingRows.length} row(s)) to AI (Input Tokens: ${batchInputTokens}). Attempt ${retries + 1}.`); 
+              }
+              // Every attempt is a billed request.
+              currentRunOpInputTokens += batchInputTokens; currentRunOpApiRequests++;
+              setCurrentOperationStats(prev => ({ ...prev, inputTokens: currentRunOpInputTokens, apiRequests: currentRunOpApiRequests, estimatedCost: calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, modelToUse) }));
+              response = await scheduleAiRequest(tier, batchInputTokens, () => provider.generate({ ...generation, prompt, responseSchema: job.responseSchema }), signal);
+              const batchOutputTokens = response.usage?.outputTokens ?? await getTokenCountForModel(response.text, modelToUse); 
+              currentRunOpOutputTokens += batchOutputTokens;
+              setCurrentOperationStats(prev => ({ ...prev, outputTokens: currentRunOpOutputTokens, estimatedCost: calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, modelToUse) }));
+              addLog(`${job.logPrefix}: Raw AI response for ${batchLabel} (Output Tokens: ${batchOutputTokens}): ${response.text.substring(0, 100)}...`);
+
+              const { results, missingIds } = job.parseResponse(response.text, pendingRows.map(row => row.id), batchLabel);
+              const recordedAt = Date.now();
+              const groundingUris = response.groundingUris.slice(0, MAX_PROVENANCE_GROUNDING_URIS);
+              results.forEach(result => writeResult(result.id, result.value, { source: job.provenanceSource, timestamp: recordedAt, method: `${modelToUse}, ${batchLabel}, ${result.confidence} confidence: ${result.reason}`, ...(groundingUris.length > 0 && { groundingUris }), promptVersion }));
+              const sentRows = new Map(pendingRows.map(row => [row.id, row]));
+              const allGroundingUris = response.groundingUris;
+              // A "not found" is not cached, so running the step again or retrying skipped rows asks the model again.
+              await cacheResponses(results.filter(result => result.value !== '').map(result => {
+                const row = sentRows.get(result.id)!;
+                return {
+                  key: getCacheKey(row), task: job.task, orgName: String(row.cells[mapping.orgName] ?? '').trim(), model: modelToUse, promptVersion,
+                  value: result.value, detail: `${result.confidence} confidence: ${result.reason}`, groundingUris: allGroundingUris, createdAt: recordedAt,
+                };
+              }));
+              if (missingIds.length === 0) { pendingRows = []; break; }
+              addLog(`${job.logPrefix}: ${batchLabel} returned no valid record for ${missingIds.length} of ${pendingRows.length} row(s).`);
+              pendingRows = pendingRows.filter(row => missingIds.includes(row.id));
+            } catch (e: any) {
+              if (isAbortError(e)) throw e;
+              const errorDetail = e.message + (response && typeof response.text === 'string' ? ` Raw AI Response Snippet: ${response.text.substring(0, 200)}...` : '');
+              addLog(`${job.logPrefix}: Error on ${batchLabel}, attempt ${retries + 1}: ${errorDetail}`);
+            }
+            if (retries === 0) firstAttemptFailed = true;
+            retries++;
           }
-        );
-        
-        while(dataRows[i].length <= DESCRIPTION_COL_INDEX) dataRows[i].push('');
-        dataRows[i][DESCRIPTION_COL_INDEX] = newDescription;
-        addLog(`Full Dossier Gen: Updated description for "${orgName}".`);
-
-        // Update main display incrementally
-        const currentFullData = [headerRow, ...dataRows];
-        setCsvData(currentFullData); // Update underlying source for next iteration if needed
-        setDisplayData(JSON.stringify(currentFullData, null, 2)); // Update UI
-      
-      } catch (e: any) {
-        addLog(`Full Dossier Gen: Error for "${orgName}": ${e.message}. Description not updated for this row.`);
-        // Optionally mark the row or leave existing description
+          if (pendingRows.length > 0) addLog(`${job.logPrefix}: ${pendingRows.length} row(s) of ${batchLabel} unresolved after ${maxRetries + 1} attempt(s).`);
+          return { unresolvedRows: pendingRows, firstAttemptFailed };
+      };
+
+      // Splits the rows a group could not resolve in half, down to single rows, so one problem row cannot sink the rest of its batch.
+      const resolveRows = async (rows: DatasetRow[], batchLabel: string, maxRetries: number): Promise<boolean> => {
+          const { unresolvedRows, firstAttemptFailed } = await lookupRows(rows, batchLabel, maxRetries);
+          if (unresolvedRows.length === 1) {
+              unresolvedRowIds.add(unresolvedRows[0].id);
+              addLog(`${job.logPrefix}: Skipping "${String(unresolvedRows[0].cells[mapping.orgName] ?? '').trim()}"; the original data is preserved.`);
+          } else if (unresolvedRows.length > 1) {
+              const middle = Math.ceil(unresolvedRows.length / 2);
+              addLog(`${job.logPrefix}: Splitting the ${unresolvedRows.length} unresolved row(s) of ${batchLabel} into sub-batches of ${middle} and ${unresolvedRows.length - middle} row(s).`);
+              await resolveRows(unresolvedRows.slice(0, middle), `${batchLabel}.1`, Math.min(maxRetries, URL_SUB_BATCH_MAX_RETRIES));
+              await resolveRows(unresolvedRows.slice(middle), `${batchLabel}.2`, Math.min(maxRetries, URL_SUB_BATCH_MAX_RETRIES));
+          }
+          return firstAttemptFailed;
+      };
+
+      // Rows finished before an interruption are not sent again, and neither are rows the response cache already answered.
+      const candidateRows = initialDataForProcessing.rows.filter(row => !completedRowIds.has(row.id) && (!targetRowIds || targetRowIds.has(row.id)) && job.needsLookup(row));
+      const cachedEntries = await readCachedResponses(candidateRows.map(getCacheKey));
+      const cachedRows = candidateRows.filter(row => cachedEntries.has(getCacheKey(row)));
+      if (cachedRows.length > 0) {
+        const recordedAt = Date.now();
+        cachedRows.forEach(row => {
+          const entry = cachedEntries.get(getCacheKey(row))!;
+          const groundingUris = entry.groundingUris.slice(0, MAX_PROVENANCE_GROUNDING_URIS);
+          writeResult(row.id, entry.value, { source: job.provenanceSource, timestamp: recordedAt, method: `${entry.model}, response cache from ${new Date(entry.createdAt).toISOString()}, ${entry.detail}`, ...(groundingUris.length > 0 && { groundingUris }), promptVersion: entry.promptVersion });
+          completedRowIds.add(row.id);
+        });
+        addLog(`${job.logPrefix}: ${cachedRows.length} row(s) answered from the response cache (${foundCount} ${job.foundNoun} so far).`);
+        publishRun(`${job.runLabel} (in progress): ${cachedRows.length} rows from the response cache, ${foundCount} ${job.foundNoun} found`);
+        await checkpointRun();
       }
-      // Optional: Add a small delay between API calls if rate limiting is an issue
-      // await new Promise(resolve => setTimeout(resolve, 500)); 
+      const rowsToLookUp = candidateRows.filter(row => !completedRowIds.has(row.id));
+      addLog(`${job.logPrefix}: ${rowsToLookUp.length} of ${initialDataForProcessing.rows.length} rows need a lookup. Batches hold up to ${MAX_BATCH_SIZE} rows and shrink while batches fail.`);
+      let cursor = 0;
+      while (cursor < rowsToLookUp.length) {
+        if (!(await waitIfPaused())) { cancelled = true; break; }
+        const batchSize = adaptUrlBatchSize(MAX_BATCH_SIZE, failureRate);
+        const batchRows = rowsToLookUp.slice(cursor, cursor + batchSize);
+        batchDisplayNum++;
+        const progressMsg = `Processing Batch ${batchDisplayNum} (Lookup Rows ${cursor + 1}-${cursor + batchRows.length} of ${rowsToLookUp.length}, batch size ${batchSize})...`;
+        setCurrentOperationStats(prev => ({ ...prev, progressMessage: progressMsg })); addLog(progressMsg);
+
+        const unresolvedBefore = unresolvedRowIds.size;
+        let batchFailed: boolean;
+        try {
+          batchFailed = await resolveRows(batchRows, `batch ${batchDisplayNum}`, MAX_RETRIES);
+        } catch (e) {
+          if (!isAbortError(e)) throw e;
+          // Sub-batches that finished before the cancel keep their values.
+          if (unresolvedRowIds.size > unresolvedBefore) runSkippedBatchNumbersLocal.push(batchDisplayNum);
+          cancelled = true;
+          break;
+        }
+        failureRate = updateUrlBatchFailureRate(failureRate, batchFailed);
+        if (unresolvedRowIds.size > unresolvedBefore) runSkippedBatchNumbersLocal.push(batchDisplayNum);
+        cursor += batchRows.length;
+
+        // Update main data incrementally after each batch
+        publishRun(`${job.runLabel} (in progress): ${cursor} of ${rowsToLookUp.length} rows looked up, ${foundCount} ${job.foundNoun} found`);
+        setStatusMessage(`${job.logPrefix}: Batch ${batchDisplayNum} processed (${cursor} of ${rowsToLookUp.length} rows). Main data updated.`);
+        batchRows.forEach(row => completedRowIds.add(row.id));
+        await checkpointRun();
+      } 
+      setCurrentOperationStats(prev => ({ ...prev, status: cancelled ? 'cancelled' : unresolvedRowIds.size > 0 ? 'error' : 'completed', progressMessage: `${cancelled ? `Cancelled after ${cursor} of ${rowsToLookUp.length} rows.` : `All Batches Processed. ${rowsToLookUp.length - unresolvedRowIds.size}/${rowsToLookUp.length} rows looked up.`} Skipped rows: ${unresolvedRowIds.size}`}));
+    
+      setTotalInputTokens(p => p + currentRunOpInputTokens); 
+      setTotalOutputTokens(p => p + currentRunOpOutputTokens); 
+      setTotalApiRequestsMade(p => p + currentRunOpApiRequests);
+      setEstimatedCost(prev => prev + calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, modelToUse));
+      recordGroundedRequests(job.task, generation, currentRunOpApiRequests);
+
+      publishRun(`${job.runLabel}${cancelled ? ' (cancelled)' : ''}: ${foundCount} ${job.foundNoun} found in ${cursor} of ${rowsToLookUp.length} rows looked up${unresolvedRowIds.size > 0 ? `, ${unresolvedRowIds.size} row(s) skipped` : ''}`);
+      await discardRunCheckpoint();
+      return {
+        outcome: cancelled ? 'cancelled' : unresolvedRowIds.size > 0 ? 'failed' : 'completed',
+        foundCount, unresolvedRowIds: [...unresolvedRowIds], skippedBatchNumbers: runSkippedBatchNumbersLocal, failureRate,
+      };
+    } finally {
+      endRunControl(owned);
     }
-
-    setCurrentOperationStats(prev => ({ ...prev, status: 'completed', progressMessage: `All ${dataRows.length} dossiers processed.` }));
-    setTotalInputTokens(p => p + currentOperationStats.inputTokens);
-    setTotalOutputTokens(p => p + currentOperationStats.outputTokens);
-    setTotalApiRequestsMade(p => p + currentOperationStats.apiRequests);
-    setEstimatedCost(prev => prev + currentOperationStats.estimatedCost); // Add this operation's total cost
-    recalculateCumulativeSessionCost();
-    updateDisplayData([headerRow, ...dataRows], 'ai_dossier_gen', `Full Dossier Generation Complete.`);
-    setIsGeneratingFullDescriptions(false);
   };
-  
-  const handleFindUrlsWithAi = async () => { 
-    if (!genAI) { setStatusMessage('Full AI: Gemini API key missing.'); addLog("Full AI Processing Error: Gemini API key missing."); return; }
-    addLog("Full AI Processing (Step 2 - AI Find Missing URLs): Initiated."); setSkippedBatchNumbers([]); setPreRunEstimation(null);
-    let initialDataForProcessing: string[][]; try { initialDataForProcessing = JSON.parse(displayData); if (!Array.isArray(initialDataForProcessing) || initialDataForProcessing.length < 2) throw new Error("Invalid/insufficient data in main display.");} catch (e) { setStatusMessage(`Full AI: Error parsing display data: ${e instanceof Error ? e.message : String(e)}`); addLog(`Full AI Error: ${e instanceof Error ? e.message : String(e)}`); return; }
+
+  const handleFindUrlsWithAi = async (options: { resumeFrom?: RunCheckpoint, onlyRowIds?: string[] } = {}): Promise<PipelineStepOutcome> => { 
+    const { resumeFrom } = options;
+    if (!aiProvider) { setStatusMessage('Full AI: No AI provider is configured.'); addLog("Full AI Processing Error: No AI provider is configured."); return 'failed'; }
+    const targetRowIdList = resumeFrom?.targetRowIds ?? options.onlyRowIds;
+    addLog(resumeFrom ? "Full AI Processing (Step 2 - AI Find Missing URLs): Resuming from checkpoint." : targetRowIdList ? `Full AI Processing (Step 2 - AI Find Missing URLs): Retrying ${targetRowIdList.length} previously skipped row(s).` : "Full AI Processing (Step 2 - AI Find Missing URLs): Initiated."); setSkippedBatchNumbers([]); setPreRunEstimation(null);
+    const initialDataForProcessing = resumeFrom ? resumeFrom.initialDataset : getDataset(); if (!initialDataForProcessing || initialDataForProcessing.rows.length === 0) { setStatusMessage('Full AI: No data rows loaded.'); addLog('Full AI Error: No data rows loaded.'); return 'failed'; }
     
-    const modelToUse = 'gemini-2.5-flash-preview-04-17';
-    setIsLoading(true); 
-    setCurrentOperationStats({ operationType: 'full_url', status: 'running', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: modelToUse, progressMessage: 'Starting URL finding...' });
-    setAiGroundingSources([]); 
-    let currentRunOpInputTokens = 0; let currentRunOpOutputTokens = 0; let currentRunOpApiRequests = 0;
-    const runSkippedBatchNumbersLocal: number[] = [];
-    const headerRow = initialDataForProcessing[0]; const dataRows = initialDataForProcessing.slice(1);
-    const BATCH_SIZE = 20; const MAX_RETRIES = 3; const INITIAL_BACKOFF_MS = 2000; const totalBatches = Math.ceil(dataRows.length / BATCH_SIZE);
-    let allProcessedDataRows: string[][] = []; let accumulatedGroundingSourcesFromBatches: any[] = [];
+    // A resumed run keeps the mapping it started with.
+    const mapping = resumeFrom?.columnMapping ?? columnMapping;
+    setIsLoading(true);
+    try {
+      const summary = await runBatchedLookup(aiProvider, initialDataForProcessing, {
+        operation: 'full_url', task: 'urlLookup', templateId: 'urlLookup', stepType: 'findUrls', mapping,
+        title: 'URL finding', logPrefix: 'Full AI', runLabel: targetRowIdList ? 'Retry skipped URL rows' : 'AI find missing URLs', foundNoun: 'URLs',
+        header: initialDataForProcessing.header, column: mapping.websiteUrl, targetRowIds: targetRowIdList, initialFailureRate: urlBatchFailureRate,
+        // Only rows without a plausible URL are sent.
+        needsLookup: row => !isPlausibleUrl(String(row.cells[mapping.websiteUrl] ?? '')),
+        buildPrompt: (rows, templateText) => buildUrlLookupPrompt(rows, mapping, templateText),
+        responseSchema: URL_LOOKUP_RESPONSE_SCHEMA,
+        parseResponse: (text, expectedIds) => {
+          const { results, missingIds } = parseUrlLookupResponse(text, expectedIds);
+          return { results: results.map(({ url, ...result }) => ({ ...result, value: url })), missingIds };
+        },
+        provenanceSource: 'ai_url',
+        clearWhenNotFound: true,
+        cacheHints: row => getUrlLookupCacheHints(row, mapping),
+      }, resumeFrom);
+      setUrlBatchFailureRate(summary.failureRate);
+      setSkippedBatchNumbers(summary.skippedBatchNumbers);
+      setUnresolvedUrlRowIds(summary.unresolvedRowIds);
+
+      let finalMessage = `${targetRowIdList ? 'Retry of Skipped URL Rows' : 'Full AI URL Finding'} ${summary.outcome === 'cancelled' ? 'Cancelled' : 'Complete'}. ${summary.foundCount} URLs found.`; 
+      if (summary.unresolvedRowIds.length > 0) finalMessage += ` ${summary.unresolvedRowIds.length} row(s) in batch(es) ${summary.skippedBatchNumbers.join(', ')} could not be looked up. Use "Retry Skipped Rows" to try them again.`;
+      setStatusMessage(finalMessage); addLog(finalMessage);
+      return summary.outcome;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-    for (let i = 0; i < totalBatches; i++) {
-      const batchStart = i * BATCH_SIZE; const batchEnd = batchStart + BATCH_SIZE; const currentChunkOfOriginalDataRows = dataRows.slice(batchStart, batchEnd);
-      const batchDisplayNum = i + 1;
-      const progressMsg = `Processing Batch ${batchDisplayNum} of ${totalBatches} (Data Rows ${batchStart + 1}-${Math.min(batchEnd, dataRows.length)} of ${dataRows.length})...`;
-      
-      setCurrentOperationStats(prev => ({ ...prev, progressMessage: progressMsg })); addLog(progressMsg);
-      
-      const itemsRequiringAiLookup: { originalIndexInChunk: number, rowData: string[] }[] = [];
-      currentChunkOfOriginalDataRows.forEach((row, index) => { if (!isPlausibleUrl(String(row[2] ?? ''))) { itemsRequiringAiLookup.push({ originalIndexInChunk: index, rowData: row.map(cell => String(cell ?? '')) }); } });
-      
-      if (itemsRequiringAiLookup.length === 0) { 
-        addLog(`Full AI: Batch ${batchDisplayNum} - All rows have URLs. Skipping AI call.`); 
-        allProcessedDataRows.push(...currentChunkOfOriginalDataRows.map(r => r.map(cell => String(cell ?? '')))); 
-      } else {
-        addLog(`Full AI: Batch ${batchDisplayNum} - ${itemsRequiringAiLookup.length}/${currentChunkOfOriginalDataRows.length} rows require URL lookup.`);
-        const dataRowsForAISubmissionOnly = itemsRequiringAiLookup.map(item => item.rowData);
-        const dataToSendToAiForBatch = [headerRow, ...dataRowsForAISubmissionOnly];
-        const dataToSendToAiString = JSON.stringify(dataToSendToAiForBatch);
-        const specializedPromptForBatch = `For this JSON array of CSV data (header + data rows): <data>${dataToSendToAiString}</data> Task: For each data row (skip header): a. Organization Name is Column A (index 0). b. Using Google Search to find the official website URL. Prioritize known businesses. c. If URL found, put main domain (e.g., "company.com") in Column C. Ensure Column C header is "Website URL". If Column C doesn't exist, add it with this header. d. If no URL or not a business, ensure Column C is an empty string. e. Preserve all other data. Output *entire modified data* (header + data rows) as JSON array of arrays. All cell values must be strings.`;
-        
-        let response: GenerateContentResponse | undefined; let retries = 0; let batchSuccess = false; 
-        let batchInputTokens = 0; let batchOutputTokens = 0; let batchApiRequestMadeThisAttempt = false;
+  // Fills one enrichment column. The output column is appended when no column carries its name yet, after every column
+  // already in use, so the mapped input and output columns keep their positions.
+  const runEnrichmentColumn = async (provider: AiProvider, initialData: Dataset, column: EnrichmentColumn, resumeFrom?: RunCheckpoint): Promise<BatchedLookupSummary | null> => {
+    const mapping = resumeFrom?.columnMapping ?? columnMapping;
+    const baseHeader = resumeFrom ? resumeFrom.dataset.header : initialData.header;
+    const existingColumn = findColumnByHeader(baseHeader, column.name);
+    const width = initialData.rows.reduce((max, row) => Math.max(max, row.cells.length), Math.max(baseHeader.length, mapping.websiteUrl + 1, mapping.description + 1));
+    const columnIndex = existingColumn >= 0 ? existingColumn : width;
+    const header = existingColumn >= 0 ? baseHeader : [...baseHeader, ...Array<string>(width - baseHeader.length).fill(''), column.name.trim()];
+    const logPrefix = `AI Enrichment "${column.name.trim()}"`;
+    const needsLookup = (row: DatasetRow) => String(row.cells[mapping.orgName] ?? '').trim() !== '' && (column.overwrite || String(row.cells[columnIndex] ?? '').trim() === '');
+    if (!resumeFrom && !initialData.rows.some(needsLookup)) {
+      addLog(`${logPrefix}: Every row already has a value${column.overwrite ? '' : ' (overwriting is off)'}; nothing to look up.`);
+      return null;
+    }
+    addLog(`${logPrefix}: ${resumeFrom ? 'Resuming from checkpoint.' : `Filling ${existingColumn >= 0 ? `existing column ${columnIndexToLetter(columnIndex)}` : `new column ${columnIndexToLetter(columnIndex)}`} (${ENRICHMENT_VALUE_TYPE_LABELS[column.valueType]}).`}`);
+    return runBatchedLookup(provider, initialData, {
+      operation: 'full_enrichment', task: 'enrichment', templateId: 'enrichment', stepType: 'enrichColumns', mapping,
+      title: `enrichment of "${column.name.trim()}"`, logPrefix, runLabel: `AI enrich "${column.name.trim()}"`, foundNoun: 'values',
+      header, column: columnIndex, enrichmentColumn: column, initialFailureRate: 0,
+      needsLookup,
+      buildPrompt: (rows, templateText) => buildEnrichmentPrompt(rows, mapping, column, columnIndex, templateText),
+      responseSchema: ENRICHMENT_RESPONSE_SCHEMA,
+      parseResponse: (text, expectedIds, batchLabel) => {
+        const { results, missingIds, rejected } = parseEnrichmentResponse(text, expectedIds, column);
+        rejected.forEach(({ id, value, problem }) => addLog(`${logPrefix}: Rejected ${JSON.stringify(value)} for row ${id} in ${batchLabel}: the value ${problem}. The row will be asked again.`));
+        return { results, missingIds };
+      },
+      provenanceSource: 'ai_enrichment',
+      // A lookup that finds nothing keeps whatever the cell held.
+      clearWhenNotFound: false,
+      cacheHints: row => [String(row.cells[mapping.websiteUrl] ?? '').trim(), String(row.cells[columnIndex] ?? '').trim(), String(row.cells[mapping.description] ?? '').trim().slice(0, URL_LOOKUP_CONTEXT_MAX_LENGTH)],
+      cacheSalt: JSON.stringify([column.name.trim(), column.instruction.trim(), column.valueType, column.options, column.pattern]),
+    }, resumeFrom);
+  };
 
-        const promptTokenContents: Content[] = [{role: 'user', parts: [{text: specializedPromptForBatch}]}];
-        batchInputTokens = await getTokenCountForModel(promptTokenContents, modelToUse); 
-        currentRunOpInputTokens += batchInputTokens;
-        setCurrentOperationStats(prev => ({ ...prev, inputTokens: currentRunOpInputTokens, estimatedCost: calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests + 1, 'flash') })); // Estimate with 1 request
-        
-        while(retries <= MAX_RETRIES && !batchSuccess) {
-          try {
-            if (retries > 0) { 
-                const delay = INITIAL_BACKOFF_MS * Math.pow(2, retries - 1) + Math.random() * 1000; 
-                addLog(`Full AI: Retrying batch ${batchDisplayNum} (attempt ${retries + 1}) after ${delay.toFixed(0)}ms due to previous error...`); 
-                await new Promise(resolve => setTimeout(resolve, delay)); 
-            } else { 
-                addLog(`Full AI: Sending Batch ${batchDisplayNum} to AI (Input Tokens: ${batchInputTokens}). Attempt ${retries + 1}.`); 
-            }
-            response = await genAI.models.generateContent({ model: modelToUse, contents: promptTokenContents, config: { tools: [{googleSearch: {}}] } });
-            if (!batchApiRequestMadeThisAttempt && retries === 0) { // Count API request only once per successful batch or final failed attempt
-                currentRunOpApiRequests++; 
-                batchApiRequestMadeThisAttempt = true;
-            }
-            
-            if (!response || typeof response.text !== 'string') { 
-                const errorMsg = `Invalid or empty response structure from Gemini API.`;
-                addLog(`Full AI: Error on batch ${batchDisplayNum}, attempt ${retries + 1}: ${errorMsg}`);
-                throw new Error(errorMsg); 
-            }
-            addLog(`Full AI: Received response from Gemini API for batch ${batchDisplayNum}.`);
-            const responseTokenContents : Content[] = [{role: 'model', parts: [{text: response.text}]}]; 
-            batchOutputTokens = await getTokenCountForModel(responseTokenContents, modelToUse); 
-            currentRunOpOutputTokens += batchOutputTokens;
-            setCurrentOperationStats(prev => ({ ...prev, outputTokens: currentRunOpOutputTokens, apiRequests: currentRunOpApiRequests, estimatedCost: calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, 'flash') }));
-            addLog(`Full AI: Raw AI response for batch ${batchDisplayNum} (Output Tokens: ${batchOutputTokens}): ${response.text.substring(0, 100)}...`);
-            
-            let aiResponseText = response.text.trim(); 
-            const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s; 
-            let match = aiResponseText.match(fenceRegex);
-            if (match && match[2]) { aiResponseText = match[2].trim(); addLog(`Full AI: Removed markdown fences from AI response for batch ${batchDisplayNum}.`); } 
-            else { addLog(`Full AI: No markdown fences detected for batch ${batchDisplayNum}. Trying to extract JSON array.`); 
-                const firstBracket = aiResponseText.indexOf('['); const lastBracket = aiResponseText.lastIndexOf(']'); 
-                if (firstBracket !== -1 && lastBracket > firstBracket) { const potentialJson = aiResponseText.substring(firstBracket, lastBracket + 1); 
-                    try { JSON.parse(potentialJson); aiResponseText = potentialJson; addLog(`Full AI: Successfully extracted JSON array from AI response for batch ${batchDisplayNum}.`);} catch {} 
-                } 
-            }
-            addLog(`Full AI: Attempting to parse AI response for batch ${batchDisplayNum} as JSON.`); 
-            const suggestedBatchDataFromAIUncleaned = JSON.parse(aiResponseText);
-            addLog(`Full AI: Successfully parsed AI response for batch ${batchDisplayNum}.`);
-            const suggestedBatchDataFromAI = cleanAiNotFoundResponses(suggestedBatchDataFromAIUncleaned);
-            const finalProcessedChunkForThisBatch = currentChunkOfOriginalDataRows.map(r => [...r.map(cell => String(cell ?? ''))]); 
-            const aiProcessedRowsOnly = headerRow.length > 0 ? suggestedBatchDataFromAI.slice(1) : suggestedBatchDataFromAI;
-            if (!Array.isArray(aiProcessedRowsOnly) || aiProcessedRowsOnly.length !== itemsRequiringAiLookup.length) { throw new Error(`AI response row count mismatch for batch ${batchDisplayNum}. Expected ${itemsRequiringAiLookup.length}, got ${aiProcessedRowsOnly.length}`); }
-            aiProcessedRowsOnly.forEach((aiRow, idx) => { if (!Array.isArray(aiRow)) { addLog(`Full AI: AI returned non-array row at index ${idx} for batch ${batchDisplayNum}. Skipping this row update.`); return; } const originalRowInfo = itemsRequiringAiLookup[idx]; const originalChunkIdx = originalRowInfo.originalIndexInChunk; const aiFoundUrl = String(aiRow[2] ?? ""); while (finalProcessedChunkForThisBatch[originalChunkIdx].length < 3) finalProcessedChunkForThisBatch[originalChunkIdx].push(''); finalProcessedChunkForThisBatch[originalChunkIdx][2] = aiFoundUrl; });
-            allProcessedDataRows.push(...finalProcessedChunkForThisBatch);
-            const groundingMetadata = response.candidates?.[0]?.groundingMetadata; if (groundingMetadata?.groundingChunks) { const webChunks = groundingMetadata.groundingChunks.filter(c => c.web && c.web.uri); accumulatedGroundingSourcesFromBatches.push(...webChunks); addLog(`Full AI: Found ${webChunks.length} web grounding sources in AI response for batch ${batchDisplayNum}.`); } else { addLog(`Full AI: No web grounding sources found in AI response for batch ${batchDisplayNum}.`);}
-            batchSuccess = true;
-          } catch (e: any) {
-            const errorDetail = e.message + (response && typeof response.text === 'string' ? ` Raw AI Response Snippet: ${response.text.substring(0, 200)}...` : '');
-            addLog(`Full AI Processing (Step 2): Error on batch ${batchDisplayNum}, attempt ${retries + 1}: ${errorDetail}`); retries++;
-            if (retries > MAX_RETRIES) { 
-                addLog(`Full AI Processing (Step 2): Batch ${batchDisplayNum} failed after ${MAX_RETRIES + 1} attempts. Skipping this batch and preserving original data.`); 
-                allProcessedDataRows.push(...currentChunkOfOriginalDataRows.map(r => r.map(cell => String(cell ?? '')))); 
-                runSkippedBatchNumbersLocal.push(batchDisplayNum); 
-                if (!batchApiRequestMadeThisAttempt && retries === MAX_RETRIES +1) { // Count API request if all retries failed
-                    currentRunOpApiRequests++;
-                }
-                break; 
-            }
-          }
+  const handleEnrichColumnsWithAi = async (resumeFrom?: RunCheckpoint): Promise<PipelineStepOutcome> => {
+    if (!aiProvider) { setStatusMessage('AI Enrichment: No AI provider is configured.'); addLog('AI Enrichment Error: No AI provider is configured.'); return 'failed'; }
+    const columns = resumeFrom?.enrichmentColumn ? [resumeFrom.enrichmentColumn] : enrichmentColumns.filter(column => column.enabled);
+    if (columns.length === 0) {
+      const msg = 'AI Enrichment: No enrichment columns are enabled. Define them under "Enrichment Columns" in Section 4.';
+      setStatusMessage(msg); addLog(msg);
+      return 'skipped';
+    }
+    const startData = resumeFrom ? resumeFrom.initialDataset : getDataset();
+    if (!startData || startData.rows.length === 0) { setStatusMessage('AI Enrichment: No data rows loaded.'); addLog('AI Enrichment Error: No data rows loaded.'); return 'failed'; }
+    const problems = columns.flatMap(column => findEnrichmentColumnProblems(column, columns, startData.header, resumeFrom?.columnMapping ?? columnMapping).map(problem => `"${column.name.trim() || 'Unnamed column'}": ${problem}`));
+    if (problems.length > 0) {
+      const msg = `AI Enrichment: Fix the enrichment columns before running. ${problems.join(' ')}`;
+      setStatusMessage(msg); addLog(msg);
+      return 'failed';
+    }
+    addLog(`AI Enrichment: ${resumeFrom ? 'Resuming' : 'Starting'} ${columns.length} column(s): ${columns.map(column => `"${column.name.trim()}"`).join(', ')}.`);
+    setIsEnrichingColumns(true);
+    // One control for all columns, so Cancel also stops the columns not started yet.
+    const { owned } = beginRunControl(true);
+    const columnSummaries: string[] = [];
+    let outcome: PipelineStepOutcome = 'skipped';
+    try {
+      for (const [index, column] of columns.entries()) {
+        if (!(await waitIfPaused())) { outcome = 'cancelled'; break; }
+        // Each column starts from the data the previous column left.
+        const initialData = index === 0 && resumeFrom ? resumeFrom.initialDataset : getDataset();
+        if (!initialData) break;
+        const summary = await runEnrichmentColumn(aiProvider, initialData, column, index === 0 ? resumeFrom : undefined);
+        if (!summary) { columnSummaries.push(`"${column.name.trim()}": nothing to look up`); continue; }
+        columnSummaries.push(`"${column.name.trim()}": ${summary.foundCount} value(s) found${summary.unresolvedRowIds.length > 0 ? `, ${summary.unresolvedRowIds.length} row(s) skipped` : ''}`);
+        if (summary.outcome === 'cancelled') { outcome = 'cancelled'; break; }
+        if (summary.outcome === 'failed' || outcome !== 'failed') outcome = summary.outcome;
+      }
+    } finally {
+      setIsEnrichingColumns(false);
+      endRunControl(owned);
+    }
+    const finalMessage = `AI Enrichment ${outcome === 'cancelled' ? 'Cancelled' : 'Complete'}. ${columnSummaries.join('; ')}.${resumeFrom && outcome !== 'cancelled' && enrichmentColumns.some(column => column.enabled && column.id !== resumeFrom.enrichmentColumn?.id) ? ' Run the step again for the other enabled columns.' : ''}`;
+    setStatusMessage(finalMessage); addLog(finalMessage);
+    return outcome;
+  };
+
+  const handleRetrySkippedUrlRows = () => handleFindUrlsWithAi({ onlyRowIds: unresolvedUrlRowIds });
+
+  // --- Checkpoint Handlers ---
+  const handleResumeRun = () => {
+    const checkpoint = pendingRunCheckpoint;
+    if (!checkpoint) return;
+    const loadedData = getDataset();
+    if (loadedData && fileName !== checkpoint.fileName && !window.confirm(`Resuming replaces the loaded data (${fileName}, ${loadedData.rows.length} rows) with ${checkpoint.fileName} as it was when the run started. Continue?`)) return;
+    setPendingRunCheckpoint(null);
+    setFileName(checkpoint.fileName);
+    setColumnMapping(checkpoint.columnMapping);
+    setRawContactsSheetData(checkpoint.contactsSheetData);
+    setDisplayableCorrectedContactsData(checkpoint.contactsSheetData);
+    setSheetRoles(checkpoint.sheetRoles);
+    // The loaded workbook belongs to another file, so its other sheets must not be exported with this one.
+    if (fileName !== checkpoint.fileName) { setSourceWorkbook(null); setWorkbookSheetSummaries([]); }
+    datasetStore.reset(checkpoint.initialDataset, `Restore data from before the interrupted ${RUN_CHECKPOINT_OPERATION_LABELS[checkpoint.operation].toLowerCase()} run`);
+    addLog(`Checkpoint: Resuming ${RUN_CHECKPOINT_OPERATION_LABELS[checkpoint.operation]} on ${checkpoint.fileName} from ${new Date(checkpoint.updatedAt).toLocaleString()}.`);
+    if (checkpoint.operation === 'full_url') handleFindUrlsWithAi({ resumeFrom: checkpoint });
+    else if (checkpoint.operation === 'full_enrichment') handleEnrichColumnsWithAi(checkpoint);
+    else handleGenerateFullDescriptions(checkpoint);
+  };
+
+  const handleDiscardRunCheckpoint = async () => {
+    setPendingRunCheckpoint(null);
+    await discardRunCheckpoint();
+    setStatusMessage('Interrupted run discarded.');
+    addLog('Checkpoint: Interrupted run discarded.');
+  };
+
+  // --- Response Cache Handlers ---
+  const refreshResponseCacheSummary = async () => {
+    try {
+      setResponseCacheSummary(await summarizeResponseCache(responseCacheSettings.maxAgeDays * DAY_MS, Date.now()));
+    } catch (e: any) {
+      setStatusMessage(`Error reading the response cache: ${e.message}`);
+      addLog(`Response cache: Could not read the cache: ${e.message}`);
+    }
+  };
+
+  // Without expiredOnly, deletes every entry.
+  const handlePurgeResponseCache = async (expiredOnly: boolean) => {
+    try {
+      const deleted = await purgeResponseCache(expiredOnly ? responseCacheSettings.maxAgeDays * DAY_MS : null, Date.now());
+      const msg = `Response cache: Deleted ${deleted} ${expiredOnly ? `entr${deleted === 1 ? 'y' : 'ies'} older than ${responseCacheSettings.maxAgeDays} day(s)` : `entr${deleted === 1 ? 'y' : 'ies'}`}.`;
+      setStatusMessage(msg); addLog(msg);
+    } catch (e: any) {
+      setStatusMessage(`Error purging the response cache: ${e.message}`);
+      addLog(`Response cache: Could not purge the cache: ${e.message}`);
+    }
+    await refreshResponseCacheSummary();
+  };
+
+  const handleExportResponseCache = async () => {
+    try {
+      const entries = await readAllResponseCacheEntries();
+      if (entries.length === 0) { setStatusMessage('The response cache is empty; nothing to export.'); return; }
+      const blob = new Blob([serializeResponseCacheExport(entries)], { type: 'application/json;charset=utf-8;' });
+      const cacheFileName = 'response_cache.json';
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', cacheFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Response cache download started as ${cacheFileName}.`);
+      addLog(`Response cache exported (${entries.length} entries).`);
+    } catch (e: any) {
+      setStatusMessage(`Error exporting the response cache: ${e.message}`);
+      addLog(`Response cache: Could not export the cache: ${e.message}`);
+    }
+  };
+
+  // --- Pipeline Handlers ---
+  const handleRunPipeline = async () => {
+    const steps = pipelineRecipe.steps.filter(step => step.enabled);
+    if (steps.length === 0) { setStatusMessage('Pipeline: No steps are enabled in the recipe.'); return; }
+    const runners: Record<PipelineStepType, () => PipelineStepOutcome | Promise<PipelineStepOutcome>> = {
+      prefillFromContacts: handleFullContactsPreprocessing,
+      deletePlaceholderRows: handleFullPlaceholderDescRowDeletion,
+      deleteMostlyEmptyRows: handleFullMostlyEmptyRows,
+      mergeDuplicates: handleMergeDuplicateOrganizations,
+      findUrls: () => handleFindUrlsWithAi(),
+      enrichColumns: () => handleEnrichColumnsWithAi(),
+      generateDossiers: () => handleGenerateFullDescriptions(),
+      extractKeyPersonnel: handleExtractKeyPersonnel,
+    };
+
+    const initialStatuses: Partial<Record<PipelineStepType, PipelineStepStatus>> = {};
+    steps.forEach(step => { initialStatuses[step.type] = 'pending'; });
+    setPipelineStepStatuses(initialStatuses);
+    setIsRunningPipeline(true);
+    const { owned } = beginRunControl(true);
+    addLog(`Pipeline "${pipelineRecipe.name}": Starting ${steps.length} step(s): ${steps.map(step => getPipelineStepDefinition(step.type).label).join(' → ')}.`);
+
+    let failedStepLabel: string | null = null;
+    let cancelled = false;
+    try {
+      for (const step of steps) {
+        const { label } = getPipelineStepDefinition(step.type);
+        if (!(await waitIfPaused())) { cancelled = true; break; }
+        setPipelineStepStatuses(prev => ({ ...prev, [step.type]: 'running' }));
+        addLog(`Pipeline "${pipelineRecipe.name}": Running "${label}".`);
+        let outcome: PipelineStepOutcome;
+        try {
+          outcome = await runners[step.type]();
+        } catch (e) {
+          addLog(`Pipeline "${pipelineRecipe.name}": "${label}" threw an error: ${e instanceof Error ? e.message : String(e)}`);
+          outcome = 'failed';
         }
+        setPipelineStepStatuses(prev => ({ ...prev, [step.type]: outcome }));
+        if (outcome === 'cancelled') { cancelled = true; break; }
+        if (outcome === 'failed') { failedStepLabel = label; break; }
       }
-      setAiGroundingSources([...accumulatedGroundingSourcesFromBatches]);
-      // Update display incrementally after each batch
-      updateDisplayData([headerRow, ...allProcessedDataRows], 'batch_incremental', `Full AI URL Processing: Batch ${batchDisplayNum} of ${totalBatches} processed. Display updated.`); 
-    } 
-    setSkippedBatchNumbers(runSkippedBatchNumbersLocal);
-    setCurrentOperationStats(prev => ({ ...prev, status: runSkippedBatchNumbersLocal.length > 0 ? 'error' : 'completed', progressMessage: `All URL Batches Processed. ${totalBatches-runSkippedBatchNumbersLocal.length}/${totalBatches} successful. Skipped: ${runSkippedBatchNumbersLocal.join(', ') || 'None'}`}));
-    
-    setTotalInputTokens(p => p + currentRunOpInputTokens); 
-    setTotalOutputTokens(p => p + currentRunOpOutputTokens); 
-    setTotalApiRequestsMade(p => p + currentRunOpApiRequests);
-    setEstimatedCost(prev => prev + calculateOperationCost(currentRunOpInputTokens, currentRunOpOutputTokens, currentRunOpApiRequests, 'flash'));
-    recalculateCumulativeSessionCost();
+    } finally {
+      setIsRunningPipeline(false);
+      endRunControl(owned);
+    }
+
+    const msg = cancelled
+      ? `Pipeline "${pipelineRecipe.name}" cancelled. Steps finished so far are kept and can be undone in Section 2.`
+      : failedStepLabel
+      ? `Pipeline "${pipelineRecipe.name}" stopped: "${failedStepLabel}" failed, so the remaining steps were not run. See the Activity Log for details.`
+      : `Pipeline "${pipelineRecipe.name}" complete: ${steps.length} step(s) run.`;
+    setStatusMessage(msg); addLog(msg);
+  };
+
+  const handleDownloadCassette = () => {
+    if (!configuredAiProvider) return;
+    try {
+      const cassette: Cassette = { version: CASSETTE_VERSION, recordedAt: Date.now(), providerKind: configuredAiProvider.kind, providerLabel: configuredAiProvider.label, models: configuredAiProvider.models, entries: recordedCassetteEntriesRef.current };
+      const blob = new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json;charset=utf-8;' });
+      const baseName = fileName ? fileName.replace(/\.[^/.]+$/, '') : 'session';
+      const cassetteFileName = `${baseName}.cassette.json`;
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', cassetteFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Cassette download started as ${cassetteFileName}.`);
+      addLog(`Cassette with ${cassette.entries.length} recorded AI call(s) saved as ${cassetteFileName}.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error saving cassette: ${errorMsg}`);
+      addLog(`Error saving cassette: ${errorMsg}`);
+    }
+  };
+
+  const handleClearCassetteRecording = () => {
+    recordedCassetteEntriesRef.current = [];
+    setRecordedCassetteEntryCount(0);
+    addLog('Cassette recording cleared.');
+  };
+
+  const handleCassetteFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows loading the same file again after editing it.
+    if (!file) return;
+    try {
+      const cassette = parseCassette(await file.text());
+      setReplayCassette(cassette);
+      setStatusMessage(`Cassette loaded from ${file.name}. AI calls are now served from it.`);
+      addLog(`Cassette loaded from ${file.name}: ${cassette.entries.length} recorded call(s) from ${cassette.providerLabel}${cassette.recordedAt ? `, recorded ${new Date(cassette.recordedAt).toLocaleString()}` : ''}.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error loading cassette: ${errorMsg}`);
+      addLog(`Error loading cassette from ${file.name}: ${errorMsg}`);
+    }
+  };
+
+  const handleExportPromptTemplates = () => {
+    try {
+      const blob = new Blob([serializePromptLibrary(promptLibrary)], { type: 'application/json;charset=utf-8;' });
+      const templatesFileName = 'prompt_templates.json';
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', templatesFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Prompt templates download started as ${templatesFileName}.`);
+      addLog(`Prompt templates exported (${PROMPT_TEMPLATE_IDS.map(id => formatPromptVersion(id, promptLibrary[id].activeVersion)).join(', ')} active).`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error exporting prompt templates: ${errorMsg}`);
+      addLog(`Error exporting prompt templates: ${errorMsg}`);
+    }
+  };
+
+  const handlePromptTemplatesFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows loading the same file again after editing it.
+    if (!file) return;
+    try {
+      const library = parsePromptLibrary(await file.text());
+      setPromptLibrary(library);
+      const summary = PROMPT_TEMPLATE_IDS.map(id => formatPromptVersion(id, library[id].activeVersion)).join(', ');
+      setStatusMessage(`Prompt templates loaded from ${file.name}: ${summary} active.`);
+      addLog(`Prompt templates loaded from ${file.name}: ${summary} active.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error loading prompt templates: ${errorMsg}`);
+      addLog(`Error loading prompt templates from ${file.name}: ${errorMsg}`);
+    }
+  };
+
+  const handleSaveRecipe = () => {
+    try {
+      const blob = new Blob([JSON.stringify(pipelineRecipe, null, 2)], { type: 'application/json;charset=utf-8;' });
+      const recipeSlug = pipelineRecipe.name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 40) || 'pipeline';
+      const recipeFileName = `${recipeSlug}.recipe.json`;
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', recipeFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Recipe download started as ${recipeFileName}.`);
+      addLog(`Pipeline recipe "${pipelineRecipe.name}" saved as ${recipeFileName}.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error saving recipe: ${errorMsg}`);
+      addLog(`Error saving pipeline recipe: ${errorMsg}`);
+    }
+  };
 
-    let finalMessage = `Full AI URL Finding Complete.`; 
-    if (runSkippedBatchNumbersLocal.length > 0) finalMessage += ` ${runSkippedBatchNumbersLocal.length} batch(es) skipped due to errors: ${runSkippedBatchNumbersLocal.join(', ')}.`;
-    updateDisplayData([headerRow, ...allProcessedDataRows], 'ai_url_find', finalMessage); 
-    setIsLoading(false);
+  const handleRecipeFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows loading the same file again after editing it.
+    if (!file) return;
+    try {
+      const recipe = parsePipelineRecipe(await file.text());
+      setPipelineRecipe(recipe);
+      setPipelineStepStatuses({});
+      setStatusMessage(`Recipe "${recipe.name}" loaded from ${file.name}.`);
+      addLog(`Pipeline recipe "${recipe.name}" loaded from ${file.name}: ${recipe.steps.filter(step => step.enabled).length} of ${recipe.steps.length} step(s) enabled.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error loading recipe: ${errorMsg}`);
+      addLog(`Error loading pipeline recipe from ${file.name}: ${errorMsg}`);
+    }
   };
 
   const handleEstimateFullAiRunCost = async () => {
-    if (!genAI) { setStatusMessage('Cost Estimation: Gemini API key missing.'); addLog("Cost Estimation Error: Gemini API key missing."); return; }
+    if (!aiProvider) { setStatusMessage('Cost Estimation: No AI provider is configured.'); addLog("Cost Estimation Error: No AI provider is configured."); return; }
     addLog("Cost Estimation: Initiating for Full AI URL Finding Run.");
     setIsEstimatingCost(true);
     setPreRunEstimation(null);
-    setCurrentOperationStats({ operationType: null, status: 'estimating_input', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: 'gemini-2.5-flash-preview-04-17', progressMessage: 'Estimating URL finding costs...' });
+    const generation = resolveTaskGeneration(modelSettings.tasks.urlLookup, 'urlLookup', aiProvider);
+    setCurrentOperationStats({ operationType: null, status: 'estimating_input', inputTokens: 0, outputTokens: 0, apiRequests: 0, estimatedCost: 0, modelUsed: generation.model, progressMessage: 'Estimating URL finding costs...' });
 
-    let dataForEstimation: string[][];
-    try {
-      dataForEstimation = JSON.parse(displayData);
-      if (!Array.isArray(dataForEstimation) || dataForEstimation.length < 2) {
-        setStatusMessage("Cost Estimation: Not enough data loaded in main display.");
-        addLog("Cost Estimation: No data or insufficient data for estimation.");
-        setIsEstimatingCost(false);
-        setCurrentOperationStats(initialCurrentOperationStats);
-        return;
-      }
-    } catch (e) {
-      const errorMsg = `Cost Estimation: Invalid JSON in main display. ${e instanceof Error ? e.message : String(e)}`;
-      setStatusMessage(errorMsg);
-      addLog(errorMsg);
+    const dataForEstimation = getDataset();
+    if (!dataForEstimation || dataForEstimation.rows.length === 0) {
+      setStatusMessage("Cost Estimation: Not enough data loaded.");
+      addLog("Cost Estimation: No data or insufficient data for estimation.");
       setIsEstimatingCost(false);
       setCurrentOperationStats(initialCurrentOperationStats);
       return;
     }
 
-    const modelToUse = 'gemini-2.5-flash-preview-04-17';
+    const modelToUse = generation.model;
     let totalEstimatedInputTokens = 0;
     let totalEstimatedApiRequests = 0;
 
-    const headerRow = dataForEstimation[0];
-    const dataRows = dataForEstimation.slice(1);
-    const BATCH_SIZE = 20; // Must match the batch size in handleFindUrlsWithAi
+    // Same batches and prompt as handleFindUrlsWithAi: only rows without a plausible URL, at the current adapted batch size.
+    const candidateRows = dataForEstimation.rows.filter(row => !isPlausibleUrl(String(row.cells[columnMapping.websiteUrl] ?? '')));
+    const BATCH_SIZE = adaptUrlBatchSize(getPipelineStepParams(pipelineRecipe, 'findUrls').batchSize ?? DEFAULT_URL_BATCH_SIZE, urlBatchFailureRate);
+    const urlPromptText = getActivePromptTemplate(promptLibrary, 'urlLookup').text;
+    // The run answers rows from the response cache before it batches the rest, using these keys and the configured maximum age.
+    const getCacheKey = (row: DatasetRow) => getResponseCacheKey('urlLookup', String(row.cells[columnMapping.orgName] ?? '').trim(), getUrlLookupCacheHints(row, columnMapping), urlPromptText, modelToUse);
+    const cachedEntries = await readCachedResponses(candidateRows.map(getCacheKey), responseCacheSettings.maxAgeDays, false);
+    const dataRows = candidateRows.filter(row => !cachedEntries.has(getCacheKey(row)));
+    const cachedRowCount = candidateRows.length - dataRows.length;
     const totalBatches = Math.ceil(dataRows.length / BATCH_SIZE);
 
-    addLog(`Cost Estimation: Processing ${dataRows.length} data rows in ${totalBatches} potential batches.`);
+    addLog(`Cost Estimation: ${candidateRows.length} of ${dataForEstimation.rows.length} data rows need a URL lookup. ${cachedRowCount} of them are answered from the response cache; the other ${dataRows.length} go to the AI in ${totalBatches} potential batches.`);
 
     for (let i = 0; i < totalBatches; i++) {
       const batchStart = i * BATCH_SIZE;
       const batchEnd = batchStart + BATCH_SIZE;
-      const currentChunk = dataRows.slice(batchStart, batchEnd);
+      const itemsRequiringAiLookup = dataRows.slice(batchStart, batchEnd);
       const batchDisplayNum = i + 1;
 
-      const itemsRequiringAiLookup = currentChunk.filter(row => !isPlausibleUrl(String(row[2] ?? '')));
-
-      if (itemsRequiringAiLookup.length > 0) {
-        totalEstimatedApiRequests++; // One API request per batch that needs AI
-        const dataForAISubmission = [headerRow, ...itemsRequiringAiLookup];
-        const dataToSendString = JSON.stringify(dataForAISubmission);
-        const prompt = `For this JSON array of CSV data (header + data rows): <data>${dataToSendString}</data> Task: For each data row (skip header): a. Organization Name is Column A (index 0). b. Using Google Search to find the official website URL. Prioritize known businesses. c. If URL found, put main domain (e.g., "company.com") in Column C. Ensure Column C header is "Website URL". If Column C doesn't exist, add it with this header. d. If no URL or not a business, ensure Column C is an empty string. e. Preserve all other data. Output *entire modified data* (header + data rows) as JSON array of arrays. All cell values must be strings.`;
-        
-        const promptTokenContents: Content[] = [{role: 'user', parts: [{text: prompt}]}];
-        try {
-            const batchTokens = await getTokenCountForModel(promptTokenContents, modelToUse);
-            totalEstimatedInputTokens += batchTokens;
-            addLog(`Cost Estimation: Batch ${batchDisplayNum} - ${itemsRequiringAiLookup.length} items, Est. Input Tokens: ${batchTokens}`);
-        } catch (e) {
-            addLog(`Cost Estimation: Error counting tokens for batch ${batchDisplayNum}: ${e instanceof Error ? e.message : String(e)}`);
-            // Potentially stop estimation or mark as partial
-        }
-      } else {
-        addLog(`Cost Estimation: Batch ${batchDisplayNum} - All ${currentChunk.length} rows have plausible URLs. No AI call estimated.`);
+      totalEstimatedApiRequests++; // One API request per batch
+      const prompt = buildUrlLookupPrompt(itemsRequiringAiLookup, columnMapping, urlPromptText);
+      
+      try {
+          const batchTokens = await getTokenCountForModel(prompt, modelToUse);
+          totalEstimatedInputTokens += batchTokens;
+          addLog(`Cost Estimation: Batch ${batchDisplayNum} - ${itemsRequiringAiLookup.length} items, Est. Input Tokens: ${batchTokens}`);
+      } catch (e) {
+          addLog(`Cost Estimation: Error counting tokens for batch ${batchDisplayNum}: ${e instanceof Error ? e.message : String(e)}`);
+          // Potentially stop estimation or mark as partial
       }
     }
 
-    // Calculate estimated cost (input tokens + grounding for API requests)
     // Output tokens are not easily predictable for cost estimation here, so focus on input + grounding
-    const inputCost = (totalEstimatedInputTokens / 1000000) * FLASH_PRICE_INPUT_PER_MILLION_TOKENS;
-    let groundingCost = 0;
-    // This estimates cost IF these requests were made on top of current session's free tier usage
-    const potentialTotalRequests = totalApiRequestsMade + totalEstimatedApiRequests;
-    if (potentialTotalRequests > FLASH_FREE_GROUNDING_REQUESTS_PER_DAY) {
-        const billableRequests = Math.max(0, potentialTotalRequests - FLASH_FREE_GROUNDING_REQUESTS_PER_DAY) - Math.max(0, totalApiRequestsMade - FLASH_FREE_GROUNDING_REQUESTS_PER_DAY);
-        if (billableRequests > 0) {
-           groundingCost = (billableRequests / 1000) * FLASH_PRICE_GROUNDING_PER_THOUSAND_REQUESTS_AFTER_FREE_TIER;
-        }
-    }
-    
+    const inputCost = calculateOperationCost(totalEstimatedInputTokens, 0, totalEstimatedApiRequests, modelToUse);
+    // Grounding is billed on top of this session's grounded requests on the same model, which share its daily free allowance.
+    const sessionGroundedRequests = AI_TASKS.filter(task => resolveTaskGeneration(modelSettings.tasks[task], task, aiProvider).model === modelToUse).reduce((sum, task) => sum + (groundedRequestsByTask[task] ?? 0), 0);
+    const groundingCost = generation.grounded
+      ? calculateGroundingCost(modelSettings.pricing[modelToUse], sessionGroundedRequests + totalEstimatedApiRequests) - calculateGroundingCost(modelSettings.pricing[modelToUse], sessionGroundedRequests)
+      : 0;
     const estimatedTotalCost = inputCost + groundingCost;
 
     setPreRunEstimation({
+      model: modelToUse,
+      grounded: generation.grounded ?? false,
       inputTokens: totalEstimatedInputTokens,
       apiRequests: totalEstimatedApiRequests,
       estimatedInputCost: estimatedTotalCost,
+      cachedRows: cachedRowCount,
     });
 
-    addLog(`Cost Estimation Complete: Total Est. Input Tokens: ${totalEstimatedInputTokens}, Total Est. API Requests: ${totalEstimatedApiRequests}, Est. Input & Grounding Cost: $${estimatedTotalCost.toFixed(4)}`);
+    addLog(`Cost Estimation Complete: Total Est. Input Tokens: ${totalEstimatedInputTokens}, Total Est. API Requests: ${totalEstimatedApiRequests}${generation.grounded ? ' (grounded)' : ''}, Est. ${generation.grounded ? 'Input & Grounding' : 'Input'} Cost: $${estimatedTotalCost.toFixed(4)}`);
     setStatusMessage('Full AI URL Finding cost estimation complete. See details below.');
     setCurrentOperationStats(prev => ({...prev, status: 'completed', progressMessage: 'Estimation complete.'}));
     setIsEstimatingCost(false);
   };
 
+  // Reports how many rows every refresh mode would touch, and prices the configured one.
+  const handleEstimateDossierRunCost = async () => {
+    if (!aiProvider) { setStatusMessage('Dossier Cost Estimation: No AI provider is configured.'); addLog("Dossier Cost Estimation Error: No AI provider is configured."); return; }
+    const dataForEstimation = getDataset();
+    if (!dataForEstimation || dataForEstimation.rows.length === 0) { setStatusMessage('Dossier Cost Estimation: No data loaded.'); addLog('Dossier Cost Estimation: No data for estimation.'); return; }
+    setIsEstimatingCost(true);
+    setDossierRunEstimation(null);
+
+    const stepParams = getPipelineStepParams(pipelineRecipe, 'generateDossiers');
+    const refreshMode = stepParams.refreshMode ?? DEFAULT_DOSSIER_REFRESH_MODE;
+    const staleAfterDays = stepParams.staleAfterDays ?? DEFAULT_DOSSIER_STALE_DAYS;
+    const criteria = { staleAfterDays, selectedRowIds, now: Date.now() };
+    const modeCounts = countDossierRefreshRows(dataForEstimation, columnMapping, criteria);
+    const targetRowIds = new Set(selectDossierRefreshRows(dataForEstimation, columnMapping, refreshMode, criteria));
+    const generation = resolveTaskGeneration(modelSettings.tasks.dossier, 'dossier', aiProvider);
+
+    // Dossier prompts differ only in the row's own values, so one counted prompt stands in for every row.
+    const sampleRow = dataForEstimation.rows.find(row => targetRowIds.has(row.id));
+    const promptTokens = sampleRow
+      ? await getTokenCountForModel(renderPromptTemplate(getActivePromptTemplate(promptLibrary, 'dossier').text, getDossierPromptContext(dataForEstimation.header, sampleRow, columnMapping)), generation.model)
+      : 0;
+    const inputTokens = promptTokens * targetRowIds.size;
+    const outputTokens = DOSSIER_ESTIMATED_OUTPUT_TOKENS * targetRowIds.size;
+    const estimatedDossierCost = calculateOperationCost(inputTokens, outputTokens, targetRowIds.size, generation.model);
+    const refreshDescription = describeDossierRefreshMode(refreshMode, staleAfterDays);
+
+    setDossierRunEstimation({ refreshMode, refreshDescription, modeCounts, staleAfterDays, model: generation.model, inputTokens, outputTokens, estimatedCost: estimatedDossierCost });
+    addLog(`Dossier Cost Estimation: ${DOSSIER_REFRESH_MODES.map(mode => `${describeDossierRefreshMode(mode, staleAfterDays)}: ${modeCounts[mode]}`).join('; ')}.`);
+    addLog(`Dossier Cost Estimation Complete: ${targetRowIds.size} row(s) for "${refreshDescription}", Est. Input Tokens: ${inputTokens}, Est. Output Tokens: ${outputTokens}, Est. Cost: $${estimatedDossierCost.toFixed(4)}`);
+    setStatusMessage('Dossier generation cost estimation complete. See details below.');
+    setIsEstimatingCost(false);
+  };
 
-  const handleDownloadCsv = useCallback(() => { addLog("Download initiated."); if (!displayData.trim()) { setStatusMessage('No data to download.'); addLog('No data for download.'); return; } let dataToDownload; try { dataToDownload = JSON.parse(displayData); if (!Array.isArray(dataToDownload) || (dataToDownload.length > 0 && !Array.isArray(dataToDownload[0]))) throw new Error("Data not valid array of arrays."); } catch(e) { setStatusMessage(`Error parsing data for download: ${e instanceof Error ? e.message : String(e)}`); addLog(`Download Error: ${e instanceof Error ? e.message : String(e)}`); return; } setIsLoading(true); setStatusMessage('Preparing CSV...'); try { const csvString = stringifyCSV(dataToDownload); const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' }); const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', fileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link); setStatusMessage(`CSV download started as ${fileName}.`); addLog(`CSV download started as ${fileName}.`); } catch (err) { console.error('Error downloading:', err); setStatusMessage(`Error preparing CSV: ${err instanceof Error ? err.message : String(err)}`); addLog(`Error preparing CSV for download: ${err instanceof Error ? err.message : String(err)}`); } finally { setIsLoading(false); } }, [displayData, fileName, addLog]);
-  const handleDownloadCorrectedContactsCsv = useCallback(() => { addLog("Corrected Contacts CSV Download initiated."); if (!displayableCorrectedContactsData || displayableCorrectedContactsData.length === 0) { setStatusMessage('No corrected contacts data to download.'); addLog('No corrected contacts data for download.'); return; } setIsLoading(true); setStatusMessage('Preparing Corrected Contacts CSV...'); try { const csvString = stringifyCSV(displayableCorrectedContactsData); const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' }); const link = document.createElement('a'); const url = URL.createObjectURL(blob); const baseFileName = fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, ''); const contactsFileName = `${baseFileName}_corrected_contacts.csv`; link.setAttribute('href', url); link.setAttribute('download', contactsFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link); setStatusMessage(`Corrected Contacts CSV download started as ${contactsFileName}.`); addLog(`Corrected Contacts CSV download started as ${contactsFileName}.`); } catch (err) { console.error('Error downloading corrected contacts CSV:', err); const errorMsg = err instanceof Error ? err.message : String(err); setStatusMessage(`Error preparing Corrected Contacts CSV: ${errorMsg}`); addLog(`Error preparing Corrected Contacts CSV for download: ${errorMsg}`); } finally { setIsLoading(false); } }, [displayableCorrectedContactsData, fileName, addLog]);
+  // The Step 3 controls edit the same parameters as the dossier step of the pipeline recipe.
+  const updateDossierStepParams = (params: PipelineStepParams) => {
+    setPipelineRecipe(prev => ({ ...prev, steps: prev.steps.map(step => step.type === 'generateDossiers' ? { ...step, params: { ...step.params, ...params } } : step) }));
+  };
+
+  const downloadProvenanceSidecar = useCallback((data: Dataset) => {
+    const sourceFile = fileName.replace('_with_urls.csv', '');
+    const sidecar = buildProvenanceSidecar(data, columnMapping.orgName, sourceFile);
+    const blob = new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json;charset=utf-8;' });
+    const sidecarFileName = `${sourceFile.replace(/\.(csv|xlsx|xls)$/i, '')}_provenance.json`;
+    const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', sidecarFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+    addLog(`Provenance sidecar download started as ${sidecarFileName} (${sidecar.cells.length} enriched cell(s)).`);
+  }, [fileName, columnMapping, addLog]);
+
+  const downloadDossierJsonLines = useCallback((data: Dataset) => {
+    const { text, count } = buildDossierJsonLines(data, columnMapping);
+    const blob = new Blob([text], { type: 'application/x-ndjson;charset=utf-8;' });
+    const dossiersFileName = `${fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, '')}_dossiers.jsonl`;
+    const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', dossiersFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+    addLog(`Dossier JSON Lines download started as ${dossiersFileName} (${count} of ${data.rows.length} row(s) hold a dossier).`);
+  }, [fileName, columnMapping, addLog]);
+
+  // Provenance and dossier columns are both appended after the data, so either can be added without moving mapped columns.
+  const buildOrganizationsExportTable = useCallback((data: Dataset): string[][] => {
+    const table = provenanceExport === 'columns' ? datasetToTableWithProvenanceColumns(data) : datasetToTable(data);
+    return dossierExport === 'columns' ? appendDossierColumns(table, data, columnMapping.description) : table;
+  }, [provenanceExport, dossierExport, columnMapping]);
+
+  const handleDownloadDossierBundle = useCallback(async () => {
+    const currentData = getDataset();
+    if (!currentData) { setStatusMessage('No data to download.'); addLog('No data for dossier bundle download.'); return; }
+    const entries = collectDossierEntries(currentData, columnMapping);
+    if (entries.length === 0) { setStatusMessage('No row holds a dossier to export.'); addLog('Dossier bundle: no row holds a dossier.'); return; }
+    setIsLoading(true); setStatusMessage(`Preparing dossier bundle (${entries.length} dossier(s))...`);
+    try {
+      const baseName = fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, '');
+      const blob = await buildDossierBundle(entries, `Corporate Intelligence Dossiers: ${baseName}`);
+      const bundleFileName = `${baseName}_dossiers.zip`;
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', bundleFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      setStatusMessage(`Dossier bundle download started as ${bundleFileName}.`);
+      addLog(`Dossier bundle download started as ${bundleFileName} (${entries.length} of ${currentData.rows.length} row(s) hold a dossier).`);
+    } catch (err) {
+      console.error('Error preparing dossier bundle:', err);
+      setStatusMessage(`Error preparing dossier bundle: ${err instanceof Error ? err.message : String(err)}`);
+      addLog(`Error preparing dossier bundle: ${err instanceof Error ? err.message : String(err)}`);
+    } finally { setIsLoading(false); }
+  }, [getDataset, columnMapping, fileName, addLog]);
+
+  const handleDownloadCsv = useCallback(() => { addLog("Download initiated."); const currentData = getDataset(); if (!currentData) { setStatusMessage('No data to download.'); addLog('No data for download.'); return; } const dataToDownload = buildOrganizationsExportTable(currentData); setIsLoading(true); setStatusMessage('Preparing CSV...'); try { const csvString = stringifyCSV(dataToDownload, csvExportOptions); const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' }); const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', fileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link); setStatusMessage(`CSV download started as ${fileName}.`); addLog(`CSV download started as ${fileName}.`); if (provenanceExport === 'sidecar') downloadProvenanceSidecar(currentData); if (dossierExport === 'jsonl') downloadDossierJsonLines(currentData); } catch (err) { console.error('Error downloading:', err); setStatusMessage(`Error preparing CSV: ${err instanceof Error ? err.message : String(err)}`); addLog(`Error preparing CSV for download: ${err instanceof Error ? err.message : String(err)}`); } finally { setIsLoading(false); } }, [getDataset, fileName, csvExportOptions, provenanceExport, downloadProvenanceSidecar, dossierExport, downloadDossierJsonLines, buildOrganizationsExportTable, addLog]);
+  const handleDownloadCorrectedContactsCsv = useCallback(() => { addLog("Corrected Contacts CSV Download initiated."); if (!displayableCorrectedContactsData || displayableCorrectedContactsData.length === 0) { setStatusMessage('No corrected contacts data to download.'); addLog('No corrected contacts data for download.'); return; } setIsLoading(true); setStatusMessage('Preparing Corrected Contacts CSV...'); try { const csvString = stringifyCSV(displayableCorrectedContactsData, csvExportOptions); const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' }); const link = document.createElement('a'); const url = URL.createObjectURL(blob); const baseFileName = fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, ''); const contactsFileName = `${baseFileName}_corrected_contacts.csv`; link.setAttribute('href', url); link.setAttribute('download', contactsFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link); setStatusMessage(`Corrected Contacts CSV download started as ${contactsFileName}.`); addLog(`Corrected Contacts CSV download started as ${contactsFileName}.`); } catch (err) { console.error('Error downloading corrected contacts CSV:', err); const errorMsg = err instanceof Error ? err.message : String(err); setStatusMessage(`Error preparing Corrected Contacts CSV: ${errorMsg}`); addLog(`Error preparing Corrected Contacts CSV for download: ${errorMsg}`); } finally { setIsLoading(false); } }, [displayableCorrectedContactsData, fileName, csvExportOptions, addLog]);
+
+  const buildRunReportRows = (orgsData: string[][]): string[][] => {
+    const orgHeader = orgsData[0] ?? [];
+    const contactsHeader = displayableCorrectedContactsData?.[0] ?? null;
+    return [
+      ['Run Report', ''],
+      ['Generated At', new Date().toISOString()],
+      ['Source File', fileName.replace('_with_urls.csv', '')],
+      ['Organization Rows', String(Math.max(0, orgsData.length - 1))],
+      ['Contact Rows', String(displayableCorrectedContactsData ? Math.max(0, displayableCorrectedContactsData.length - 1) : 0)],
+      ...COLUMN_ROLE_DEFINITIONS.filter(d => d.sheet === 'organizations' || contactsHeader).map(d => [`Column: ${d.label}`, describeColumn(d.sheet === 'organizations' ? orgHeader : (contactsHeader ?? []), columnMapping[d.role])]),
+      ['Total Input Tokens', String(totalInputTokens)],
+      ['Total Output Tokens', String(totalOutputTokens)],
+      ['Total API Requests', String(totalApiRequestsMade)],
+      ['Estimated Session Cost (USD)', (estimatedCost + sessionGroundingCost).toFixed(4)],
+      ['Skipped URL Batches', skippedBatchNumbers.join(', ') || 'None'],
+      ['Skipped URL Rows', String(unresolvedUrlRowIds.length)],
+      ['', ''],
+      ['Activity Log', ''],
+      ...activityLog.map(line => [line, '']),
+    ];
+  };
+
+  const handleDownloadWorkbook = useCallback(() => {
+    addLog("Workbook Download initiated.");
+    const currentData = getDataset();
+    if (!currentData) { setStatusMessage('No data to download.'); addLog('Workbook Download: No data loaded.'); return; }
+    const orgsData = buildOrganizationsExportTable(currentData);
+    setIsLoading(true); setStatusMessage('Preparing workbook...');
+    try {
+      const outputWorkbook = XLSX.utils.book_new();
+      const orgsSheetName = sheetRoles?.organizations ?? 'Organizations';
+      const contactsSheetName = sheetRoles?.contacts ?? (displayableCorrectedContactsData ? 'Contacts' : null);
+      const sheetNames = sourceWorkbook ? [...sourceWorkbook.SheetNames] : [orgsSheetName];
+      if (!sourceWorkbook && contactsSheetName) sheetNames.push(contactsSheetName);
+      const formattedSheets: { index: number, wrapColumns: number[] }[] = [];
+
+      sheetNames.forEach(name => {
+        if (name === orgsSheetName) {
+          formattedSheets.push({ index: outputWorkbook.SheetNames.length, wrapColumns: [columnMapping.description] });
+          XLSX.utils.book_append_sheet(outputWorkbook, buildFormattedSheet(orgsData, { urlColumns: [columnMapping.websiteUrl], wrapColumns: [columnMapping.description] }), name);
+        } else if (name === contactsSheetName && displayableCorrectedContactsData) {
+          formattedSheets.push({ index: outputWorkbook.SheetNames.length, wrapColumns: [] });
+          XLSX.utils.book_append_sheet(outputWorkbook, buildFormattedSheet(displayableCorrectedContactsData), name);
+        } else if (sourceWorkbook) {
+          // Untouched sheets are carried through as read, keeping their values, formulas and column widths.
+          XLSX.utils.book_append_sheet(outputWorkbook, sourceWorkbook.Sheets[name], name);
+        }
+      });
+      // Sheet order is unchanged, so hidden-sheet flags and defined names still line up.
+      if (sourceWorkbook?.Workbook) outputWorkbook.Workbook = sourceWorkbook.Workbook;
+
+      if (includeRunReportSheet) {
+        let reportSheetName = RUN_REPORT_SHEET_NAME;
+        for (let n = 2; outputWorkbook.SheetNames.includes(reportSheetName); n++) reportSheetName = `${RUN_REPORT_SHEET_NAME} (${n})`;
+        formattedSheets.push({ index: outputWorkbook.SheetNames.length, wrapColumns: [] });
+        XLSX.utils.book_append_sheet(outputWorkbook, buildFormattedSheet(buildRunReportRows(orgsData)), reportSheetName);
+      }
+
+      const xlsxData: ArrayBuffer = XLSX.write(outputWorkbook, { bookType: 'xlsx', type: 'array' });
+      const formattedData = applyWorkbookXmlFormatting(xlsxData, formattedSheets);
+      const blob = new Blob([formattedData as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+      const baseFileName = fileName.replace('_with_urls.csv', '').replace(/\.(csv|xlsx|xls)$/i, '');
+      const workbookFileName = `${baseFileName}_enriched.xlsx`;
+      const link = document.createElement('a'); const url = URL.createObjectURL(blob); link.setAttribute('href', url); link.setAttribute('download', workbookFileName); link.style.visibility = 'hidden'; document.body.appendChild(link); link.click(); document.body.removeChild(link);
+      const untouchedCount = sheetNames.filter(name => name !== orgsSheetName && name !== contactsSheetName).length;
+      setStatusMessage(`Workbook download started as ${workbookFileName}.`);
+      addLog(`Workbook download started as ${workbookFileName} (${outputWorkbook.SheetNames.length} sheet(s), ${untouchedCount} carried through unchanged${includeRunReportSheet ? ', run report included' : ''}).`);
+      if (provenanceExport === 'sidecar') downloadProvenanceSidecar(currentData);
+      if (dossierExport === 'jsonl') downloadDossierJsonLines(currentData);
+    } catch (err) {
+      console.error('Error downloading workbook:', err);
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      setStatusMessage(`Error preparing workbook: ${errorMsg}`);
+      addLog(`Error preparing workbook for download: ${errorMsg}`);
+    } finally { setIsLoading(false); }
+  }, [getDataset, provenanceExport, downloadProvenanceSidecar, dossierExport, downloadDossierJsonLines, buildOrganizationsExportTable, displayableCorrectedContactsData, sourceWorkbook, sheetRoles, columnMapping, includeRunReportSheet, fileName, activityLog, totalInputTokens, totalOutputTokens, totalApiRequestsMade, estimatedCost, sessionGroundingCost, skippedBatchNumbers, unresolvedUrlRowIds, addLog]);
 
-  if (!GEMINI_API_KEY) { return <div className="container error-message">Error: Gemini API_KEY is not set. Please ensure the `API_KEY` environment variable is configured.</div>; }
-  
   const isAnyTestLoading = isTestingContactCorrection || isTestingPreprocessing || isTestingPlaceholderDescRowDeletion || isTestingMostlyEmptyRowDeletion || isTestingMergingDuplicates || isTestingAiOnPreprocessed || isEstimatingCost || isTestingDescriptionGeneration;
-  const isAnyFullLoading = isLoading || isProcessingContactsFull || isPerformingFullPlaceholderDescRowDeletion || isPerformingFullMostlyEmptyRowDeletion || isMergingDuplicatesFull || isGeneratingFullDescriptions;
+  const isAnyFullLoading = isLoading || isProcessingContactsFull || isPerformingFullPlaceholderDescRowDeletion || isPerformingFullMostlyEmptyRowDeletion || isMergingDuplicatesFull || isEnrichingColumns || isGeneratingFullDescriptions || isRunningPipeline;
   const isAnyMajorProcessing = isAnyTestLoading || isAnyFullLoading;
-  const canRunAnyProcess = csvData.length > 0 || displayData.trim() !== '';
+  const canRunAnyProcess = dataset !== null;
+  const dossierRunParams = getPipelineStepParams(pipelineRecipe, 'generateDossiers');
+  const contactsPreview = useMemo(() => displayableCorrectedContactsData && previewDatasetFromTable(displayableCorrectedContactsData), [displayableCorrectedContactsData]);
 
   return (
     <div className="container">
       <header><h1>AI CSV/Excel Editor - Find Organization URLs & Generate Dossiers</h1></header>
       <main>
+        {runControlState && (
+          <div className="run-controls" role="region" aria-label="Running operation controls">
+            <span>{runControlState === 'paused' ? 'Paused' : runControlState === 'cancelling' ? 'Cancelling...' : 'AI operation running'}{currentOperationStats.progressMessage ? `: ${currentOperationStats.progressMessage}` : ''}</span>
+            {isRunPausable && (runControlState === 'paused'
+              ? <button onClick={handleContinueOperation}>Resume</button>
+              : <button onClick={handlePauseOperation} disabled={runControlState === 'cancelling'}>Pause</button>)}
+            <button onClick={handleCancelOperation} disabled={runControlState === 'cancelling'} className="run-controls-cancel">Cancel</button>
+          </div>
+        )}
+        {pendingRunCheckpoint && (
+          <section className="resume-run-section" aria-labelledby="resume-run-heading">
+            <h2 id="resume-run-heading">Resume Interrupted Run</h2>
+            <p>{RUN_CHECKPOINT_OPERATION_LABELS[pendingRunCheckpoint.operation]} on <strong>{pendingRunCheckpoint.fileName}</strong> stopped before it finished. Progress was last saved {new Date(pendingRunCheckpoint.updatedAt).toLocaleString()}: {pendingRunCheckpoint.completedRowIds.length.toLocaleString()} of {pendingRunCheckpoint.initialDataset.rows.length.toLocaleString()} rows already sent to the AI, {pendingRunCheckpoint.tokens.requests} API request(s) made.</p>
+            <p className="help-text">Resuming restores the saved data and continues with the rows not yet sent to the AI. It replaces any data loaded in Section 2; the original workbook's other sheets are not restored. Starting a new AI run also discards this checkpoint.</p>
+            <div className="button-group">
+              <button onClick={handleResumeRun} disabled={isAnyMajorProcessing} style={{ backgroundColor: '#198754', color: 'white' }}>Resume Run</button>
+              <button onClick={handleDiscardRunCheckpoint} disabled={isAnyMajorProcessing} style={{ backgroundColor: '#6c757d' }}>Discard</button>
+            </div>
+          </section>
+        )}
+        <section className="ai-provider-section" aria-labelledby="ai-provider-heading">
+          <details open={!aiProvider}>
+            <summary><h2 id="ai-provider-heading">AI Provider: {aiProvider ? `${aiProvider.label} (${AI_TASKS.map(task => resolveTaskGeneration(modelSettings.tasks[task], task, aiProvider).model).join(' / ')})` : 'not configured'}</h2></summary>
+            {!aiProvider && <p className="error-message">{cassetteMode === 'replay' ? 'Load a cassette file below to replay its recorded AI calls.' : aiProviderSettings.kind === 'gemini' ? 'The Gemini API_KEY is not set. Configure the `API_KEY` environment variable, or choose another provider below.' : 'Enter a base URL and a model for both tiers to use this provider.'}</p>}
+            <div className="csv-options-grid ai-provider-grid">
+              <label htmlFor="aiProviderKind">Provider:
+                <select id="aiProviderKind" value={aiProviderSettings.kind} onChange={(e) => setAiProviderSettings(prev => ({ ...prev, kind: e.target.value as AiProviderKind }))} disabled={isAnyMajorProcessing}>
+                  {(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).map(kind => <option key={kind} value={kind}>{AI_PROVIDER_LABELS[kind]}</option>)}
+                </select>
+              </label>
+              {aiProviderSettings.kind === 'openai' && (<>
+                <label htmlFor="openAiBaseUrl">Base URL:
+                  <input type="text" id="openAiBaseUrl" value={aiProviderSettings.openAiBaseUrl} onChange={(e) => setAiProviderSettings(prev => ({ ...prev, openAiBaseUrl: e.target.value }))} disabled={isAnyMajorProcessing} />
+                </label>
+                <label htmlFor="openAiApiKey">API Key (optional, not saved):
+                  <input type="password" id="openAiApiKey" value={aiProviderSettings.openAiApiKey} onChange={(e) => setAiProviderSettings(prev => ({ ...prev, openAiApiKey: e.target.value }))} disabled={isAnyMajorProcessing} autoComplete="off" />
+                </label>
+                {(Object.keys(MODEL_TIER_LABELS) as ModelTier[]).map(tier => (
+                  <label key={tier} htmlFor={`openAiModel-${tier}`}>{MODEL_TIER_LABELS[tier]} model:
+                    <input type="text" id={`openAiModel-${tier}`} value={aiProviderSettings.openAiModels[tier]} onChange={(e) => setAiProviderSettings(prev => ({ ...prev, openAiModels: { ...prev.openAiModels, [tier]: e.target.value } }))} disabled={isAnyMajorProcessing} />
+                  </label>
+                ))}
+              </>)}
+            </div>
+            <small className="help-text">Only Gemini can search the web while writing dossiers; other providers answer from the model alone. Use a local model or the mock provider for data that must not leave this machine. Cost figures use the price table below; models without a price are not costed.</small>
+            <details className="csv-options">
+              <summary>Model &amp; Generation Settings</summary>
+              <ModelSettingsEditor settings={modelSettings} onChange={setModelSettings} provider={aiProvider} disabled={isAnyMajorProcessing} />
+            </details>
+            <div className="cassette-controls">
+              <label htmlFor="cassetteMode">Record / Replay:
+                <select id="cassetteMode" value={cassetteMode} onChange={(e) => setCassetteMode(e.target.value as CassetteMode)} disabled={isAnyMajorProcessing}>
+                  <option value="off">Off (live calls)</option>
+                  <option value="record">Record live calls to a cassette</option>
+                  <option value="replay">Replay a cassette (no network)</option>
+                </select>
+              </label>
+              {cassetteMode === 'record' && (<>
+                <span>{recordedCassetteEntryCount.toLocaleString()} call(s) recorded</span>
+                <button onClick={handleDownloadCassette} disabled={!configuredAiProvider || recordedCassetteEntryCount === 0}>Download Cassette</button>
+                <button onClick={handleClearCassetteRecording} disabled={isAnyMajorProcessing || recordedCassetteEntryCount === 0}>Clear</button>
+              </>)}
+              {cassetteMode === 'replay' && (<>
+                <label htmlFor="cassetteFile" className="inline-checkbox">Cassette:
+                  <input type="file" id="cassetteFile" accept=".json, application/json" onChange={handleCassetteFileChange} disabled={isAnyMajorProcessing} />
+                </label>
+                {replayCassette && <span>{replayCassette.entries.length.toLocaleString()} recorded call(s) from {replayCassette.providerLabel}</span>}
+              </>)}
+            </div>
+            <small className="help-text">Recording keeps every request and response, including failures, in memory until you download it; the file contains the data sent to the AI. Replay answers matching requests from the cassette in recorded order and fails any request it has no recording for.</small>
+          </details>
+        </section>
         <section className="file-input-section" aria-labelledby="file-input-heading">
           <h2 id="file-input-heading">1. Upload File</h2>
-          <p>Upload CSV/Excel. First sheet is "Organizations" (Col A: Name). Optional 2nd Excel sheet is "Contacts" (Col J: "Accounts::::ORG_NAME", Col D: Email). Contacts are auto-corrected & used for URL pre-fill. Col BL (index 63) is for Descriptions.</p>
+          <p>Upload CSV/Excel. CSV delimiter, quoting and encoding are auto-detected. Excel workbooks can hold Organizations and an optional Contacts sheet (account column holds "Accounts::::ORG_NAME") on any sheet. Contacts are auto-corrected & used for URL pre-fill. Column roles (name, URL, description, email, account) are mapped after upload.</p>
           <div><label htmlFor="dataFile">Select File (CSV or Excel):</label><input type="file" id="dataFile" accept=".csv, .xlsx, .xls, application/vnd.ms-excel, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} disabled={isAnyMajorProcessing} aria-describedby="dataFileHelp" /><small id="dataFileHelp" className="help-text">Data processed locally. Info sent to AI for URL finding & dossier generation.</small></div>
+          <details className="csv-options">
+            <summary>CSV Import Options (auto-detected unless overridden)</summary>
+            <div className="csv-options-grid">
+              <label htmlFor="csvDelimiter">Delimiter:
+                <select id="csvDelimiter" value={csvImportOptions.delimiter ?? ''} onChange={(e) => setCsvImportOptions(prev => ({ ...prev, delimiter: e.target.value || undefined }))} disabled={isAnyMajorProcessing}>
+                  <option value="">Auto-detect</option>
+                  {CSV_DELIMITER_CANDIDATES.map(d => <option key={d} value={d}>{describeCsvDelimiter(d)}</option>)}
+                </select>
+              </label>
+              <label htmlFor="csvQuoteChar">Quote Character:
+                <select id="csvQuoteChar" value={csvImportOptions.quoteChar ?? ''} onChange={(e) => setCsvImportOptions(prev => ({ ...prev, quoteChar: e.target.value || undefined }))} disabled={isAnyMajorProcessing}>
+                  <option value="">Auto-detect</option>
+                  {CSV_QUOTE_CANDIDATES.map(q => <option key={q} value={q}>{q === '"' ? 'Double quote (")' : "Single quote (')"}</option>)}
+                </select>
+              </label>
+              <label htmlFor="csvEncoding">Encoding:
+                <select id="csvEncoding" value={csvImportOptions.encoding ?? ''} onChange={(e) => setCsvImportOptions(prev => ({ ...prev, encoding: e.target.value || undefined }))} disabled={isAnyMajorProcessing}>
+                  <option value="">Auto-detect</option>
+                  {CSV_ENCODING_OPTIONS.map(enc => <option key={enc} value={enc}>{enc}</option>)}
+                </select>
+              </label>
+            </div>
+            <small className="help-text">Overrides apply to the next CSV you select. Excel files are not affected.</small>
+          </details>
+          {sourceWorkbook && sheetRoles && workbookSheetSummaries.length > 1 && (
+            <div className="sheet-role-picker">
+              <h3>Workbook Sheets</h3>
+              <p className="help-text">Choose which sheet holds Organizations and which holds Contacts. All other sheets are kept unchanged in the workbook download.</p>
+              <SheetRolePicker sheets={workbookSheetSummaries} roles={sheetRoles} onChange={setSheetRoles} disabled={isAnyMajorProcessing} />
+              <button onClick={handleApplySheetRoles} disabled={isAnyMajorProcessing}>Reload with Selected Sheets</button>
+              <small className="help-text help-inline">(Discards edits made since upload)</small>
+            </div>
+          )}
+          {detectedCsvDialect && (
+            <p className="help-text">Detected CSV format: {describeCsvDelimiter(detectedCsvDialect.delimiter)} delimiter, {detectedCsvDialect.quoteChar} quotes, {detectedCsvDialect.encoding}{detectedCsvDialect.hasBom ? ' with BOM' : ''}, {detectedCsvDialect.lineEnding === '\r\n' ? 'CRLF' : 'LF'} line endings.</p>
+          )}
+          {csvParseIssues.length > 0 && (
+            <details className="csv-parse-report">
+              <summary>CSV Parse Report: {csvParseIssues.length} malformed row issue(s)</summary>
+              <ul>
+                {csvParseIssues.slice(0, CSV_PARSE_REPORT_DISPLAY_LIMIT).map((issue, index) => (<li key={index}>Line {issue.line} (record {issue.record}): {issue.message}</li>))}
+              </ul>
+              {csvParseIssues.length > CSV_PARSE_REPORT_DISPLAY_LIMIT && <small className="help-text">Showing first {CSV_PARSE_REPORT_DISPLAY_LIMIT} of {csvParseIssues.length} issues.</small>}
+            </details>
+          )}
         </section>
-        {(canRunAnyProcess) && (<section className="data-display-section" aria-labelledby="data-display-heading"><h2 id="data-display-heading">2. View and Edit Main Data (JSON format)</h2><label htmlFor="csvDataTable">Main Organizations Data (JSON - editable):</label><textarea id="csvDataTable" value={displayData} onChange={(e) => { setDisplayData(e.target.value); addLog("User manually edited data in main JSON display area."); }} rows={10} spellCheck="false" disabled={isAnyMajorProcessing} aria-label="Editable main organizations data in JSON array-of-arrays format" /><small className="help-text">Main Organizations data. All processing steps below use or update this.</small></section>)}
+        {(pendingImport || canRunAnyProcess) && (
+          <section className="column-mapping-section" aria-labelledby="column-mapping-heading">
+            <h2 id="column-mapping-heading">1b. Map Column Roles</h2>
+            {pendingImport
+              ? <p>New header layout detected. Roles were guessed from the header names; confirm or change them. The mapping is saved and applied automatically to files with the same headers.</p>
+              : <p>Mapping in use for this file. Changes apply to the steps you run next and are saved for this header layout.</p>}
+            <ColumnMappingEditor
+              orgHeader={pendingImport ? pendingImport.orgsData[0] : (dataset?.header ?? [])}
+              contactsHeader={pendingImport ? (pendingImport.contactsData?.[0] ?? null) : (rawContactsSheetData?.[0] ?? null)}
+              mapping={columnMapping}
+              onChange={setColumnMapping}
+              disabled={isAnyMajorProcessing}
+            />
+            <button onClick={handleConfirmColumnMapping} disabled={isAnyMajorProcessing}>{pendingImport ? 'Confirm Mapping & Load Data' : 'Save Mapping'}</button>
+          </section>
+        )}
+        {dataset && (
+          <section className="data-display-section" aria-labelledby="data-display-heading">
+            <h2 id="data-display-heading">2. View and Edit Main Data</h2>
+            <p>Main Organizations data: {dataset.rows.length.toLocaleString()} rows x {dataset.header.length} columns. All processing steps below use or update this, and each step or cell edit is recorded in the history so it can be undone.</p>
+            <div className="button-group history-controls">
+              <button onClick={handleUndo} disabled={isAnyMajorProcessing || datasetStore.history.past.length === 0}>Undo{datasetStore.history.past.length > 0 && datasetStore.history.present ? `: ${datasetStore.history.present.label}` : ''}</button>
+              <button onClick={handleRedo} disabled={isAnyMajorProcessing || datasetStore.history.future.length === 0}>Redo{datasetStore.history.future.length > 0 ? `: ${datasetStore.history.future[0].label}` : ''}</button>
+            </div>
+            <details className="dataset-history">
+              <summary>History ({datasetStore.history.past.length + 1} step(s), up to {MAX_DATASET_HISTORY_ENTRIES} kept for undo)</summary>
+              <DatasetHistoryPanel history={datasetStore.history} />
+            </details>
+            <DataGrid data={dataset} urlColumn={columnMapping.websiteUrl} onCellEdit={handleCellEdit} disabled={isAnyMajorProcessing} height={480} selectedRowIds={selectedRowIds} onSelectionChange={setSelectedRowIds} />
+            <small className="help-text">Empty website URL cells are highlighted in red. Enriched cells are tinted by source: green for AI, blue for contacts pre-fill, yellow for manual edits. Hover a cell to see its source, method, time and grounding links. Tick rows to regenerate only their dossiers.</small>
+            <details className="dataset-history">
+              <summary>Review Step Changes ({datasetStore.history.present?.changes.length ?? 0} change(s) in the latest step)</summary>
+              <p className="help-text">Every step records the cells it changed, the rows it deleted with the reason, and the rows it merged into a survivor.</p>
+              <ChangeSetViewer history={datasetStore.history} onExport={handleExportChangeSet} />
+            </details>
+            <details className="dataset-history" onToggle={(e) => setIsDossierViewerOpen(e.currentTarget.open)}>
+              <summary>Read Dossiers</summary>
+              <p className="help-text">Dossiers from the description column, rendered with clickable footnotes. The .zip holds a Markdown and a standalone HTML file per organization, with an index page.</p>
+              {isDossierViewerOpen && <DossierViewer data={dataset} mapping={columnMapping} onExportBundle={handleDownloadDossierBundle} disabled={isAnyMajorProcessing} />}
+            </details>
+          </section>
+        )}
         
         {canRunAnyProcess && (
             <section className="test-processing-section" aria-labelledby="test-processing-heading">
                 <h2 id="test-processing-heading">3. Test Processing (First {TEST_DATA_ROW_COUNT} Data Rows)</h2><p>Test steps on a sample. Results here do not modify main data in Section 2.</p>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.1: Contact Account Correction</h3><button onClick={handleContactCorrectionTest} disabled={isAnyTestLoading || !originalContactsSampleForCorrectionTestDisplay} style={{ backgroundColor: '#ffc107', color: '#212529' }}>{isTestingContactCorrection ? 'Testing...' : `Run Contact Account Correction Test`}</button>{!originalContactsSampleForCorrectionTestDisplay && <small className="help-text help-inline">(Excel with 2nd sheet for Contacts needed)</small>}<DataTableDisplay data={originalContactsSampleForCorrectionTestDisplay} caption={`Original Contacts Sample (First ${TEST_DATA_ROW_COUNT} Contacts - Before Correction)`} /><DataTableDisplay data={correctedContactsTestDataForTable} caption="Corrected Contacts Sample (Test Output - After Correction)" /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.2: Org URL Pre-processing (from Corrected Contacts)</h3><button onClick={handlePreprocessingTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#6c757d' }}>{isTestingPreprocessing ? 'Testing...' : `Run Org URL Pre-processing Test`}</button><DataTableDisplay data={preprocessedTestDataForTable} caption={`Org URL Pre-processing Test Output (First ${TEST_DATA_ROW_COUNT} Orgs)`} /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.3: Delete Rows by Placeholder Description</h3><button onClick={handlePlaceholderDescRowDeletionTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#dc3545', color: 'white' }}>{isTestingPlaceholderDescRowDeletion ? 'Testing...' : `Run Placeholder Row Deletion Test`}</button><small className="help-text help-inline">(Uses output from Test 3.2 if available)</small><DataTableDisplay data={deletedPlaceholderDescRowsTestDataForTable} caption={`Placeholder Row Deletion Test Output`} /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.4: Delete Mostly Empty Rows</h3><button onClick={handleMostlyEmptyRowsTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#fd7e14', color: 'white' }}>{isTestingMostlyEmptyRowDeletion ? 'Testing...' : `Run Mostly Empty Row Deletion Test`}</button><small className="help-text help-inline">(Uses output from Test 3.3 if available)</small><DataTableDisplay data={deletedMostlyEmptyRowsTestDataForTable} caption={`Mostly Empty Row Deletion Test Output`} /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.5: Merge Duplicate Organizations</h3><button onClick={handleMergeDuplicatesTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#ff8c00' }}>{isTestingMergingDuplicates ? 'Testing...' : `Run Merge Duplicates Test`}</button><small className="help-text help-inline">(Uses output from Test 3.4 if available)</small><DataTableDisplay data={mergedTestDataForTable} caption={`Merge Duplicates Test Output`} /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.6: AI URL Finding (on Cleaned & Merged Sample)</h3><button onClick={handleAiTestOnPreprocessedData} disabled={isAnyTestLoading || !(mergedTestDataForTable || deletedMostlyEmptyRowsTestDataForTable || deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable)} style={{ backgroundColor: '#28a745' }}>{isTestingAiOnPreprocessed ? 'Testing AI...' : `Run AI URL Finding Test`}</button><small className="help-text help-inline">(Uses output from previous successful test step)</small><DataTableDisplay data={aiTestedDataForTable} caption={`AI URL Finding Test Output`} /></div>
-                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.7: Generate Detailed Dossier (First Data Row)</h3><button onClick={handleTestDescriptionGeneration} disabled={isAnyTestLoading || !canRunAnyProcess } style={{ backgroundColor: '#6610f2', color: 'white' }}>{isTestingDescriptionGeneration ? 'Generating...' : 'Run Dossier Generation Test'}</button><small className="help-text help-inline">(Uses first data row from current main display)</small><textarea id="dossierTestOutput" value={detailedDescriptionTestOutput ?? 'Dossier output will appear here...'} readOnly rows={8} style={{width:'100%', whiteSpace: 'pre-wrap', fontFamily:'monospace', fontSize: '0.85em', marginTop:'0.5rem', backgroundColor: '#e9ecef'}}></textarea></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.1: Contact Account Correction</h3><button onClick={handleContactCorrectionTest} disabled={isAnyTestLoading || !originalContactsSampleForCorrectionTestDisplay} style={{ backgroundColor: '#ffc107', color: '#212529' }}>{isTestingContactCorrection ? 'Testing...' : `Run Contact Account Correction Test`}</button>{!originalContactsSampleForCorrectionTestDisplay && <small className="help-text help-inline">(Excel with 2nd sheet for Contacts needed)</small>}<DataGrid data={originalContactsSampleForCorrectionTestDisplay && previewDatasetFromTable(originalContactsSampleForCorrectionTestDisplay)} height={240} caption={`Original Contacts Sample (First ${TEST_DATA_ROW_COUNT} Contacts - Before Correction)`} /><DataGrid data={correctedContactsTestDataForTable && previewDatasetFromTable(correctedContactsTestDataForTable)} height={240} caption="Corrected Contacts Sample (Test Output - After Correction)" /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.2: Org URL Pre-processing (from Corrected Contacts)</h3><button onClick={handlePreprocessingTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#6c757d' }}>{isTestingPreprocessing ? 'Testing...' : `Run Org URL Pre-processing Test`}</button><DataGrid data={preprocessedTestDataForTable} urlColumn={columnMapping.websiteUrl} height={240} caption={`Org URL Pre-processing Test Output (First ${TEST_DATA_ROW_COUNT} Orgs)`} /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.3: Delete Rows by Placeholder Description</h3><button onClick={handlePlaceholderDescRowDeletionTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#dc3545', color: 'white' }}>{isTestingPlaceholderDescRowDeletion ? 'Testing...' : `Run Placeholder Row Deletion Test`}</button><small className="help-text help-inline">(Uses output from Test 3.2 if available)</small><DataGrid data={deletedPlaceholderDescRowsTestDataForTable} urlColumn={columnMapping.websiteUrl} height={240} caption={`Placeholder Row Deletion Test Output`} /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.4: Delete Mostly Empty Rows</h3><button onClick={handleMostlyEmptyRowsTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#fd7e14', color: 'white' }}>{isTestingMostlyEmptyRowDeletion ? 'Testing...' : `Run Mostly Empty Row Deletion Test`}</button><small className="help-text help-inline">(Uses output from Test 3.3 if available)</small><DataGrid data={deletedMostlyEmptyRowsTestDataForTable} urlColumn={columnMapping.websiteUrl} height={240} caption={`Mostly Empty Row Deletion Test Output`} /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.5: Merge Duplicate Organizations</h3><button onClick={handleMergeDuplicatesTest} disabled={isAnyTestLoading || !canRunAnyProcess} style={{ backgroundColor: '#ff8c00' }}>{isTestingMergingDuplicates ? 'Testing...' : `Run Merge Duplicates Test`}</button><small className="help-text help-inline">(Uses output from Test 3.4 if available)</small><DataGrid data={mergedTestDataForTable} urlColumn={columnMapping.websiteUrl} height={240} caption={`Merge Duplicates Test Output`} /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.6: AI URL Finding (on Cleaned & Merged Sample)</h3><button onClick={handleAiTestOnPreprocessedData} disabled={isAnyTestLoading || !(mergedTestDataForTable || deletedMostlyEmptyRowsTestDataForTable || deletedPlaceholderDescRowsTestDataForTable || preprocessedTestDataForTable)} style={{ backgroundColor: '#28a745' }}>{isTestingAiOnPreprocessed ? 'Testing AI...' : `Run AI URL Finding Test`}</button><small className="help-text help-inline">(Uses output from previous successful test step)</small><DataGrid data={aiTestedDataForTable} urlColumn={columnMapping.websiteUrl} height={240} caption={`AI URL Finding Test Output`} /></div>
+                <div className="test-step"><h3 style={{marginTop: 0}}>Test 3.7: Generate Detailed Dossier (First Data Row)</h3><button onClick={handleTestDescriptionGeneration} disabled={isAnyTestLoading || !canRunAnyProcess } style={{ backgroundColor: '#6610f2', color: 'white' }}>{isTestingDescriptionGeneration ? 'Generating...' : 'Run Dossier Generation Test'}</button><small className="help-text help-inline">(Uses first data row from current main data)</small>{detailedDescriptionTestOutput ? <><DossierPreview markdown={detailedDescriptionTestOutput} idPrefix="dossier-test" /><details><summary>Markdown source</summary><textarea id="dossierTestOutput" value={detailedDescriptionTestOutput} readOnly rows={8} style={{width:'100%', whiteSpace: 'pre-wrap', fontFamily:'monospace', fontSize: '0.85em', marginTop:'0.5rem', backgroundColor: '#e9ecef'}}></textarea></details></> : <p className="help-text">Dossier output will appear here...</p>}</div>
             </section>
         )}
 
         {canRunAnyProcess && (
           <section className="ai-prompt-section" aria-labelledby="ai-action-heading">
-            <h2 id="ai-action-heading">4. Process Full Data (from Section 2)</h2><p>Run these steps in order. Each step uses/updates the main data in Section 2.</p>
+            <h2 id="ai-action-heading">4. Process Full Data (from Section 2)</h2><p>Run every enabled step of the pipeline recipe with one click, or run single steps with the buttons below. Each step uses/updates the main data in Section 2 with the parameters set in the recipe.</p>
+            <details className="pipeline-recipe-details" open>
+              <summary>Pipeline Recipe: {pipelineRecipe.name} ({pipelineRecipe.steps.filter(step => step.enabled).length} of {pipelineRecipe.steps.length} steps enabled)</summary>
+              <PipelineRecipeEditor recipe={pipelineRecipe} onChange={setPipelineRecipe} statuses={pipelineStepStatuses} disabled={isAnyMajorProcessing} />
+              <div className="button-group">
+                <button onClick={handleSaveRecipe} disabled={isAnyMajorProcessing}>Save Recipe (JSON)</button>
+                <label htmlFor="recipeFile" className="inline-checkbox">Load Recipe:
+                  <input type="file" id="recipeFile" accept=".json, application/json" onChange={handleRecipeFileChange} disabled={isAnyMajorProcessing} />
+                </label>
+                <button onClick={() => { setPipelineRecipe(DEFAULT_PIPELINE_RECIPE); setPipelineStepStatuses({}); }} disabled={isAnyMajorProcessing}>Reset to Default</button>
+              </div>
+            </details>
+            <details className="pipeline-recipe-details">
+              <summary>Prompt Templates ({PROMPT_TEMPLATE_IDS.map(id => formatPromptVersion(id, promptLibrary[id].activeVersion)).join(', ')})</summary>
+              <PromptTemplateEditor library={promptLibrary} onChange={setPromptLibrary} sample={dataset} mapping={columnMapping} enrichmentColumn={enrichmentColumns.find(column => column.enabled) ?? enrichmentColumns[0]} disabled={isAnyMajorProcessing} />
+              <div className="button-group">
+                <button onClick={handleExportPromptTemplates} disabled={isAnyMajorProcessing}>Export Templates (JSON)</button>
+                <label htmlFor="promptTemplatesFile" className="inline-checkbox">Import Templates:
+                  <input type="file" id="promptTemplatesFile" accept=".json, application/json" onChange={handlePromptTemplatesFileChange} disabled={isAnyMajorProcessing} />
+                </label>
+              </div>
+              <small className="help-text">Templates are saved in this browser. Each AI-enriched cell records the prompt version that produced it; hover the cell or export provenance to see it.</small>
+            </details>
+            <details className="pipeline-recipe-details">
+              <summary>Enrichment Columns ({enrichmentColumns.filter(column => column.enabled).length} of {enrichmentColumns.length} enabled)</summary>
+              <EnrichmentColumnsEditor columns={enrichmentColumns} onChange={setEnrichmentColumns} header={dataset?.header} mapping={columnMapping} disabled={isAnyMajorProcessing} />
+              <small className="help-text">Columns are saved in this browser. They are filled in batches with the same retries, batch splitting and checkpoints as URL finding, using the "Enrichment columns" model settings and prompt template. A value that does not fit the expected type or validation rule is not written; the row is asked again.</small>
+            </details>
+            <details className="csv-options">
+              <summary>API Rate Limits</summary>
+              <div className="csv-options-grid rate-limits-grid">
+                {(Object.keys(MODEL_TIER_LABELS) as ModelTier[]).map(tier => (
+                  <React.Fragment key={tier}>
+                    <label htmlFor={`rpm-${tier}`}>{MODEL_TIER_LABELS[tier]} requests/min:
+                      <input type="number" id={`rpm-${tier}`} min={1} defaultValue={rateLimits[tier].requestsPerMinute} onChange={(e) => handleRateLimitChange(tier, 'requestsPerMinute', e.target.value)} />
+                    </label>
+                    <label htmlFor={`tpm-${tier}`}>{MODEL_TIER_LABELS[tier]} input tokens/min:
+                      <input type="number" id={`tpm-${tier}`} min={1} defaultValue={rateLimits[tier].tokensPerMinute} onChange={(e) => handleRateLimitChange(tier, 'tokensPerMinute', e.target.value)} />
+                    </label>
+                  </React.Fragment>
+                ))}
+              </div>
+              <small className="help-text">Set these to your API key's quotas. Requests wait for quota instead of failing, and a 429 response pauses every request to that model for the delay the API asks for.</small>
+            </details>
+            <div className="button-group"><button onClick={handleRunPipeline} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#198754', color: 'white' }}>{isRunningPipeline ? 'Running Pipeline...' : 'Run All Enabled Steps'}</button><small className="help-text help-inline">(Stops at the first failed step; each step can still be undone in Section 2)</small></div>
+            <h3>Run Single Steps</h3>
             <div className="button-group"><button onClick={handleFullContactsPreprocessing} disabled={isAnyMajorProcessing || !rawContactsSheetData || !canRunAnyProcess } style={{ backgroundColor: '#17a2b8' }}>{isProcessingContactsFull ? 'Pre-filling...' : 'Step 1: Pre-fill Full Data from Contacts'}</button>{!rawContactsSheetData && <small className="help-text help-inline">(Requires Excel with contacts sheet)</small>}</div>
             <div className="button-group"><button onClick={handleFullPlaceholderDescRowDeletion} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#c82333', color: 'white' }}>{isPerformingFullPlaceholderDescRowDeletion ? 'Deleting...' : 'Step 1.3 (Optional): Delete Placeholder Desc Rows'}</button></div>
             <div className="button-group"><button onClick={handleFullMostlyEmptyRows} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#e0a800', color: '#212529' }}>{isPerformingFullMostlyEmptyRowDeletion ? 'Deleting...' : 'Step 1.4 (Optional): Delete Mostly Empty Rows'}</button></div>
             <div className="button-group"><button onClick={handleMergeDuplicateOrganizations} disabled={isAnyMajorProcessing || !canRunAnyProcess } style={{ backgroundColor: '#ff8c00' }}>{isMergingDuplicatesFull ? 'Merging...' : 'Step 1.6 (Optional): Merge Duplicate Orgs'}</button></div>
-            <div className="button-group"><button onClick={handleFindUrlsWithAi} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#007bff' }}>{isLoading ? 'AI Processing (URL Finding)...' : 'Step 2: AI Find Missing URLs (Batches)'}</button></div>
-            <div className="button-group"><button onClick={handleGenerateFullDescriptions} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#6f42c1', color: 'white' }}>{isGeneratingFullDescriptions ? 'AI Generating Dossiers (Row by Row)...' : 'Step 3: Generate Detailed Dossiers (AI - Full Data)'}</button></div>
+            <div className="button-group"><button onClick={() => handleFindUrlsWithAi()} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#007bff' }}>{isLoading ? 'AI Processing (URL Finding)...' : 'Step 2: AI Find Missing URLs (Batches)'}</button><button onClick={handleRetrySkippedUrlRows} disabled={isAnyMajorProcessing || !canRunAnyProcess || unresolvedUrlRowIds.length === 0} style={{ backgroundColor: '#0056b3' }}>Retry Skipped Rows ({unresolvedUrlRowIds.length})</button>{urlBatchFailureRate > 0 && <small className="help-text help-inline">(Next batch size: {adaptUrlBatchSize(getPipelineStepParams(pipelineRecipe, 'findUrls').batchSize ?? DEFAULT_URL_BATCH_SIZE, urlBatchFailureRate)}, adapted from recent batch failures)</small>}</div>
+            <div className="button-group"><button onClick={() => handleEnrichColumnsWithAi()} disabled={isAnyMajorProcessing || !canRunAnyProcess || !enrichmentColumns.some(column => column.enabled)} style={{ backgroundColor: '#0dcaf0', color: '#212529' }}>{isEnrichingColumns ? 'AI Enriching Columns...' : 'Step 2.5: AI Enrich Custom Columns (Batches)'}</button><small className="help-text help-inline">({enrichmentColumns.filter(column => column.enabled).length} enabled column(s), defined under "Enrichment Columns" above)</small></div>
+            <div className="button-group"><button onClick={() => handleGenerateFullDescriptions()} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#6f42c1', color: 'white' }}>{isGeneratingFullDescriptions ? 'AI Generating Dossiers (Row by Row)...' : 'Step 3: Generate Detailed Dossiers (AI - Full Data)'}</button>
+              <label htmlFor="dossierRefreshMode" className="inline-checkbox">Rows:
+                <select id="dossierRefreshMode" value={dossierRunParams.refreshMode ?? DEFAULT_DOSSIER_REFRESH_MODE} onChange={(e) => updateDossierStepParams({ refreshMode: e.target.value as DossierRefreshMode })} disabled={isAnyMajorProcessing}>
+                  {DOSSIER_REFRESH_MODES.map(mode => <option key={mode} value={mode}>{DOSSIER_REFRESH_MODE_LABELS[mode]}{mode === 'selected' ? ` (${selectedRowIds.size})` : ''}</option>)}
+                </select>
+              </label>
+              {dossierRunParams.refreshMode === 'stale' && (
+                <label htmlFor="dossierStaleAfterDays" className="inline-checkbox">N days:
+                  <input type="number" id="dossierStaleAfterDays" min={1} max={3650} value={dossierRunParams.staleAfterDays ?? DEFAULT_DOSSIER_STALE_DAYS} onChange={(e) => updateDossierStepParams({ staleAfterDays: Math.min(3650, Math.max(1, Math.floor(Number(e.target.value) || 1))) })} disabled={isAnyMajorProcessing} />
+                </label>
+              )}
+            </div>
+            <div className="button-group"><button onClick={handleExtractKeyPersonnel} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{ backgroundColor: '#20c997', color: '#212529' }}>Step 4: Extract Key Personnel to Contacts</button><small className="help-text help-inline">(Adds the leaders named in each dossier to the contacts sheet, with their influence class. Likely duplicates are flagged, not skipped.)</small></div>
+            {contactsPreview && (
+              <details className="dataset-history">
+                <summary>Contacts Sheet ({contactsPreview.rows.length.toLocaleString()} contact(s))</summary>
+                <DataGrid data={contactsPreview} height={300} />
+              </details>
+            )}
           </section>
         )}
 
-        {aiGroundingSources.length > 0 && (<section aria-labelledby="grounding-sources-heading"><h3 id="grounding-sources-heading">AI Search Insights (from last URL finding run)</h3><p>AI may have used info from (not all found URLs):</p><ul className="grounding-sources-list">{aiGroundingSources.map((source, index) => (<li key={index}><a href={String(source.web?.uri ?? '')} target="_blank" rel="noopener noreferrer" title={String(source.web?.uri ?? '')}>{String(source.web?.title || source.web?.uri || '')}</a></li>))}</ul></section>)}
         
         <section className="download-section" aria-labelledby="download-heading">
           <h2 id="download-heading">5. Download Files</h2>
           <button onClick={handleDownloadCsv} disabled={isAnyMajorProcessing || !canRunAnyProcess}>{isLoading ? 'Processing...' : `Download Main Data (${fileName})`}</button>
+          <button onClick={handleDownloadWorkbook} disabled={isAnyMajorProcessing || !canRunAnyProcess}>{isLoading ? 'Processing...' : 'Download Workbook (.xlsx)'}</button>
+          <label htmlFor="includeRunReportSheet" className="checkbox-label inline-checkbox">
+            <input type="checkbox" id="includeRunReportSheet" checked={includeRunReportSheet} onChange={(e) => setIncludeRunReportSheet(e.target.checked)} />
+            Include run-report sheet
+          </label>
+          <label htmlFor="provenanceExport" className="inline-checkbox">Cell provenance:
+            <select id="provenanceExport" value={provenanceExport} onChange={(e) => setProvenanceExport(e.target.value as 'none' | 'columns' | 'sidecar')}>
+              <option value="none">Not exported</option>
+              <option value="columns">Add "_source" columns</option>
+              <option value="sidecar">JSON sidecar file</option>
+            </select>
+          </label>
+          <label htmlFor="dossierExport" className="inline-checkbox">Dossier fields:
+            <select id="dossierExport" value={dossierExport} onChange={(e) => setDossierExport(e.target.value as 'none' | 'columns' | 'jsonl')}>
+              <option value="none">Not exported</option>
+              <option value="columns">Add "dossier_" columns</option>
+              <option value="jsonl">JSON Lines file (one organization per line)</option>
+            </select>
+          </label>
+          <button onClick={handleDownloadDossierBundle} disabled={isAnyMajorProcessing || !canRunAnyProcess}>{isLoading ? 'Processing...' : 'Download Dossier Bundle (.zip)'}</button>
           <button onClick={handleDownloadCorrectedContactsCsv} disabled={isAnyMajorProcessing || !displayableCorrectedContactsData}>
             {isLoading ? 'Processing...' : `Download Corrected Contacts Data`}
           </button>
-          {!displayableCorrectedContactsData && <small className="help-text help-inline">(Corrected Contacts download available if Excel with 2nd sheet was uploaded)</small>}
+          {!displayableCorrectedContactsData && <small className="help-text help-inline">(Contacts download available once a contacts sheet is uploaded or key personnel are extracted)</small>}
+          <details className="csv-options">
+            <summary>CSV Export Options</summary>
+            <div className="csv-options-grid">
+              <label htmlFor="csvExportDelimiter">Delimiter:
+                <select id="csvExportDelimiter" value={csvExportOptions.delimiter ?? ','} onChange={(e) => setCsvExportOptions(prev => ({ ...prev, delimiter: e.target.value }))}>
+                  {CSV_DELIMITER_CANDIDATES.map(d => <option key={d} value={d}>{describeCsvDelimiter(d)}</option>)}
+                </select>
+              </label>
+              <label htmlFor="csvExportLineEnding">Line Ending:
+                <select id="csvExportLineEnding" value={csvExportOptions.lineEnding ?? '\n'} onChange={(e) => setCsvExportOptions(prev => ({ ...prev, lineEnding: e.target.value as '\n' | '\r\n' }))}>
+                  <option value={'\n'}>LF (Unix/macOS)</option>
+                  <option value={'\r\n'}>CRLF (Windows)</option>
+                </select>
+              </label>
+              <label htmlFor="csvExportBom" className="checkbox-label">
+                <input type="checkbox" id="csvExportBom" checked={!!csvExportOptions.bom} onChange={(e) => setCsvExportOptions(prev => ({ ...prev, bom: e.target.checked }))} />
+                Write UTF-8 BOM (helps Excel open UTF-8 files)
+              </label>
+            </div>
+            <small className="help-text">Defaults to the format detected on upload so files round-trip. Exported CSVs are always UTF-8 encoded.</small>
+          </details>
         </section>
 
         <section className="usage-stats-section" aria-labelledby="usage-stats-heading">
@@ -1507,13 +6309,39 @@ Final Output: Your final response must be a single, clean markdown document. Do
             <button onClick={handleEstimateFullAiRunCost} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{backgroundColor: '#5a28a7', marginBottom: '1rem', color: 'white'}}>
                 {isEstimatingCost ? 'Estimating...' : 'Estimate Cost for Next Full URL Finding Run'}
             </button>
+            <button onClick={handleEstimateDossierRunCost} disabled={isAnyMajorProcessing || !canRunAnyProcess} style={{backgroundColor: '#6f42c1', marginBottom: '1rem', color: 'white'}}>
+                {isEstimatingCost ? 'Estimating...' : 'Estimate Cost for Next Dossier Run'}
+            </button>
             {preRunEstimation && (
                 <div className="estimation-details">
                     <h4>Pre-Run Estimation (for Full AI URL Finding on current data):</h4>
-                    <p>Est. Input Tokens (Flash Model): {preRunEstimation.inputTokens.toLocaleString()}</p>
-                    <p>Est. API Requests (Grounding): {preRunEstimation.apiRequests.toLocaleString()}</p>
-                    <p>Est. Input & Grounding Cost (USD): ${preRunEstimation.estimatedInputCost.toFixed(4)}</p>
-                    <small><em>Note: This pre-run estimate does NOT include output token costs (Flash model) or any costs related to Dossier Generation (Pro model). Grounding cost assumes requests might exceed the daily free tier.</em></small>
+                    <p>Model: {preRunEstimation.model}{preRunEstimation.grounded ? ' (grounded)' : ''}</p>
+                    <p>Rows answered from the response cache: {preRunEstimation.cachedRows.toLocaleString()}</p>
+                    <p>Est. Input Tokens: {preRunEstimation.inputTokens.toLocaleString()}</p>
+                    <p>Est. API Requests{preRunEstimation.grounded ? ' (Grounding)' : ''}: {preRunEstimation.apiRequests.toLocaleString()}</p>
+                    <p>Est. {preRunEstimation.grounded ? 'Input & Grounding' : 'Input'} Cost (USD): ${preRunEstimation.estimatedInputCost.toFixed(4)}</p>
+                    <small><em>Note: This pre-run estimate does NOT include output token costs or any costs related to Dossier Generation. {preRunEstimation.grounded ? 'Grounding is billed only for requests beyond the daily free allowance of this model, counting the grounded requests already made this session.' : 'Search grounding is turned off for URL lookups, so no grounding cost applies.'}</em></small>
+                </div>
+            )}
+            {dossierRunEstimation && (
+                <div className="estimation-details">
+                    <h4>Pre-Run Estimation (for Dossier Generation on current data):</h4>
+                    <table className="dossier-refresh-table">
+                      <thead><tr><th>Rows to generate</th><th>Rows</th></tr></thead>
+                      <tbody>
+                        {DOSSIER_REFRESH_MODES.map(mode => (
+                          <tr key={mode} className={mode === dossierRunEstimation.refreshMode ? 'dossier-refresh-current' : undefined}>
+                            <td>{describeDossierRefreshMode(mode, dossierRunEstimation.staleAfterDays)}{mode === dossierRunEstimation.refreshMode ? ' (configured)' : ''}</td>
+                            <td>{dossierRunEstimation.modeCounts[mode].toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p>Model: {dossierRunEstimation.model}</p>
+                    <p>Est. Input Tokens: {dossierRunEstimation.inputTokens.toLocaleString()}</p>
+                    <p>Est. Output Tokens: {dossierRunEstimation.outputTokens.toLocaleString()}</p>
+                    <p>Est. Cost (USD): ${dossierRunEstimation.estimatedCost.toFixed(4)}</p>
+                    <small><em>Note: Priced for "{dossierRunEstimation.refreshDescription}", with about {DOSSIER_ESTIMATED_OUTPUT_TOKENS.toLocaleString()} output tokens per dossier. Regenerations after failed quality checks, retries and grounding charges are not included.</em></small>
                 </div>
             )}
             {(currentOperationStats.operationType || currentOperationStats.status !== 'idle') && (
@@ -1533,15 +6361,22 @@ Final Output: Your final response must be a single, clean markdown document. Do
                 <ul>
                     <li>Total Input Tokens: {totalInputTokens.toLocaleString()}</li>
                     <li>Total Output Tokens: {totalOutputTokens.toLocaleString()}</li>
-                    <li>Total API Requests (for grounding): {totalApiRequestsMade.toLocaleString()}</li>
-                    <li>Estimated Cumulative Session Cost (USD): ${estimatedCost.toFixed(4)}</li>
+                    <li>Total API Requests: {totalApiRequestsMade.toLocaleString()} ({AI_TASKS.reduce((sum, task) => sum + (groundedRequestsByTask[task] ?? 0), 0).toLocaleString()} grounded)</li>
+                    <li>Estimated Cumulative Session Cost (USD): ${(estimatedCost + sessionGroundingCost).toFixed(4)} (grounding: ${sessionGroundingCost.toFixed(4)})</li>
                 </ul>
             </div>
             <small className="help-text" style={{marginTop: '1rem'}}>
-                Flash Model ({'gemini-2.5-flash-preview-04-17'}) Costs: Input ${FLASH_PRICE_INPUT_PER_MILLION_TOKENS}/1M, Output (Thinking) ${FLASH_PRICE_OUTPUT_THINKING_PER_MILLION_TOKENS}/1M.<br/>
-                Pro Model ({'gemini-2.5-pro-preview-04-17'}) Costs (<=200k prompts): Input ${PRO_PRICE_INPUT_PER_MILLION_TOKENS}/1M, Output ${PRO_PRICE_OUTPUT_PER_MILLION_TOKENS}/1M.<br/>
-                Grounding with Google Search: First {FLASH_FREE_GROUNDING_REQUESTS_PER_DAY} requests/day free (for URL Finding). Additional requests ~$${FLASH_PRICE_GROUNDING_PER_THOUSAND_REQUESTS_AFTER_FREE_TIER}/1000. Cumulative cost includes an estimate for grounding.
+                {aiProvider && AI_TASKS.map(task => {
+                  const { model, grounded } = resolveTaskGeneration(modelSettings.tasks[task], task, aiProvider);
+                  const pricing = modelSettings.pricing[model];
+                  return <React.Fragment key={task}>{AI_TASK_LABELS[task]} ({model}{grounded ? ', grounded' : ''}): {pricing ? `Input $${pricing.inputPerMillionTokens}/1M, Output (incl. thinking) $${pricing.outputPerMillionTokens}/1M. Grounding: first ${pricing.freeGroundingRequestsPerDay} requests/day free, then ~$${pricing.groundingPerThousandRequests}/1000.` : 'No price set; not costed.'}<br/></React.Fragment>;
+                })}
+                Prices come from the table under Model &amp; Generation Settings. Cumulative cost includes an estimate for grounding.
             </small>
+            <details className="dataset-history" onToggle={(e) => { if (e.currentTarget.open) refreshResponseCacheSummary(); }}>
+                <summary>Response Cache</summary>
+                <ResponseCacheManager settings={responseCacheSettings} onChange={setResponseCacheSettings} stats={responseCacheStats} summary={responseCacheSummary} onRefresh={refreshResponseCacheSummary} onExport={handleExportResponseCache} onPurge={handlePurgeResponseCache} disabled={isAnyMajorProcessing} />
+            </details>
         </section>
         <section className="activity-log-section" aria-labelledby="activity-log-heading">
           <h2 id="activity-log-heading">Activity Log</h2>